@@ -0,0 +1,46 @@
+import { analyzeCadence } from '@/lib/scoring';
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface CadenceHeatmapProps {
+  timestamps: string[];
+}
+
+// Hour-of-day × day-of-week grid of when the profile's recent posts went out (UTC).
+export function CadenceHeatmap({ timestamps }: CadenceHeatmapProps) {
+  const cadence = analyzeCadence(timestamps);
+  const peak = Math.max(1, ...cadence.heatmap.flat());
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <div className="inline-grid min-w-full gap-px" style={{ gridTemplateColumns: 'auto repeat(24, minmax(10px, 1fr))' }}>
+          {cadence.heatmap.map((hours, day) => (
+            <div key={day} className="contents">
+              <span className="pr-1.5 text-[10px] leading-3 text-muted-foreground">{DAYS[day]}</span>
+              {hours.map((count, hour) => (
+                <div
+                  key={hour}
+                  className="h-3 rounded-[2px] bg-primary"
+                  style={{ opacity: count === 0 ? 0.06 : 0.2 + 0.8 * (count / peak) }}
+                  title={`${DAYS[day]} ${String(hour).padStart(2, '0')}:00 UTC — ${count} post${count === 1 ? '' : 's'}`}
+                />
+              ))}
+            </div>
+          ))}
+          <span />
+          {Array.from({ length: 24 }, (_, hour) => (
+            <span key={hour} className="text-center text-[9px] text-muted-foreground">
+              {hour % 6 === 0 ? hour : ''}
+            </span>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {cadence.post_count} post{cadence.post_count === 1 ? '' : 's'} over {cadence.span_days} days (UTC)
+        {cadence.median_interval_minutes !== null && <> · median gap {cadence.median_interval_minutes.toLocaleString()} min</>}
+        {cadence.sleep_gap_hours !== null && <> · longest quiet stretch {cadence.sleep_gap_hours}h</>}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Badge } from '@/components/ui/badge';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import type { ExtractionConfidence, FieldProvenance, FieldSource } from '@/lib/extraction';
+
+const sourceLabel: Record<FieldSource, string> = {
+  parser: 'Page',
+  llm: 'AI',
+  default: 'Default',
+};
+
+const sourceDescription: Record<FieldSource, string> = {
+  parser: 'Read directly from the page markup.',
+  llm: 'Extracted by the AI model from the page text.',
+  default: 'Not found on the page — left at its default.',
+};
+
+const confidenceColor: Record<ExtractionConfidence, string> = {
+  high: 'border-risk-real text-risk-real',
+  medium: 'border-risk-suspicious text-risk-suspicious',
+  low: 'border-risk-fake text-risk-fake',
+};
+
+interface FieldProvenanceBadgeProps {
+  provenance?: FieldProvenance;
+}
+
+// Where an auto-filled form value came from; hover for the page text it was read from.
+export function FieldProvenanceBadge({ provenance }: FieldProvenanceBadgeProps) {
+  if (!provenance) return null;
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <span tabIndex={0} className="inline-flex cursor-help">
+          <Badge variant="outline" className={`px-1.5 py-0 text-[10px] font-normal ${confidenceColor[provenance.confidence]}`}>
+            {sourceLabel[provenance.source]}
+          </Badge>
+        </span>
+      </HoverCardTrigger>
+      <HoverCardContent align="start" className="w-72 space-y-2 p-3 text-xs">
+        <p>
+          {sourceDescription[provenance.source]}{' '}
+          <span className="capitalize">{provenance.confidence}</span> confidence.
+        </p>
+        {provenance.snippet ? (
+          <blockquote className="break-words rounded border-l-2 bg-muted/50 px-2 py-1.5 font-mono text-[11px] text-muted-foreground">
+            {provenance.snippet}
+          </blockquote>
+        ) : provenance.source === 'llm' ? (
+          <p className="text-muted-foreground">The model did not quote any page text for this value — check it by hand.</p>
+        ) : null}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
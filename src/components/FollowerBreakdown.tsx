@@ -0,0 +1,73 @@
+import type { FollowerScore, RiskLabel } from '@/lib/scoring';
+
+const labelOrder: RiskLabel[] = ['fake', 'suspicious', 'real'];
+
+const labelStyle: Record<RiskLabel, { text: string; bar: string }> = {
+  fake: { text: 'text-risk-fake', bar: 'bg-risk-fake' },
+  suspicious: { text: 'text-risk-suspicious', bar: 'bg-risk-suspicious' },
+  real: { text: 'text-risk-real', bar: 'bg-risk-real' },
+};
+
+interface FollowerBreakdownProps {
+  followers: FollowerScore[];
+}
+
+// Label mix of a scored follower sample, then every follower riskiest first.
+export function FollowerBreakdown({ followers }: FollowerBreakdownProps) {
+  const counts = Object.fromEntries(
+    labelOrder.map((label) => [label, followers.filter((f) => f.label === label).length]),
+  ) as Record<RiskLabel, number>;
+  const sorted = [...followers].sort((a, b) => b.risk_score - a.risk_score);
+  const handleOnly = followers.filter((f) => f.handle_only).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+          {labelOrder.map((label) => (
+            <div key={label} className={labelStyle[label].bar} style={{ width: `${(counts[label] / followers.length) * 100}%` }} />
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs">
+          {labelOrder.map((label) => (
+            <span key={label} className={labelStyle[label].text}>
+              <span className="font-semibold capitalize">{label}</span> {counts[label]} ({Math.round((counts[label] / followers.length) * 100)}%)
+            </span>
+          ))}
+          <span className="text-muted-foreground">of {followers.length} sampled</span>
+          {handleOnly > 0 && (
+            <span className="text-muted-foreground">· {handleOnly} handle only, not counted towards the bot share</span>
+          )}
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-muted/80 text-left text-muted-foreground">
+            <tr>
+              <th className="px-2.5 py-1.5 font-medium">Follower</th>
+              <th className="px-2.5 py-1.5 text-right font-medium">Score</th>
+              <th className="px-2.5 py-1.5 font-medium">Label</th>
+              <th className="px-2.5 py-1.5 font-medium">Signals</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((f, i) => (
+              <tr key={`${f.username}-${i}`} className="border-t">
+                <td className="px-2.5 py-1.5 font-medium">@{f.username}</td>
+                <td className="px-2.5 py-1.5 text-right font-mono">{f.risk_score}</td>
+                <td className={`px-2.5 py-1.5 font-semibold capitalize ${labelStyle[f.label].text}`}>
+                  {f.label}
+                  {f.handle_only
+                    ? <span className="ml-1 font-normal text-muted-foreground">(handle only)</span>
+                    : f.confidence !== 'high' && <span className="ml-1 font-normal text-muted-foreground">({f.confidence} conf.)</span>}
+                </td>
+                <td className="px-2.5 py-1.5 text-muted-foreground">{f.factors.join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
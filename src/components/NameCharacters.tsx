@@ -0,0 +1,96 @@
+import { Badge } from '@/components/ui/badge';
+import { analyzeConfusables, type ConfusableAnalysis, type NameField } from '@/lib/scoring';
+
+interface HighlightedNameProps {
+  text: string;
+  field: NameField;
+  className?: string;
+}
+
+// The name as typed, with lookalike letters marked and invisible characters
+// made visible as their code point.
+export function HighlightedName({ text, field, className }: HighlightedNameProps) {
+  return <NameSpans text={text} analysis={analyzeConfusables(text, field)} className={className} />;
+}
+
+function NameSpans({ text, analysis, className }: { text: string; analysis: ConfusableAnalysis; className?: string }) {
+  const confusables = new Map(analysis.confusables.map((c) => [c.index, c]));
+  const invisible = new Map(analysis.invisible.map((c) => [c.index, c]));
+
+  return (
+    <span className={className}>
+      {Array.from(text).map((char, i) => {
+        const lookalike = confusables.get(i);
+        if (lookalike) {
+          return (
+            <mark
+              key={i}
+              className="rounded-sm bg-risk-fake/15 text-risk-fake underline decoration-dotted underline-offset-2"
+              title={`${lookalike.script} ${lookalike.codepoint} — looks like "${lookalike.looks_like}"`}
+            >
+              {char}
+            </mark>
+          );
+        }
+        const hidden = invisible.get(i);
+        if (hidden) {
+          return (
+            <mark
+              key={i}
+              className="mx-px rounded-sm bg-risk-fake/15 px-0.5 align-middle font-mono text-[9px] text-risk-fake"
+              title={hidden.name}
+            >
+              {hidden.codepoint}
+            </mark>
+          );
+        }
+        return char;
+      })}
+    </span>
+  );
+}
+
+interface NameCharacterFindingsProps {
+  names: { field: NameField; text: string }[];
+}
+
+// Highlighted names plus what was found in them; nothing when all are clean.
+export function NameCharacterFindings({ names }: NameCharacterFindingsProps) {
+  const findings = names
+    .filter((n) => n.text)
+    .map((n) => ({ ...n, analysis: analyzeConfusables(n.text, n.field) }))
+    .filter(({ analysis }) =>
+      analysis.confusables.length > 0 || analysis.invisible.length > 0 || analysis.mixed_script_words.length > 0);
+
+  if (findings.length === 0) return null;
+
+  return (
+    <ul className="space-y-1.5">
+      {findings.map(({ field, text, analysis }) => (
+        <li key={field} className="space-y-1 text-xs">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-muted-foreground">{field === 'username' ? 'Username' : 'Display name'}:</span>
+            <NameSpans text={text} analysis={analysis} className="font-medium" />
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {analysis.confusables.length > 0 && (
+              <Badge variant="outline" className="border-risk-fake text-[10px] text-risk-fake">
+                {analysis.confusables.length} lookalike{analysis.confusables.length === 1 ? '' : 's'} · reads as "{analysis.skeleton}"
+              </Badge>
+            )}
+            {analysis.mixed_script_words.length > 0 && (
+              <Badge variant="outline" className="border-risk-suspicious text-[10px] text-risk-suspicious">
+                Mixed scripts: {analysis.scripts.join(' + ')}
+              </Badge>
+            )}
+            {analysis.invisible.length > 0 && (
+              <Badge variant="outline" className="border-risk-fake text-[10px] text-risk-fake">
+                {analysis.invisible.length} hidden character{analysis.invisible.length === 1 ? '' : 's'}
+              </Badge>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
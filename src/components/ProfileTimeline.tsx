@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { compareSnapshots, toSnapshot } from '@/lib/scoring';
+import { formatMetric } from '@/lib/utils';
+import type { AnalysisResult } from '@/types';
+
+// Rules that compare a scan with the one before it
+const SNAPSHOT_RULES = ['follower_spike', 'mass_unfollow', 'post_deletion'];
+
+const series = [
+  { key: 'followers_count', label: 'Followers', color: 'hsl(var(--primary))' },
+  { key: 'following_count', label: 'Following', color: 'hsl(var(--risk-suspicious))' },
+  { key: 'posts_count', label: 'Posts', color: 'hsl(var(--risk-real))' },
+  { key: 'risk_score', label: 'Risk score', color: 'hsl(var(--risk-fake))' },
+] as const;
+
+interface ProfileTimelineProps {
+  scans: AnalysisResult[];   // every scan of one profile, oldest first
+}
+
+function signed(value: number | null, suffix = ''): string {
+  if (value === null) return '?';
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()}${suffix}`;
+}
+
+// Counts and risk score across repeated scans of the same profile, with the
+// change between each pair of scans and any anomaly it triggered.
+export function ProfileTimeline({ scans }: ProfileTimelineProps) {
+  const data = scans.map((s) => ({ ...s, day: format(new Date(s.created_at), 'MMM d') }));
+  const changes = scans.slice(1).map((scan, i) => {
+    const change = compareSnapshots(toSnapshot(scans[i], scan.created_at), scan);
+    const anomalies = scan.top_factors.filter((f) => SNAPSHOT_RULES.includes(f.rule_id ?? ''));
+    return { scan, change, anomalies };
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        {series.map(({ key, label, color }) => (
+          <div key={key}>
+            <p className="mb-1 text-[11px] font-medium text-muted-foreground">{label}</p>
+            <ResponsiveContainer width="100%" height={90}>
+              <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                <XAxis dataKey="day" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                <YAxis
+                  tick={{ fontSize: 10 }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={40}
+                  domain={key === 'risk_score' ? [0, 100] : ['auto', 'auto']}
+                  tickFormatter={(v: number) => (v >= 1000 ? `${Math.round(v / 100) / 10}k` : String(v))}
+                />
+                <Tooltip
+                  contentStyle={{ fontSize: 12, borderRadius: 8, border: '1px solid hsl(var(--border))', background: 'hsl(var(--card))' }}
+                  formatter={(value: number) => [formatMetric(value), label]}
+                />
+                <Line type="monotone" dataKey={key} stroke={color} strokeWidth={2} dot={{ r: 2.5 }} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </div>
+
+      <ul className="space-y-1.5">
+        {changes.map(({ scan, change, anomalies }) => (
+          <li key={scan.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 rounded-md border px-2.5 py-1.5 text-xs">
+            <span className="font-medium">{format(new Date(scan.created_at), 'MMM d, yyyy')}</span>
+            <span className="text-muted-foreground">after {change.days} days</span>
+            <span>Followers {signed(change.follower_gain)}</span>
+            <span>Following {signed(change.following_drop === null ? null : -change.following_drop)}</span>
+            <span>Posts {signed(change.posts_deleted === null ? null : -change.posts_deleted)}</span>
+            {anomalies.map((f) => (
+              <Badge key={f.rule_id} variant="outline" className="border-risk-fake text-[10px] text-risk-fake" title={f.description}>
+                {f.factor}
+              </Badge>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
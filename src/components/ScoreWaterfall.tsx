@@ -0,0 +1,88 @@
+import { RULE_METRICS, type FactorTrigger, type TopFactor } from '@/lib/scoring';
+
+const metricLabel = Object.fromEntries(RULE_METRICS.map((m) => [m.value, m.label.replace(/ \(.*\)$/, '')]));
+
+const impactBar = {
+  high: 'bg-risk-fake',
+  medium: 'bg-risk-suspicious',
+  low: 'bg-risk-real',
+};
+
+function formatValue(value: number) {
+  if (!Number.isFinite(value)) return '∞';
+  return Number.isInteger(value) ? value.toLocaleString() : value.toFixed(2);
+}
+
+function describeTrigger(t: FactorTrigger) {
+  return `${metricLabel[t.metric] ?? t.metric} ${formatValue(t.value)} ${t.op} ${formatValue(t.threshold)}`;
+}
+
+interface ScoreWaterfallProps {
+  factors: TopFactor[];
+  score: number;
+}
+
+// Step-by-step build-up of the risk score from 0, one bar per fired factor.
+export function ScoreWaterfall({ factors, score }: ScoreWaterfallProps) {
+  if (factors.length > 0 && factors.some((f) => f.points === undefined)) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Point contributions were not recorded for this analysis.
+      </p>
+    );
+  }
+
+  let running = 0;
+  const steps = factors.map((f) => {
+    const start = running;
+    running += f.points ?? 0;
+    return { factor: f, start, end: running };
+  });
+  const clamped = running !== score;
+
+  return (
+    <div className="space-y-1.5">
+      {steps.map(({ factor, start, end }, i) => {
+        const left = Math.min(100, Math.max(0, Math.min(start, end)));
+        const width = Math.max(0, Math.min(100, Math.max(start, end)) - left);
+        return (
+          <div key={i} className="grid grid-cols-12 items-center gap-2 text-xs">
+            <div className="col-span-4 min-w-0">
+              <p className="truncate font-medium">{factor.factor}</p>
+              {factor.triggers && factor.triggers.length > 0 && (
+                <p className="truncate font-mono text-[10px] text-muted-foreground">
+                  {factor.triggers.map(describeTrigger).join(' · ')}
+                </p>
+              )}
+            </div>
+            <div className="relative col-span-7 h-3 rounded-sm bg-muted">
+              <div
+                className={`absolute inset-y-0 rounded-sm ${impactBar[factor.impact]}`}
+                style={{ left: `${left}%`, width: `${width}%` }}
+              />
+            </div>
+            <span className="col-span-1 text-right font-mono font-semibold">
+              {(factor.points ?? 0) >= 0 ? '+' : ''}{factor.points}
+            </span>
+          </div>
+        );
+      })}
+
+      {clamped && (
+        <div className="grid grid-cols-12 items-center gap-2 text-xs text-muted-foreground">
+          <p className="col-span-4">Clamped to 0–100</p>
+          <div className="col-span-7" />
+          <span className="col-span-1 text-right font-mono">{score - running}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-12 items-center gap-2 border-t pt-1.5 text-xs">
+        <p className="col-span-4 font-semibold">Final score</p>
+        <div className="relative col-span-7 h-3 rounded-sm bg-muted">
+          <div className="absolute inset-y-0 left-0 rounded-sm bg-primary" style={{ width: `${score}%` }} />
+        </div>
+        <span className="col-span-1 text-right font-mono font-bold">{score}</span>
+      </div>
+    </div>
+  );
+}
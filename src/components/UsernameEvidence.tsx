@@ -0,0 +1,36 @@
+import { Badge } from '@/components/ui/badge';
+import type { UsernameAnalysis, UsernameSignal } from '@/lib/scoring';
+
+const signalLabel: Record<UsernameSignal, string> = {
+  numbers_heavy: 'Numbers-heavy',
+  random_characters: 'Random characters',
+  very_short: 'Very short',
+  keyboard_walk: 'Keyboard walk',
+  bot_template: 'Bot template',
+};
+
+interface UsernameEvidenceProps {
+  analysis: UsernameAnalysis;
+}
+
+// The username flags computed by analyzeUsername, each with the reasons it fired.
+export function UsernameEvidence({ analysis }: UsernameEvidenceProps) {
+  const fired = (Object.keys(signalLabel) as UsernameSignal[]).filter((s) => analysis.flags[s]);
+
+  if (fired.length === 0) {
+    return <p className="text-xs text-muted-foreground">No suspicious username patterns detected.</p>;
+  }
+
+  return (
+    <ul className="space-y-1.5">
+      {fired.map((signal) => (
+        <li key={signal} className="flex flex-wrap items-start gap-2 text-xs">
+          <Badge variant="outline" className="border-risk-suspicious text-[10px] text-risk-suspicious">
+            {signalLabel[signal]}
+          </Badge>
+          <span className="text-muted-foreground">{analysis.evidence[signal]?.join(' · ')}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,219 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight, FlaskConical, Minus, Plus, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  analyzeProfile,
+  type EngagementMetric, type ProfileInput, type ProfileMetric, type RiskLabel, type ScoringConfig, type UsernameFlags,
+} from '@/lib/scoring';
+
+const SLIDER_STEPS = 1000;
+
+// Counts span several orders of magnitude, so those sliders move on a log scale
+const metricSliders: { name: ProfileMetric | EngagementMetric; label: string; max: number; log?: boolean; suffix?: string }[] = [
+  { name: 'account_age', label: 'Account age', max: 3650, suffix: ' days' },
+  { name: 'followers_count', label: 'Followers', max: 10_000_000, log: true },
+  { name: 'following_count', label: 'Following', max: 100_000, log: true },
+  { name: 'posts_count', label: 'Posts', max: 100_000, log: true },
+  { name: 'bio_length', label: 'Bio length', max: 300, suffix: ' chars' },
+  { name: 'avg_likes', label: 'Avg likes', max: 1_000_000, log: true },
+  { name: 'avg_comments', label: 'Avg comments', max: 100_000, log: true },
+  { name: 'avg_views', label: 'Avg views', max: 10_000_000, log: true },
+];
+
+const flagToggles: { name: keyof UsernameFlags; label: string }[] = [
+  { name: 'numbers_heavy', label: 'Numbers-heavy username' },
+  { name: 'no_profile_pic', label: 'No profile picture' },
+  { name: 'random_characters', label: 'Random characters' },
+  { name: 'very_short', label: 'Very short username' },
+  { name: 'keyboard_walk', label: 'Keyboard walk' },
+  { name: 'bot_template', label: 'Bot-template username' },
+];
+
+const labelText: Record<RiskLabel, string> = { real: 'REAL', suspicious: 'SUSPICIOUS', fake: 'FAKE' };
+const labelColor: Record<RiskLabel, string> = {
+  real: 'bg-risk-real text-risk-real-foreground',
+  suspicious: 'bg-risk-suspicious text-risk-suspicious-foreground',
+  fake: 'bg-risk-fake text-risk-fake-foreground',
+};
+
+function toSlider(value: number, max: number, log?: boolean) {
+  if (!log) return Math.round((Math.min(value, max) / max) * SLIDER_STEPS);
+  return Math.round((Math.log10(Math.min(value, max) + 1) / Math.log10(max + 1)) * SLIDER_STEPS);
+}
+
+function fromSlider(position: number, max: number, log?: boolean) {
+  if (!log) return Math.round((position / SLIDER_STEPS) * max);
+  return Math.round(10 ** ((position / SLIDER_STEPS) * Math.log10(max + 1)) - 1);
+}
+
+interface WhatIfPanelProps {
+  input: ProfileInput;
+  config: ScoringConfig;
+}
+
+// Re-scores an analysed profile in the browser with the same engine and rule
+// set as analyze-profile, so analysts can see which changes would flip the label.
+export function WhatIfPanel({ input, config }: WhatIfPanelProps) {
+  const [draft, setDraft] = useState<ProfileInput>(input);
+
+  const original = useMemo(() => analyzeProfile(input, config), [input, config]);
+  const simulated = useMemo(() => analyzeProfile(draft, config), [draft, config]);
+
+  const originalFactors = new Set(original.top_factors.map((f) => f.factor));
+  const simulatedFactors = new Set(simulated.top_factors.map((f) => f.factor));
+  const added = simulated.top_factors.filter((f) => !originalFactors.has(f.factor));
+  const dropped = original.top_factors.filter((f) => !simulatedFactors.has(f.factor));
+  const delta = simulated.risk_score - original.risk_score;
+  const { suspicious, fake } = config.thresholds;
+
+  const setMetric = (name: ProfileMetric | EngagementMetric, value: number | null) =>
+    setDraft((d) => ({ ...d, [name]: value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <FlaskConical className="h-4 w-4 text-primary" />
+            What-if Simulator
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Adjust the inputs to see what would change the verdict. Nothing is saved. Scoring with <span className="font-mono">{config.version}</span>.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setDraft(input)}>
+          <RotateCcw className="mr-1 h-3 w-3" />
+          Reset
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {/* Simulated verdict */}
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`rounded-full px-2.5 py-0.5 text-xs font-bold ${labelColor[original.label]}`}>{labelText[original.label]}</span>
+            <span className="font-mono">{original.risk_score}</span>
+            <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+            <span className={`rounded-full px-2.5 py-0.5 text-xs font-bold ${labelColor[simulated.label]}`}>{labelText[simulated.label]}</span>
+            <span className="font-mono font-semibold">{simulated.risk_score}</span>
+            {delta !== 0 && (
+              <span className={`font-mono text-xs ${delta > 0 ? 'text-risk-fake' : 'text-risk-real'}`}>
+                ({delta > 0 ? '+' : ''}{delta})
+              </span>
+            )}
+          </div>
+
+          {/* Label boundaries */}
+          <div className="relative h-4">
+            <div className="absolute inset-x-0 top-1 flex h-2 overflow-hidden rounded-full">
+              <div className="bg-risk-real/60" style={{ width: `${suspicious}%` }} />
+              <div className="bg-risk-suspicious/60" style={{ width: `${fake - suspicious}%` }} />
+              <div className="flex-1 bg-risk-fake/60" />
+            </div>
+            <div className="absolute top-0 h-4 w-0.5 bg-muted-foreground/60" style={{ left: `${original.risk_score}%` }} title={`Original: ${original.risk_score}`} />
+            <div className="absolute top-0 h-4 w-1 rounded-full bg-foreground transition-all" style={{ left: `${simulated.risk_score}%` }} title={`Simulated: ${simulated.risk_score}`} />
+          </div>
+          <div className="relative h-3 text-[10px] text-muted-foreground">
+            <span className="absolute left-0">0</span>
+            <span className="absolute -translate-x-1/2" style={{ left: `${suspicious}%` }}>{suspicious}</span>
+            <span className="absolute -translate-x-1/2" style={{ left: `${fake}%` }}>{fake}</span>
+            <span className="absolute right-0">100</span>
+          </div>
+        </div>
+
+        {/* Metric sliders */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          {metricSliders.map(({ name, label, max, log, suffix = '' }) => {
+            const value = draft[name] ?? null;
+            // The bio text fixes the bio length while it is included
+            const lockedByBio = name === 'bio_length' && typeof draft.bio === 'string';
+            return (
+              <div key={name} className="space-y-2">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium">{label}</span>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-mono ${value !== (input[name] ?? null) ? 'text-primary' : 'text-muted-foreground'}`}>
+                      {value === null ? 'Unknown' : `${value.toLocaleString()}${suffix}`}
+                    </span>
+                    <Switch
+                      disabled={lockedByBio}
+                      checked={value !== null}
+                      onCheckedChange={(known) => setMetric(name, known ? input[name] ?? 0 : null)}
+                      aria-label={`${label} known`}
+                    />
+                  </div>
+                </div>
+                <Slider
+                  min={0}
+                  max={SLIDER_STEPS}
+                  step={1}
+                  disabled={value === null || lockedByBio}
+                  value={[toSlider(value ?? 0, max, log)]}
+                  onValueChange={([position]) => setMetric(name, fromSlider(position, max, log))}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Flag toggles */}
+        <div className="grid grid-cols-2 gap-2">
+          {flagToggles.map(({ name, label }) => (
+            <label key={name} className="flex cursor-pointer items-center gap-2 text-xs">
+              <Switch
+                checked={!!draft.username_flags[name]}
+                onCheckedChange={(checked) =>
+                  setDraft((d) => ({ ...d, username_flags: { ...d.username_flags, [name]: checked } }))
+                }
+              />
+              {label}
+            </label>
+          ))}
+          {typeof input.bio === 'string' && (
+            <label className="flex cursor-pointer items-center gap-2 text-xs">
+              <Switch
+                checked={typeof draft.bio === 'string'}
+                onCheckedChange={(checked) => setDraft((d) => ({ ...d, bio: checked ? input.bio : null }))}
+              />
+              Include bio text
+            </label>
+          )}
+        </div>
+
+        {/* Factor diff */}
+        <div className="space-y-1.5">
+          <p className="text-xs font-semibold uppercase text-muted-foreground">Factors</p>
+          {simulated.top_factors.length === 0 && dropped.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No risk factors fire for these inputs.</p>
+          ) : (
+            <ul className="space-y-1 text-xs">
+              {simulated.top_factors.map((f) => {
+                const isNew = added.includes(f);
+                return (
+                  <li key={f.factor} className={`flex items-center justify-between rounded-md border px-2.5 py-1.5 ${isNew ? 'border-risk-fake/50 bg-risk-fake/5' : ''}`}>
+                    <span className="flex items-center gap-1.5">
+                      {isNew && <Plus className="h-3 w-3 text-risk-fake" />}
+                      {f.factor}
+                    </span>
+                    <span className="font-mono">+{f.points}</span>
+                  </li>
+                );
+              })}
+              {dropped.map((f) => (
+                <li key={f.factor} className="flex items-center justify-between rounded-md border border-risk-real/50 bg-risk-real/5 px-2.5 py-1.5 text-muted-foreground">
+                  <span className="flex items-center gap-1.5 line-through">
+                    <Minus className="h-3 w-3 text-risk-real" />
+                    {f.factor}
+                  </span>
+                  <span className="font-mono line-through">+{f.points}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
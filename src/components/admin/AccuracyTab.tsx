@@ -0,0 +1,176 @@
+import { useMemo } from 'react';
+import { Target } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import {
+  evaluate, evaluateByPlatform, GROUND_TRUTHS, labeledPredictions, RISK_LABELS,
+  type ClassMetrics,
+} from '@/lib/scoring';
+import type { AnalysisResult, GroundTruthLabel } from '@/types';
+import { ThresholdTuning } from '@/components/admin/ThresholdTuning';
+
+const labelText = {
+  real: 'text-risk-real',
+  suspicious: 'text-risk-suspicious',
+  fake: 'text-risk-fake',
+};
+
+function formatRatio(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function MetricCells({ metrics }: { metrics: ClassMetrics }) {
+  return (
+    <>
+      <TableCell className="font-mono text-xs">{formatRatio(metrics.precision)}</TableCell>
+      <TableCell className="font-mono text-xs">{formatRatio(metrics.recall)}</TableCell>
+      <TableCell className="font-mono text-xs font-semibold">{formatRatio(metrics.f1)}</TableCell>
+      <TableCell className="text-xs text-muted-foreground">{metrics.support}</TableCell>
+    </>
+  );
+}
+
+interface AccuracyTabProps {
+  results: AnalysisResult[];
+  labels: Map<string, GroundTruthLabel>;
+}
+
+// Precision, recall and F1 of the stored verdicts against analyst-confirmed
+// outcomes, overall and per platform, and the view for tuning the label
+// cutoffs against them.
+export function AccuracyTab({ results, labels }: AccuracyTabProps) {
+  const predictions = useMemo(() => labeledPredictions(results, labels), [results, labels]);
+  const overall = useMemo(() => evaluate(predictions), [predictions]);
+  const platforms = useMemo(() => evaluateByPlatform(predictions), [predictions]);
+
+  if (overall.total === 0) {
+    return (
+      <Card>
+        <CardContent className="py-10 text-center text-sm text-muted-foreground">
+          No confirmed outcomes yet. Open a profile in the Profiles tab and mark it as confirmed fake or confirmed real.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <Target className="h-4 w-4" />
+              Confusion Matrix
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {overall.total} confirmed of {results.length} analyses · {formatRatio(overall.accuracy)} exact agreement.
+              A suspicious verdict is never counted as correct.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="px-2 py-1.5 text-left font-medium">Confirmed ↓ / Model →</th>
+                  {RISK_LABELS.map((predicted) => (
+                    <th key={predicted} className={`px-2 py-1.5 text-right font-semibold capitalize ${labelText[predicted]}`}>{predicted}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {GROUND_TRUTHS.map((truth) => (
+                  <tr key={truth} className="border-t">
+                    <td className={`px-2 py-1.5 font-semibold capitalize ${labelText[truth]}`}>{truth}</td>
+                    {RISK_LABELS.map((predicted) => (
+                      <td
+                        key={predicted}
+                        className={`px-2 py-1.5 text-right font-mono ${truth === predicted ? 'bg-risk-real/10 font-semibold' : ''}`}
+                      >
+                        {overall.confusion[truth][predicted]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Per-Label Metrics</CardTitle>
+            <CardDescription className="text-xs">
+              "Flagged" counts a fake or suspicious verdict as catching a confirmed fake.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-6 text-xs">Label</TableHead>
+                  <TableHead className="text-xs">Precision</TableHead>
+                  <TableHead className="text-xs">Recall</TableHead>
+                  <TableHead className="text-xs">F1</TableHead>
+                  <TableHead className="text-xs">Confirmed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {GROUND_TRUTHS.map((truth) => (
+                  <TableRow key={truth}>
+                    <TableCell className={`pl-6 text-sm font-medium capitalize ${labelText[truth]}`}>{truth}</TableCell>
+                    <MetricCells metrics={overall.labels[truth]} />
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="pl-6 text-sm font-medium text-risk-suspicious">Flagged</TableCell>
+                  <MetricCells metrics={overall.flagged} />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">By Platform</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="pl-6 text-xs">Platform</TableHead>
+                <TableHead className="text-xs">Confirmed</TableHead>
+                <TableHead className="text-xs">Agreement</TableHead>
+                <TableHead className="text-xs">Fake precision</TableHead>
+                <TableHead className="text-xs">Fake recall</TableHead>
+                <TableHead className="text-xs">Fake F1</TableHead>
+                <TableHead className="text-xs">Real F1</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {platforms.map(({ platform, report }) => (
+                <TableRow key={platform}>
+                  <TableCell className="pl-6 text-sm font-medium">{platform}</TableCell>
+                  <TableCell className="text-xs">
+                    {report.total}
+                    <span className="ml-1.5 text-muted-foreground">({report.labels.fake.support} fake / {report.labels.real.support} real)</span>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{formatRatio(report.accuracy)}</TableCell>
+                  <TableCell className="font-mono text-xs">{formatRatio(report.labels.fake.precision)}</TableCell>
+                  <TableCell className="font-mono text-xs">{formatRatio(report.labels.fake.recall)}</TableCell>
+                  <TableCell className="font-mono text-xs font-semibold">{formatRatio(report.labels.fake.f1)}</TableCell>
+                  <TableCell className="font-mono text-xs font-semibold">{formatRatio(report.labels.real.f1)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ThresholdTuning results={results} labels={labels} />
+    </div>
+  );
+}
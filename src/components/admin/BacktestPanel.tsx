@@ -0,0 +1,202 @@
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Bar, BarChart, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FlaskConical, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  backtest, RISK_LABELS, STORED_ANALYSIS_COLUMNS,
+  type RiskLabel, type ScoringConfig, type StoredAnalysis,
+} from '@/lib/scoring';
+import { toast } from 'sonner';
+
+// Re-scoring runs in the browser; bound it like the clustering job
+const MAX_BACKTEST_ROWS = 5000;
+const SAMPLE_SIZE = 25;
+
+const labelText: Record<RiskLabel, string> = {
+  real: 'text-risk-real',
+  suspicious: 'text-risk-suspicious',
+  fake: 'text-risk-fake',
+};
+
+interface BacktestPanelProps {
+  candidate: ScoringConfig;
+  current: ScoringConfig;
+  disabled?: boolean;
+}
+
+// Replays stored analyses through the draft and the live rule set and shows
+// what the draft would change. Read-only: nothing is saved.
+export function BacktestPanel({ candidate, current, disabled }: BacktestPanelProps) {
+  const run = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from('analysis_results')
+        .select(STORED_ANALYSIS_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(MAX_BACKTEST_ROWS);
+      if (error) throw error;
+      return backtest(data as unknown as StoredAnalysis[], candidate, current);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Backtest failed'),
+  });
+
+  const report = run.data;
+  const shift = report ? Math.round((report.mean_after - report.mean_before) * 10) / 10 : 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <FlaskConical className="h-4 w-4" />
+            Backtest Draft
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Re-scores up to {MAX_BACKTEST_ROWS.toLocaleString()} stored analyses with the draft above and with the live
+            rules (<span className="font-mono">{current.version}</span>) and compares the two. Nothing is written.
+          </CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => run.mutate()} disabled={disabled || run.isPending}>
+          {run.isPending ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <FlaskConical className="mr-1.5 h-3.5 w-3.5" />}
+          Run backtest
+        </Button>
+      </CardHeader>
+
+      {report && (
+        <CardContent className="space-y-5">
+          {report.total === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No stored analyses to replay yet.</p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Profiles re-scored</p>
+                  <p className="mt-1 text-xl font-bold">{report.total.toLocaleString()}</p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Label changes</p>
+                  <p className="mt-1 text-xl font-bold">
+                    {report.label_changes.toLocaleString()}
+                    <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                      ({Math.round((report.label_changes / report.total) * 1000) / 10}%)
+                    </span>
+                  </p>
+                </div>
+                <div className="rounded-md border p-3">
+                  <p className="text-xs text-muted-foreground">Mean risk score</p>
+                  <p className="mt-1 text-xl font-bold">
+                    {report.mean_before} → {report.mean_after}
+                    <span className={`ml-1.5 text-xs font-normal ${shift > 0 ? 'text-risk-fake' : shift < 0 ? 'text-risk-real' : 'text-muted-foreground'}`}>
+                      ({shift > 0 ? '+' : ''}{shift})
+                    </span>
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid gap-5 lg:grid-cols-2">
+                {/* Label transitions: rows are the live label, columns the draft's */}
+                <div>
+                  <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Label Transitions</p>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="px-2 py-1.5 text-left font-medium">Live ↓ / Draft →</th>
+                        {RISK_LABELS.map((to) => (
+                          <th key={to} className={`px-2 py-1.5 text-right font-semibold capitalize ${labelText[to]}`}>{to}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {RISK_LABELS.map((from) => (
+                        <tr key={from} className="border-t">
+                          <td className={`px-2 py-1.5 font-semibold capitalize ${labelText[from]}`}>{from}</td>
+                          {RISK_LABELS.map((to) => {
+                            const count = report.transitions[from][to];
+                            const moved = from !== to && count > 0;
+                            return (
+                              <td
+                                key={to}
+                                className={`px-2 py-1.5 text-right font-mono ${moved ? 'bg-risk-suspicious/10 font-semibold' : from === to ? 'text-muted-foreground' : ''}`}
+                              >
+                                {count}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div>
+                  <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Score Distribution</p>
+                  <ResponsiveContainer width="100%" height={160}>
+                    <BarChart data={report.distribution} barGap={1}>
+                      <XAxis dataKey="range" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={30} />
+                      <Tooltip contentStyle={{ fontSize: 12, borderRadius: 8, border: '1px solid hsl(var(--border))', background: 'hsl(var(--card))' }} cursor={{ fill: 'hsl(var(--muted))' }} />
+                      <Legend iconType="circle" iconSize={8} wrapperStyle={{ fontSize: 11 }} />
+                      <Bar dataKey="before" name="Live" fill="hsl(var(--muted-foreground))" radius={[3, 3, 0, 0]} />
+                      <Bar dataKey="after" name="Draft" fill="hsl(var(--primary))" radius={[3, 3, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div>
+                <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">
+                  Changed Profiles · {report.changes.length.toLocaleString()} with a different score
+                  {report.changes.length > SAMPLE_SIZE && <>, largest {SAMPLE_SIZE} shown</>}
+                </p>
+                {report.changes.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">The draft scores every stored analysis exactly like the live rules.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">Username</TableHead>
+                        <TableHead className="text-xs">Score</TableHead>
+                        <TableHead className="text-xs">Label</TableHead>
+                        <TableHead className="text-xs">Factors</TableHead>
+                        <TableHead className="text-xs">Scanned</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.changes.slice(0, SAMPLE_SIZE).map((c) => (
+                        <TableRow key={c.id}>
+                          <TableCell className="text-sm font-medium">
+                            @{c.username}
+                            {c.platform !== 'Unknown' && <span className="ml-1.5 text-xs font-normal text-muted-foreground">{c.platform}</span>}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{c.score_before} → {c.score_after}</TableCell>
+                          <TableCell className="text-xs capitalize">
+                            <span className={labelText[c.label_before]}>{c.label_before}</span>
+                            {c.label_after !== c.label_before && <> → <span className={`font-semibold ${labelText[c.label_after]}`}>{c.label_after}</span></>}
+                          </TableCell>
+                          <TableCell className="max-w-[280px] text-xs">
+                            {c.factors_added.map((f) => <span key={`+${f}`} className="mr-2 text-risk-fake">+ {f}</span>)}
+                            {c.factors_removed.map((f) => <span key={`-${f}`} className="mr-2 text-risk-real">− {f}</span>)}
+                            {c.factors_added.length === 0 && c.factors_removed.length === 0 && (
+                              <span className="text-muted-foreground">Weights changed</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{format(new Date(c.created_at), 'MMM d, yyyy')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
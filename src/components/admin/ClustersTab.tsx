@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronUp, Loader2, Network, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { formatMetric } from '@/lib/utils';
+import type { AccountCluster } from '@/lib/scoring';
+import { toast } from 'sonner';
+
+type StoredCluster = AccountCluster & { id: string; created_at: string };
+
+export function ClustersTab() {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: clusters = [], isLoading } = useQuery({
+    queryKey: ['account-clusters'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('account_clusters')
+        .select('*')
+        .order('size', { ascending: false });
+      if (error) throw error;
+      return data as unknown as StoredCluster[];
+    },
+  });
+
+  const rebuild = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+      const res = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/cluster-analyses`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Clustering failed');
+      return data as { analyses_scanned: number; clusters: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['account-clusters'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      toast.success(`Found ${data.clusters} cluster${data.clusters === 1 ? '' : 's'} in ${data.analyses_scanned} analyses`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Clustering failed'),
+  });
+
+  const lastRun = clusters[0]?.created_at;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <Network className="h-4 w-4" />
+            Account Clusters
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Groups of scanned accounts sharing a username template, creation week or near-identical counts.
+            New analyses that fit a cluster get a "Part of an account cluster" factor.
+            {lastRun && <> Last rebuilt {format(new Date(lastRun), 'MMM d, yyyy HH:mm')}.</>}
+          </CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => rebuild.mutate()} disabled={rebuild.isPending}>
+          {rebuild.isPending ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="mr-1.5 h-3.5 w-3.5" />}
+          Rebuild clusters
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : clusters.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No clusters found. Rebuild after more profiles have been analysed.</p>
+        ) : (
+          clusters.map((cluster) => {
+            const isExpanded = expanded === cluster.id;
+            return (
+              <div key={cluster.id} className="rounded-md border">
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between gap-3 px-3 py-2.5 text-left hover:bg-muted/40"
+                  onClick={() => setExpanded(isExpanded ? null : cluster.id)}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-semibold">{cluster.size} accounts</span>
+                      <Badge variant="outline" className="text-xs">{cluster.platform}</Badge>
+                      {cluster.username_template && (
+                        <span className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs">{cluster.username_template}</span>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      Shared {cluster.signature}
+                      {cluster.created_from && <> · created {cluster.created_from === cluster.created_to ? cluster.created_from : `${cluster.created_from} – ${cluster.created_to}`}</>}
+                    </p>
+                  </div>
+                  {isExpanded ? <ChevronUp className="h-4 w-4 flex-shrink-0 text-muted-foreground" /> : <ChevronDown className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+                </button>
+                {isExpanded && (
+                  <div className="border-t">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs">Username</TableHead>
+                          <TableHead className="text-right text-xs">Followers</TableHead>
+                          <TableHead className="text-right text-xs">Following</TableHead>
+                          <TableHead className="text-right text-xs">Posts</TableHead>
+                          <TableHead className="text-xs">Created (est.)</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cluster.members.map((m) => (
+                          <TableRow key={m.analysis_id}>
+                            <TableCell className="text-sm font-medium">@{m.username}</TableCell>
+                            <TableCell className="text-right font-mono text-xs">{formatMetric(m.followers_count)}</TableCell>
+                            <TableCell className="text-right font-mono text-xs">{formatMetric(m.following_count)}</TableCell>
+                            <TableCell className="text-right font-mono text-xs">{formatMetric(m.posts_count)}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{m.created_on ?? 'Unknown'}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CheckCircle, Loader2, Undo2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { GroundTruth, GroundTruthLabel } from '@/types';
+import { toast } from 'sonner';
+
+interface GroundTruthControlsProps {
+  analysisId: string;
+  current?: GroundTruthLabel;
+}
+
+// Lets an analyst confirm what an analysed account really was. Setting a new
+// verdict replaces the old one; the audit trigger keeps the history.
+export function GroundTruthControls({ analysisId, current }: GroundTruthControlsProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['ground-truth'] });
+    queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+    toast.success(message);
+  };
+
+  const confirm = useMutation({
+    mutationFn: async (label: GroundTruth) => {
+      const { error } = await supabase.from('ground_truth_labels').upsert({
+        analysis_id: analysisId,
+        label,
+        reviewed_by: user!.id,
+        reviewed_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+      return label;
+    },
+    onSuccess: (label) => onSuccess(`Confirmed as ${label}`),
+    onError: () => toast.error('Failed to save the verdict'),
+  });
+
+  const clear = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('ground_truth_labels').delete().eq('analysis_id', analysisId);
+      if (error) throw error;
+    },
+    onSuccess: () => onSuccess('Verdict cleared'),
+    onError: () => toast.error('Failed to clear the verdict'),
+  });
+
+  const busy = confirm.isPending || clear.isPending;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <p className="text-xs font-semibold uppercase text-muted-foreground">Ground Truth</p>
+      {(['fake', 'real'] as GroundTruth[]).map((label) => {
+        const Icon = label === 'fake' ? XCircle : CheckCircle;
+        const selected = current?.label === label;
+        return (
+          <Button
+            key={label}
+            size="sm"
+            variant={selected ? 'secondary' : 'outline'}
+            className={`h-7 text-xs ${selected ? (label === 'fake' ? 'text-risk-fake' : 'text-risk-real') : ''}`}
+            disabled={busy || selected}
+            onClick={() => confirm.mutate(label)}
+          >
+            <Icon className="mr-1 h-3 w-3" />
+            Confirmed {label}
+          </Button>
+        );
+      })}
+      {current && (
+        <>
+          <span className="text-xs text-muted-foreground">
+            by <span className="font-mono">{current.reviewed_by ? `${current.reviewed_by.slice(0, 8)}…` : 'unknown'}</span>
+            {' · '}{format(new Date(current.reviewed_at), 'MMM d, yyyy HH:mm')}
+          </span>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" disabled={busy} onClick={() => clear.mutate()}>
+            <Undo2 className="mr-1 h-3 w-3" />
+            Clear
+          </Button>
+        </>
+      )}
+      {busy && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { BrainCircuit, CheckCircle, ChevronDown, ChevronUp, Loader2, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { MIN_SAMPLES_PER_CLASS, RULE_METRICS, type LogisticModel, type TrainingReport } from '@/lib/scoring';
+import { toast } from 'sonner';
+
+interface StoredModel {
+  id: string;
+  version: string;
+  model: LogisticModel;
+  report: TrainingReport;
+  is_active: boolean;
+  is_shadow: boolean;
+  created_at: string;
+}
+
+const metricLabel = (metric: string) => RULE_METRICS.find((m) => m.value === metric)?.label ?? metric;
+
+// Learned scorers trained on confirmed outcomes, and the switch between them
+// and the rule-based score
+export function ModelsTab() {
+  const queryClient = useQueryClient();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: models = [], isLoading } = useQuery({
+    queryKey: ['scoring-models'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('scoring_models')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as StoredModel[];
+    },
+  });
+
+  const train = useMutation({
+    mutationFn: async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+      const res = await fetch(
+        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/train-model`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+        }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Training failed');
+      return data as { version: string; report: TrainingReport };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['scoring-models'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      setExpanded(null);
+      toast.success(`Trained ${data.version} on ${data.report.samples} confirmed analyses`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Training failed'),
+  });
+
+  const activate = useMutation({
+    mutationFn: async (id: string | null) => {
+      const { error } = await supabase.rpc('activate_scoring_model', { _id: id });
+      if (error) throw error;
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ['scoring-models'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      toast.success(id ? 'Learned model is now the active scorer' : 'Rule-based scoring is now active');
+    },
+    onError: () => toast.error('Failed to change the active scorer'),
+  });
+
+  const active = models.find((m) => m.is_active);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <BrainCircuit className="h-4 w-4" />
+            Learned Models
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Logistic regression over the rule metrics, fitted to confirmed fake/real outcomes
+            (at least {MIN_SAMPLES_PER_CLASS} of each). Every analysis stores both the rule-based and the learned score;
+            the active scorer decides the verdict.{' '}
+            {active
+              ? <>Active scorer: <span className="font-mono">{active.version}</span>.</>
+              : <>Active scorer: rules. New analyses are also scored with the newest model for comparison.</>}
+          </CardDescription>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          {active && (
+            <Button size="sm" variant="ghost" onClick={() => activate.mutate(null)} disabled={activate.isPending}>
+              Use rules
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => train.mutate()} disabled={train.isPending}>
+            {train.isPending ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Play className="mr-1.5 h-3.5 w-3.5" />}
+            Train model
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="pl-6">Version</TableHead>
+              <TableHead>Samples</TableHead>
+              <TableHead>Train AUC</TableHead>
+              <TableHead>Validation AUC</TableHead>
+              <TableHead>Trained</TableHead>
+              <TableHead className="w-[120px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center">
+                  <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" />
+                </TableCell>
+              </TableRow>
+            ) : models.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center text-sm text-muted-foreground">
+                  No models trained yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              models.map((m) => (
+                <>
+                  <TableRow
+                    key={m.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => setExpanded(expanded === m.id ? null : m.id)}
+                  >
+                    <TableCell className="pl-6 font-mono text-sm">
+                      {expanded === m.id ? <ChevronUp className="mr-1 inline h-3 w-3" /> : <ChevronDown className="mr-1 inline h-3 w-3" />}
+                      {m.version}
+                      {m.is_active && <Badge variant="secondary" className="ml-2 text-[10px]">Active</Badge>}
+                      {m.is_shadow && <Badge variant="outline" className="ml-2 text-[10px]">Shadow</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {m.report.samples}
+                      <span className="ml-1.5 text-muted-foreground">({m.report.fakes} fake / {m.report.reals} real)</span>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{m.report.train_auc}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {m.report.validation_auc ?? '—'}
+                      <span className="ml-1.5 text-muted-foreground">({m.report.validation_samples} held out)</span>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{format(new Date(m.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      {!m.is_active && (
+                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => activate.mutate(m.id)} disabled={activate.isPending}>
+                          <CheckCircle className="mr-1 h-3 w-3" />
+                          Activate
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+
+                  {expanded === m.id && (
+                    <TableRow key={`${m.id}-coefficients`} className="bg-muted/30">
+                      <TableCell colSpan={6} className="pl-6 py-4">
+                        <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">
+                          Coefficients · per standard deviation, positive pushes towards fake
+                        </p>
+                        <div className="grid gap-x-6 gap-y-1 sm:grid-cols-2 lg:grid-cols-3">
+                          {[...m.model.features]
+                            .sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient))
+                            .map((f) => (
+                              <div key={f.metric} className="flex items-center justify-between gap-2 text-xs">
+                                <span>
+                                  {metricLabel(f.metric)}
+                                  {f.transform !== 'linear' && <span className="ml-1 text-muted-foreground">({f.transform})</span>}
+                                </span>
+                                <span className={`font-mono ${f.coefficient > 0 ? 'text-risk-fake' : f.coefficient < 0 ? 'text-risk-real' : 'text-muted-foreground'}`}>
+                                  {f.coefficient > 0 ? '+' : ''}{f.coefficient.toFixed(3)}
+                                </span>
+                              </div>
+                            ))}
+                        </div>
+                        <p className="mt-2 text-xs text-muted-foreground">Intercept {m.model.intercept.toFixed(3)}</p>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
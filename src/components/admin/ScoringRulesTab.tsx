@@ -0,0 +1,430 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle, Loader2, Plus, RotateCcw, Save, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  nextRuleSetVersion, useActiveScoringConfig, usePublishScoringConfig, useRevertToDefaultRules,
+} from '@/hooks/use-scoring-config';
+import { BacktestPanel } from '@/components/admin/BacktestPanel';
+import {
+  BASELINE_METRICS, DEFAULT_SCORING_CONFIG, missingDefaultRules, MODEL_VERSION, RULE_METRICS, RULE_OPERATORS, validateScoringConfig,
+  type BaselineMetric, type Impact, type LabelThresholds, type RuleCondition, type ScoringConfig, type ScoringRule,
+} from '@/lib/scoring';
+import { toast } from 'sonner';
+
+interface ScoringRuleSet {
+  id: string;
+  version: string;
+  rules: ScoringRule[];
+  thresholds: LabelThresholds;
+  notes: string | null;
+  engine_version: string | null;
+  is_active: boolean;
+  is_shadow: boolean;
+  created_at: string;
+}
+
+function cloneRule(rule: ScoringRule): ScoringRule {
+  return { ...rule, conditions: rule.conditions.map((c) => ({ ...c })) };
+}
+
+function cloneConfig(config: Pick<ScoringConfig, 'rules' | 'thresholds'>) {
+  return {
+    rules: config.rules.map(cloneRule),
+    thresholds: { ...config.thresholds },
+  };
+}
+
+export function ScoringRulesTab() {
+  const queryClient = useQueryClient();
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [thresholds, setThresholds] = useState<LabelThresholds>(DEFAULT_SCORING_CONFIG.thresholds);
+  const [notes, setNotes] = useState('');
+  const [loadedFrom, setLoadedFrom] = useState<string | null>(null);
+  const { data: liveConfig = DEFAULT_SCORING_CONFIG } = useActiveScoringConfig();
+
+  const { data: ruleSets = [], isLoading } = useQuery({
+    queryKey: ['scoring-rules'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('scoring_rules')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as unknown as ScoringRuleSet[];
+    },
+  });
+
+  const active = ruleSets.find((r) => r.is_active);
+
+  const loadDraft = useCallback((source: Pick<ScoringConfig, 'rules' | 'thresholds' | 'version'>) => {
+    const copy = cloneConfig(source);
+    setRules(copy.rules);
+    setThresholds(copy.thresholds);
+    setLoadedFrom(source.version);
+  }, []);
+
+  // Start editing from whatever is live once the rule sets have loaded
+  useEffect(() => {
+    if (isLoading || loadedFrom) return;
+    loadDraft(active ?? DEFAULT_SCORING_CONFIG);
+  }, [isLoading, active, loadedFrom, loadDraft]);
+
+  const activate = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('activate_scoring_rules', { _id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scoring-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      toast.success('Rule set activated');
+    },
+    onError: () => toast.error('Failed to activate rule set'),
+  });
+
+  const publish = usePublishScoringConfig();
+  const revert = useRevertToDefaultRules();
+
+  const updateRule = (index: number, patch: Partial<ScoringRule>) =>
+    setRules((rs) => rs.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const updateCondition = (ruleIndex: number, condIndex: number, patch: Partial<RuleCondition>) =>
+    setRules((rs) => rs.map((r, i) => i !== ruleIndex ? r : {
+      ...r,
+      conditions: r.conditions.map((c, j) => (j === condIndex ? { ...c, ...patch } : c)),
+    }));
+
+  const addRule = () =>
+    setRules((rs) => [...rs, {
+      id: `custom_${Date.now()}`,
+      factor: 'New rule',
+      description: '',
+      impact: 'low',
+      weight: 5,
+      enabled: true,
+      conditions: [{ metric: 'account_age', op: '<', value: 0 }],
+    }]);
+
+  const problems = validateScoringConfig({ version: 'draft', rules, thresholds });
+  const missingRules = missingDefaultRules(rules);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 pb-3">
+          <div>
+            <CardTitle className="text-sm">Rule Editor</CardTitle>
+            <CardDescription className="text-xs">
+              Editing a copy of <span className="font-mono">{loadedFrom}</span>. Publishing creates a new version and makes it active for all new analyses.
+              Conditions compared against a platform value use that platform's baseline, or the generic one for unknown platforms.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => loadDraft(DEFAULT_SCORING_CONFIG)}>
+            <RotateCcw className="mr-1 h-3 w-3" />
+            Load defaults
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {/* Label thresholds */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="threshold-suspicious">Suspicious at score ≥</Label>
+              <Input
+                id="threshold-suspicious"
+                type="number"
+                value={thresholds.suspicious}
+                onChange={(e) => setThresholds((t) => ({ ...t, suspicious: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="threshold-fake">Fake at score ≥</Label>
+              <Input
+                id="threshold-fake"
+                type="number"
+                value={thresholds.fake}
+                onChange={(e) => setThresholds((t) => ({ ...t, fake: Number(e.target.value) }))}
+              />
+            </div>
+          </div>
+
+          {/* Rules */}
+          <div className="space-y-3">
+            {rules.map((rule, i) => (
+              <div key={rule.id} className={`rounded-md border p-3 space-y-3 ${rule.enabled ? 'bg-card' : 'bg-muted/40 opacity-70'}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateRule(i, { enabled })} />
+                  <Input
+                    className="h-8 flex-1 min-w-[180px] text-sm font-medium"
+                    value={rule.factor}
+                    onChange={(e) => updateRule(i, { factor: e.target.value })}
+                  />
+                  <Select value={rule.impact} onValueChange={(impact) => updateRule(i, { impact: impact as Impact })}>
+                    <SelectTrigger className="h-8 w-[100px] text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {(['high', 'medium', 'low'] as const).map((impact) => (
+                        <SelectItem key={impact} value={impact} className="text-xs capitalize">{impact}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground">+</span>
+                    <Input
+                      type="number"
+                      className="h-8 w-[70px] text-sm"
+                      value={rule.weight}
+                      onChange={(e) => updateRule(i, { weight: Number(e.target.value) })}
+                    />
+                  </div>
+                  {rule.group && <Badge variant="outline" className="font-mono text-xs">{rule.group}</Badge>}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground"
+                    onClick={() => setRules((rs) => rs.filter((_, j) => j !== i))}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+
+                <Input
+                  className="h-8 text-xs"
+                  placeholder="Description — use {account_age}, {followers_count}… to insert values"
+                  value={rule.description}
+                  onChange={(e) => updateRule(i, { description: e.target.value })}
+                />
+
+                <div className="space-y-2">
+                  {rule.conditions.map((cond, j) => (
+                    <div key={j} className="flex flex-wrap items-center gap-2">
+                      <span className="w-8 text-xs text-muted-foreground">{j === 0 ? 'when' : 'and'}</span>
+                      <Select value={cond.metric} onValueChange={(metric) => updateCondition(i, j, { metric: metric as RuleCondition['metric'] })}>
+                        <SelectTrigger className="h-8 w-[220px] text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {RULE_METRICS.map((m) => (
+                            <SelectItem key={m.value} value={m.value} className="text-xs">{m.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={cond.op} onValueChange={(op) => updateCondition(i, j, { op: op as RuleCondition['op'] })}>
+                        <SelectTrigger className="h-8 w-[70px] text-xs font-mono"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {RULE_OPERATORS.map((op) => (
+                            <SelectItem key={op} value={op} className="text-xs font-mono">{op}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={cond.baseline ?? 'fixed'}
+                        onValueChange={(v) => updateCondition(i, j, { baseline: v === 'fixed' ? undefined : v as BaselineMetric })}
+                      >
+                        <SelectTrigger className="h-8 w-[190px] text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="fixed" className="text-xs">Fixed value</SelectItem>
+                          {BASELINE_METRICS.map((m) => (
+                            <SelectItem key={m.value} value={m.value} className="text-xs">Platform: {m.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!cond.baseline && (
+                        <Input
+                          type="number"
+                          step="any"
+                          className="h-8 w-[100px] text-sm"
+                          value={cond.value}
+                          onChange={(e) => updateCondition(i, j, { value: Number(e.target.value) })}
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 px-2 text-xs text-muted-foreground"
+                        disabled={rule.conditions.length === 1}
+                        onClick={() => updateRule(i, { conditions: rule.conditions.filter((_, k) => k !== j) })}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => updateRule(i, { conditions: [...rule.conditions, { metric: 'account_age', op: '>', value: 0 }] })}
+                  >
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add condition
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" size="sm" className="text-xs" onClick={addRule}>
+              <Plus className="mr-1 h-3 w-3" />
+              Add rule
+            </Button>
+          </div>
+
+          {missingRules.length > 0 && (
+            <div className="flex flex-col gap-2 rounded-md border border-risk-suspicious/40 bg-risk-suspicious/5 p-3 text-xs sm:flex-row sm:items-start sm:justify-between">
+              <div className="flex gap-2">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-risk-suspicious" />
+                <p>
+                  This draft is missing {missingRules.length} built-in {missingRules.length === 1 ? 'rule' : 'rules'} from
+                  engine <span className="font-mono">{MODEL_VERSION}</span>, which will not fire under it:{' '}
+                  {missingRules.map((r) => r.factor).join(', ')}.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 shrink-0 text-xs"
+                onClick={() => setRules((rs) => [...rs, ...missingDefaultRules(rs).map(cloneRule)])}
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add missing rules
+              </Button>
+            </div>
+          )}
+
+          {problems.length > 0 && (
+            <ul className="space-y-1 rounded-md border border-destructive/40 bg-destructive/5 p-3 text-xs text-destructive">
+              {problems.map((p) => <li key={p}>{p}</li>)}
+            </ul>
+          )}
+
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              placeholder="Change notes (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <Button onClick={() => publish.mutate({ rules, thresholds, notes }, {
+              onSuccess: (version) => {
+                setNotes('');
+                setLoadedFrom(version);
+              },
+            })} disabled={publish.isPending || problems.length > 0}>
+              {publish.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Publish {nextRuleSetVersion(ruleSets.map((r) => r.version))}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <BacktestPanel
+        candidate={{ version: 'draft', rules, thresholds }}
+        current={liveConfig}
+        disabled={problems.length > 0}
+      />
+
+      {/* Version history */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-sm">Rule Set Versions</CardTitle>
+            <CardDescription className="text-xs">
+              {active ? <>Active: <span className="font-mono">{active.version}</span></> : <>No rule set active — the built-in <span className="font-mono">{DEFAULT_SCORING_CONFIG.version}</span> rules are in use.</>}
+            </CardDescription>
+          </div>
+          {active && (
+            <Button variant="outline" size="sm" className="h-7 text-xs" disabled={revert.isPending} onClick={() => revert.mutate()}>
+              {revert.isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Undo2 className="mr-1 h-3 w-3" />}
+              Revert to built-in defaults
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="pl-6">Version</TableHead>
+                <TableHead>Engine</TableHead>
+                <TableHead>Thresholds</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ruleSets.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-8 text-center text-sm text-muted-foreground">
+                    No rule sets published yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                ruleSets.map((set) => {
+                  const missing = missingDefaultRules(set.rules).length;
+                  return (
+                    <TableRow key={set.id}>
+                      <TableCell className="pl-6 font-mono text-xs">
+                        {set.version}
+                        {set.is_shadow && <Badge variant="outline" className="ml-2 text-[10px]">Shadow</Badge>}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <span className="font-mono">{set.engine_version ?? 'unknown'}</span>
+                        {missing > 0 && (
+                          <Badge variant="outline" className="ml-2 border-risk-suspicious text-[10px] text-risk-suspicious">
+                            {missing} {missing === 1 ? 'rule' : 'rules'} missing
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {set.thresholds.suspicious} / {set.thresholds.fake}
+                      </TableCell>
+                      <TableCell className="max-w-[240px] truncate text-xs text-muted-foreground">{set.notes ?? '—'}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{format(new Date(set.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell className="pr-6 text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => loadDraft(set)}>
+                            Edit copy
+                          </Button>
+                          {set.is_active ? (
+                            <span className="inline-flex items-center gap-1 px-2 text-xs font-medium text-risk-real">
+                              <CheckCircle className="h-3 w-3" />
+                              Active
+                            </span>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                              disabled={activate.isPending}
+                              onClick={() => activate.mutate(set.id)}
+                            >
+                              Activate
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
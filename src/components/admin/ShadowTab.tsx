@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Eye, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  isDisagreement, RISK_LABELS, summarizeShadow,
+  type RiskLabel, type ShadowKind, type ShadowScore,
+} from '@/lib/scoring';
+import { toast } from 'sonner';
+
+// Enough history for the agreement chart without paging
+const MAX_SHADOW_ROWS = 5000;
+const DISAGREEMENT_ROWS = 50;
+const NO_SHADOW = 'none';
+
+const labelText: Record<RiskLabel, string> = {
+  real: 'text-risk-real',
+  suspicious: 'text-risk-suspicious',
+  fake: 'text-risk-fake',
+};
+
+interface ShadowCandidate {
+  kind: ShadowKind;
+  id: string;
+  version: string;
+  is_active: boolean;
+  is_shadow: boolean;
+}
+
+type StoredShadowScore = ShadowScore & { analysis: { username: string; platform: string } | null };
+
+const candidateKey = (c: Pick<ShadowCandidate, 'kind' | 'id'>) => `${c.kind}:${c.id}`;
+
+// Runs a candidate rule set or model next to production and reports where
+// their verdicts differ
+export function ShadowTab() {
+  const queryClient = useQueryClient();
+  const [version, setVersion] = useState<string | null>(null);
+
+  const { data: candidates = [] } = useQuery({
+    queryKey: ['shadow-candidates'],
+    queryFn: async (): Promise<ShadowCandidate[]> => {
+      const [rules, models] = await Promise.all([
+        supabase.from('scoring_rules').select('id, version, is_active, is_shadow').order('created_at', { ascending: false }),
+        supabase.from('scoring_models').select('id, version, is_active, is_shadow').order('created_at', { ascending: false }),
+      ]);
+      if (rules.error) throw rules.error;
+      if (models.error) throw models.error;
+      return [
+        ...rules.data.map((r) => ({ ...r, kind: 'rules' as const })),
+        ...models.data.map((m) => ({ ...m, kind: 'model' as const })),
+      ];
+    },
+  });
+
+  const { data: scores = [], isLoading } = useQuery({
+    queryKey: ['shadow-scores'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('shadow_scores')
+        .select('*, analysis:analysis_results(username, platform)')
+        .order('created_at', { ascending: false })
+        .limit(MAX_SHADOW_ROWS);
+      if (error) throw error;
+      return data as unknown as StoredShadowScore[];
+    },
+  });
+
+  const designate = useMutation({
+    mutationFn: async (key: string) => {
+      const candidate = candidates.find((c) => candidateKey(c) === key);
+      const { error } = await supabase.rpc('set_shadow_scorer', {
+        _kind: candidate?.kind ?? null,
+        _id: candidate?.id ?? null,
+      });
+      if (error) throw error;
+      return candidate;
+    },
+    onSuccess: (candidate) => {
+      queryClient.invalidateQueries({ queryKey: ['shadow-candidates'] });
+      queryClient.invalidateQueries({ queryKey: ['scoring-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['scoring-models'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      if (candidate) setVersion(candidate.version);
+      toast.success(candidate ? `Shadow scoring with ${candidate.version}` : 'Shadow scoring stopped');
+    },
+    onError: () => toast.error('Failed to change the shadow scorer'),
+  });
+
+  const current = candidates.find((c) => c.is_shadow);
+  const versions = useMemo(() => [...new Set(scores.map((s) => s.shadow_version))], [scores]);
+  const selected = version ?? current?.version ?? versions[0] ?? null;
+  const rows = useMemo(() => scores.filter((s) => s.shadow_version === selected), [scores, selected]);
+  const summary = useMemo(() => summarizeShadow(rows), [rows]);
+  const disagreements = rows.filter(isDisagreement);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm">
+              <Eye className="h-4 w-4" />
+              Shadow Scoring
+            </CardTitle>
+            <CardDescription className="text-xs">
+              Every new analysis is also scored with the shadow candidate. Users only ever see the live verdict;
+              the shadow verdict is stored for the comparison below.
+            </CardDescription>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            {designate.isPending && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+            <Select
+              value={current ? candidateKey(current) : NO_SHADOW}
+              onValueChange={(key) => designate.mutate(key)}
+              disabled={designate.isPending}
+            >
+              <SelectTrigger className="h-8 w-[220px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SHADOW} className="text-xs">No shadow scorer</SelectItem>
+                {candidates.filter((c) => !c.is_active).map((c) => (
+                  <SelectItem key={candidateKey(c)} value={candidateKey(c)} className="text-xs">
+                    {c.version} · {c.kind === 'rules' ? 'rule set' : 'learned model'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-5">
+          {versions.length > 1 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-xs text-muted-foreground">Report for</span>
+              {versions.map((v) => (
+                <Badge
+                  key={v}
+                  variant={v === selected ? 'secondary' : 'outline'}
+                  className="cursor-pointer font-mono text-[10px]"
+                  onClick={() => setVersion(v)}
+                >
+                  {v}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" />
+          ) : summary.total === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {current ? `No analyses scored with ${current.version} yet.` : 'Pick a rule set or model to start shadow scoring.'}
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {[
+                  { name: 'Shadow-scored analyses', value: summary.total.toLocaleString() },
+                  { name: 'Label agreement', value: `${Math.round((summary.agreement ?? 0) * 1000) / 10}%` },
+                  { name: 'Mean score shift', value: `${(summary.mean_score_delta ?? 0) > 0 ? '+' : ''}${summary.mean_score_delta}` },
+                ].map(({ name, value }) => (
+                  <div key={name} className="rounded-md border p-3">
+                    <p className="text-xs text-muted-foreground">{name}</p>
+                    <p className="mt-1 text-xl font-bold">{value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-5 lg:grid-cols-2">
+                <div>
+                  <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Agreement Over Time</p>
+                  <ResponsiveContainer width="100%" height={160}>
+                    <LineChart data={summary.daily} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                      <XAxis dataKey="day" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={(d: string) => format(new Date(d), 'MMM d')} />
+                      <YAxis domain={[0, 1]} tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={36} tickFormatter={(v: number) => `${Math.round(v * 100)}%`} />
+                      <Tooltip
+                        contentStyle={{ fontSize: 12, borderRadius: 8, border: '1px solid hsl(var(--border))', background: 'hsl(var(--card))' }}
+                        formatter={(v: number, _name, item) => [`${Math.round(v * 1000) / 10}% of ${item.payload.total}`, 'Agreement']}
+                      />
+                      <Line type="monotone" dataKey="agreement" stroke="hsl(var(--primary))" strokeWidth={2} dot={{ r: 2.5 }} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div>
+                  <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Live vs Shadow Labels</p>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="px-2 py-1.5 text-left font-medium">Live ↓ / Shadow →</th>
+                        {RISK_LABELS.map((to) => (
+                          <th key={to} className={`px-2 py-1.5 text-right font-semibold capitalize ${labelText[to]}`}>{to}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {RISK_LABELS.map((from) => (
+                        <tr key={from} className="border-t">
+                          <td className={`px-2 py-1.5 font-semibold capitalize ${labelText[from]}`}>{from}</td>
+                          {RISK_LABELS.map((to) => {
+                            const count = summary.transitions[from][to];
+                            return (
+                              <td
+                                key={to}
+                                className={`px-2 py-1.5 text-right font-mono ${from !== to && count > 0 ? 'bg-risk-suspicious/10 font-semibold' : from === to ? 'text-muted-foreground' : ''}`}
+                              >
+                                {count}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {summary.total > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Disagreements</CardTitle>
+            <CardDescription className="text-xs">
+              {disagreements.length.toLocaleString()} analyses where <span className="font-mono">{selected}</span> gave a different label than production
+              {disagreements.length > DISAGREEMENT_ROWS && <>, newest {DISAGREEMENT_ROWS} shown</>}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-6">Username</TableHead>
+                  <TableHead>Live</TableHead>
+                  <TableHead>Shadow</TableHead>
+                  <TableHead>Live Scorer</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {disagreements.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-8 text-center text-sm text-muted-foreground">
+                      The shadow scorer agrees with production on every analysis
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  disagreements.slice(0, DISAGREEMENT_ROWS).map((row) => (
+                    <TableRow key={row.id}>
+                      <TableCell className="pl-6 text-sm font-medium">
+                        @{row.analysis?.username ?? 'deleted'}
+                        {row.analysis && row.analysis.platform !== 'Unknown' && (
+                          <span className="ml-1.5 text-xs font-normal text-muted-foreground">{row.analysis.platform}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-xs capitalize">
+                        <span className={`font-semibold ${labelText[row.live_label]}`}>{row.live_label}</span>
+                        <span className="ml-1.5 font-mono text-muted-foreground">{row.live_score}</span>
+                      </TableCell>
+                      <TableCell className="text-xs capitalize">
+                        <span className={`font-semibold ${labelText[row.label]}`}>{row.label}</span>
+                        <span className="ml-1.5 font-mono text-muted-foreground">{row.risk_score}</span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">{row.live_version}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{format(new Date(row.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
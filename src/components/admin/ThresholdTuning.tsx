@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from 'recharts';
+import { Loader2, Save, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { useActiveScoringConfig, usePublishScoringConfig } from '@/hooks/use-scoring-config';
+import {
+  analyzeProfile, DEFAULT_SCORING_CONFIG, missingDefaultRules, operatingPoint, rocAuc, storedInput, thresholdSweep,
+  type ScoredOutcome, type ThresholdPoint,
+} from '@/lib/scoring';
+import type { AnalysisResult, GroundTruthLabel } from '@/types';
+
+const pct = (value: number | null) => (value === null ? '—' : `${Math.round(value * 1000) / 10}%`);
+
+const CUTOFFS = [
+  { key: 'suspicious', label: 'Suspicious', color: 'hsl(var(--risk-suspicious))', text: 'text-risk-suspicious' },
+  { key: 'fake', label: 'Fake', color: 'hsl(var(--risk-fake))', text: 'text-risk-fake' },
+] as const;
+
+const tooltipStyle = { fontSize: 12, borderRadius: 8, border: '1px solid hsl(var(--border))', background: 'hsl(var(--card))' };
+
+interface ThresholdTuningProps {
+  results: AnalysisResult[];
+  labels: Map<string, GroundTruthLabel>;
+}
+
+// ROC and precision-recall curves against confirmed outcomes, with the two
+// label cutoffs marked on both. Each analysis is rescored with the live rules:
+// stored scores may come from a learned model or an older rule set, and the
+// cutoffs only apply to the rules. Saving publishes the live rules with the
+// new cutoffs as the next rule set version.
+export function ThresholdTuning({ results, labels }: ThresholdTuningProps) {
+  const { data: live = DEFAULT_SCORING_CONFIG } = useActiveScoringConfig();
+  const publish = usePublishScoringConfig();
+  const [thresholds, setThresholds] = useState(live.thresholds);
+
+  useEffect(() => setThresholds(live.thresholds), [live]);
+
+  const outcomes = useMemo<ScoredOutcome[]>(
+    () => results.flatMap((r) => {
+      const truth = labels.get(r.id);
+      return truth ? [{ score: analyzeProfile(storedInput(r), live).risk_score, truth: truth.label }] : [];
+    }),
+    [results, labels, live],
+  );
+  const sweep = useMemo(() => thresholdSweep(outcomes), [outcomes]);
+  const auc = useMemo(() => rocAuc(sweep), [sweep]);
+  const points: Record<'suspicious' | 'fake', ThresholdPoint> = {
+    suspicious: operatingPoint(outcomes, thresholds.suspicious),
+    fake: operatingPoint(outcomes, thresholds.fake),
+  };
+
+  const fakes = outcomes.filter((o) => o.truth === 'fake').length;
+  const reals = outcomes.length - fakes;
+  const missingRules = missingDefaultRules(live.rules).length;
+  const changed = thresholds.suspicious !== live.thresholds.suspicious || thresholds.fake !== live.thresholds.fake;
+
+  const setCutoff = (key: 'suspicious' | 'fake', value: number) =>
+    setThresholds((t) => (key === 'suspicious'
+      ? { ...t, suspicious: Math.min(value, t.fake - 1) }
+      : { ...t, fake: Math.max(value, t.suspicious + 1) }));
+
+  const save = () => publish.mutate({
+    rules: live.rules,
+    thresholds,
+    notes: `Thresholds ${thresholds.suspicious}/${thresholds.fake} tuned on ${outcomes.length} confirmed analyses `
+      + `(suspicious FPR ${pct(points.suspicious.fpr)}, fake FPR ${pct(points.fake.fpr)})`,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <SlidersHorizontal className="h-4 w-4" />
+            Threshold Tuning
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Live rule scores of {fakes} confirmed fake and {reals} confirmed real accounts · ROC AUC {fakes && reals ? auc : '—'}.
+            Live cutoffs ({live.version}): {live.thresholds.suspicious} / {live.thresholds.fake}.
+            {missingRules > 0 && (
+              <span className="block text-risk-suspicious">
+                Saving republishes {live.version}, which lacks {missingRules} built-in {missingRules === 1 ? 'rule' : 'rules'} — add them in the rule editor first.
+              </span>
+            )}
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={save} disabled={!changed || publish.isPending}>
+          {publish.isPending ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Save className="mr-1.5 h-3.5 w-3.5" />}
+          Save {thresholds.suspicious} / {thresholds.fake}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {fakes === 0 || reals === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            The curves need at least one confirmed fake and one confirmed real account.
+          </p>
+        ) : (
+          <>
+            <div className="grid gap-6 md:grid-cols-2">
+              {CUTOFFS.map(({ key, label, text }) => {
+                const point = points[key];
+                return (
+                  <div key={key} className="space-y-3">
+                    <div className="flex items-baseline justify-between">
+                      <p className={`text-sm font-semibold ${text}`}>{label} at ≥ {thresholds[key]}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {point.flagged} flagged · {point.false_positives} confirmed real
+                      </p>
+                    </div>
+                    <Slider
+                      min={1}
+                      max={100}
+                      step={1}
+                      value={[thresholds[key]]}
+                      onValueChange={([value]) => setCutoff(key, value)}
+                    />
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                      {[
+                        { name: 'False-positive rate', value: pct(point.fpr) },
+                        { name: 'Recall', value: pct(point.tpr) },
+                        { name: 'Precision', value: pct(point.precision) },
+                      ].map(({ name, value }) => (
+                        <div key={name} className="rounded-md border p-2">
+                          <p className="text-[11px] text-muted-foreground">{name}</p>
+                          <p className="font-mono text-sm font-semibold">{value}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div>
+                <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">ROC Curve</p>
+                <ResponsiveContainer width="100%" height={220}>
+                  <LineChart data={sweep} margin={{ top: 4, right: 12, bottom: 12, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      dataKey="fpr" type="number" domain={[0, 1]} tick={{ fontSize: 10 }} tickFormatter={pct}
+                      label={{ value: 'False-positive rate', position: 'insideBottom', offset: -6, fontSize: 10 }}
+                    />
+                    <YAxis dataKey="tpr" type="number" domain={[0, 1]} tick={{ fontSize: 10 }} tickFormatter={pct} width={40} />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(fpr: number) => `FPR ${pct(fpr)}`}
+                      formatter={(tpr: number, _name, item) => [`${pct(tpr)} at ≥ ${item.payload.threshold}`, 'Recall']}
+                    />
+                    <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                    <Line type="stepAfter" dataKey="tpr" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    {CUTOFFS.map(({ key, color }) => (
+                      <ReferenceDot key={key} x={points[key].fpr} y={points[key].tpr} r={5} fill={color} stroke="hsl(var(--background))" />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div>
+                <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Precision–Recall Curve</p>
+                <ResponsiveContainer width="100%" height={220}>
+                  <LineChart data={sweep.filter((p) => p.precision !== null)} margin={{ top: 4, right: 12, bottom: 12, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      dataKey="tpr" type="number" domain={[0, 1]} tick={{ fontSize: 10 }} tickFormatter={pct}
+                      label={{ value: 'Recall', position: 'insideBottom', offset: -6, fontSize: 10 }}
+                    />
+                    <YAxis dataKey="precision" type="number" domain={[0, 1]} tick={{ fontSize: 10 }} tickFormatter={pct} width={40} />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(recall: number) => `Recall ${pct(recall)}`}
+                      formatter={(precision: number, _name, item) => [`${pct(precision)} at ≥ ${item.payload.threshold}`, 'Precision']}
+                    />
+                    <Line type="stepAfter" dataKey="precision" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    {CUTOFFS.map(({ key, color }) => points[key].precision !== null && (
+                      <ReferenceDot key={key} x={points[key].tpr} y={points[key].precision} r={5} fill={color} stroke="hsl(var(--background))" />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
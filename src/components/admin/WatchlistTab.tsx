@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { matchProtectedHandle, PLATFORMS, type ProtectedHandle } from '@/lib/scoring';
+import { toast } from 'sonner';
+
+type StoredHandle = ProtectedHandle & { id: string; created_at: string };
+
+const ANY_PLATFORM = 'any';
+
+export function WatchlistTab() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [handle, setHandle] = useState('');
+  const [platform, setPlatform] = useState<string>(ANY_PLATFORM);
+  const [label, setLabel] = useState('');
+  const [probe, setProbe] = useState('');
+
+  const { data: handles = [], isLoading } = useQuery({
+    queryKey: ['protected-handles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('protected_handles')
+        .select('*')
+        .order('handle');
+      if (error) throw error;
+      return data as StoredHandle[];
+    },
+  });
+
+  const add = useMutation({
+    mutationFn: async () => {
+      const normalized = handle.trim().replace(/^@/, '');
+      if (!normalized) throw new Error('Handle is required');
+      const { error } = await supabase.from('protected_handles').insert({
+        handle: normalized,
+        platform: platform === ANY_PLATFORM ? null : platform,
+        label: label.trim() || null,
+        created_by: user!.id,
+      });
+      if (error) throw error.code === '23505' ? new Error(`@${normalized} is already protected`) : error;
+      return normalized;
+    },
+    onSuccess: (added) => {
+      queryClient.invalidateQueries({ queryKey: ['protected-handles'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      setHandle('');
+      setLabel('');
+      toast.success(`@${added} added to the watchlist`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : 'Failed to add handle'),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('protected_handles').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['protected-handles'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      toast.success('Handle removed from the watchlist');
+    },
+    onError: () => toast.error('Failed to remove handle'),
+  });
+
+  // Try a handle against the list exactly as analyze-profile would
+  const probeMatch = useMemo(
+    () => (probe.trim() ? matchProtectedHandle(probe, handles) : null),
+    [probe, handles],
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <ShieldCheck className="h-4 w-4" />
+          Protected Handles
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Official brand and executive accounts. Scanned usernames that pad, misspell or swap lookalike characters
+          in one of these get a "Possible impersonation" factor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(e) => { e.preventDefault(); add.mutate(); }}
+        >
+          <Input value={handle} onChange={(e) => setHandle(e.target.value)} placeholder="@acme" className="h-8 w-40 text-xs" />
+          <Select value={platform} onValueChange={setPlatform}>
+            <SelectTrigger className="h-8 w-36 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_PLATFORM} className="text-xs">Any platform</SelectItem>
+              {PLATFORMS.map((p) => (
+                <SelectItem key={p} value={p} className="text-xs">{p}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Owner, e.g. Acme Corp CEO" className="h-8 flex-1 text-xs" />
+          <Button type="submit" size="sm" disabled={add.isPending || !handle.trim()}>
+            {add.isPending ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Plus className="mr-1.5 h-3.5 w-3.5" />}
+            Protect
+          </Button>
+        </form>
+
+        <div className="space-y-1.5 rounded-md border bg-muted/30 p-2.5">
+          <Input value={probe} onChange={(e) => setProbe(e.target.value)} placeholder="Test a handle, e.g. official_acme" className="h-8 text-xs" />
+          {probe.trim() && (
+            <p className={`text-xs ${probeMatch ? 'font-medium text-risk-fake' : 'text-muted-foreground'}`}>
+              {probeMatch
+                ? `Resembles @${probeMatch.handle} — ${probeMatch.reasons.join('; ')}`
+                : 'No protected handle matched.'}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+        ) : handles.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No protected handles yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Handle</TableHead>
+                <TableHead className="text-xs">Platform</TableHead>
+                <TableHead className="text-xs">Owner</TableHead>
+                <TableHead className="text-xs">Added</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {handles.map((h) => (
+                <TableRow key={h.id}>
+                  <TableCell className="text-sm font-medium">@{h.handle}</TableCell>
+                  <TableCell className="text-xs">{h.platform ?? 'Any'}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{h.label ?? '—'}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{format(new Date(h.created_at), 'MMM d, yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => remove.mutate(h.id)}
+                      disabled={remove.isPending}
+                      aria-label={`Remove @${h.handle}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { GroundTruthLabel } from "@/types";
+
+// Analyst-confirmed verdicts keyed by analysis id. Admin-only under RLS.
+export function useGroundTruth() {
+  return useQuery({
+    queryKey: ["ground-truth"],
+    queryFn: async (): Promise<Map<string, GroundTruthLabel>> => {
+      const { data, error } = await supabase
+        .from("ground_truth_labels")
+        .select("*");
+      if (error) throw error;
+      return new Map((data as GroundTruthLabel[]).map((row) => [row.analysis_id, row]));
+    },
+  });
+}
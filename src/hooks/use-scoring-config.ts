@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_SCORING_CONFIG, MODEL_VERSION, validateScoringConfig, type ScoringConfig } from "@/lib/scoring";
+import { toast } from "sonner";
+
+// The rule set analyze-profile is currently scoring with, resolved the same
+// way as the edge function: the active scoring_rules row if it is valid,
+// otherwise the built-in defaults.
+export function useActiveScoringConfig() {
+  return useQuery({
+    queryKey: ["scoring-rules", "active"],
+    queryFn: async (): Promise<ScoringConfig> => {
+      const { data, error } = await supabase
+        .from("scoring_rules")
+        .select("version, rules, thresholds")
+        .eq("is_active", true)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return DEFAULT_SCORING_CONFIG;
+      const config = data as unknown as ScoringConfig;
+      return validateScoringConfig(config).length === 0 ? config : DEFAULT_SCORING_CONFIG;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Published rule sets are numbered rules-1, rules-2, …
+export function nextRuleSetVersion(versions: string[]): string {
+  const revisions = versions.map((v) => Number(v.match(/^rules-(\d+)$/)?.[1] ?? 0));
+  return `rules-${Math.max(0, ...revisions) + 1}`;
+}
+
+export interface PublishScoringConfig {
+  rules: ScoringConfig["rules"];
+  thresholds: ScoringConfig["thresholds"];
+  notes?: string;
+}
+
+// Saves a rule set as the next version and makes it the one analyze-profile
+// scores with, recording the engine version it was written against. Resolves
+// to the new version name.
+export function usePublishScoringConfig() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ rules, thresholds, notes }: PublishScoringConfig) => {
+      const { data: existing, error: versionsError } = await supabase
+        .from("scoring_rules")
+        .select("version");
+      if (versionsError) throw versionsError;
+
+      const config: ScoringConfig = { version: nextRuleSetVersion(existing.map((r) => r.version)), rules, thresholds };
+      const problems = validateScoringConfig(config);
+      if (problems.length > 0) throw new Error(problems[0]);
+
+      const { data, error } = await supabase
+        .from("scoring_rules")
+        .insert({
+          version: config.version,
+          rules: config.rules as never,
+          thresholds: config.thresholds as never,
+          engine_version: MODEL_VERSION,
+          notes: notes?.trim() || null,
+          created_by: user!.id,
+        })
+        .select("id")
+        .single();
+      if (error) throw error;
+
+      const { error: activateError } = await supabase.rpc("activate_scoring_rules", { _id: data.id });
+      if (activateError) throw activateError;
+      return config.version;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["scoring-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-logs"] });
+      toast.success(`Published and activated ${version}`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to publish rule set"),
+  });
+}
+
+// Deactivates every published rule set so analyze-profile scores with the
+// built-in defaults, which track the deployed engine
+export function useRevertToDefaultRules() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("activate_scoring_rules", { _id: null });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scoring-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["audit-logs"] });
+      toast.success(`Reverted to the built-in ${MODEL_VERSION} rules`);
+    },
+    onError: (err) => toast.error(err instanceof Error ? err.message : "Failed to revert to the built-in rules"),
+  });
+}
@@ -14,50 +14,143 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_clusters: {
+        Row: {
+          created_at: string
+          created_from: string | null
+          created_to: string | null
+          id: string
+          members: Json
+          platform: string
+          run_id: string
+          signature: string
+          size: number
+          username_template: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_from?: string | null
+          created_to?: string | null
+          id?: string
+          members: Json
+          platform: string
+          run_id: string
+          signature: string
+          size: number
+          username_template?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_from?: string | null
+          created_to?: string | null
+          id?: string
+          members?: Json
+          platform?: string
+          run_id?: string
+          signature?: string
+          size?: number
+          username_template?: string | null
+        }
+        Relationships: []
+      }
       analysis_results: {
         Row: {
-          account_age: number
-          bio_length: number
+          account_age: number | null
+          avg_comments: number | null
+          avg_likes: number | null
+          avg_views: number | null
+          bio: string | null
+          bio_length: number | null
+          cluster: Json | null
+          confidence: string | null
           created_at: string
-          followers_count: number
-          following_count: number
+          display_name: string | null
+          follower_breakdown: Json | null
+          follower_sample: Json | null
+          followers_count: number | null
+          following_count: number | null
+          heuristic_score: number | null
           id: string
+          impersonation: Json | null
           label: string
-          posts_count: number
+          learned_model: string | null
+          learned_score: number | null
+          model_version: string
+          platform: string
+          post_timestamps: string[] | null
+          previous_snapshot: Json | null
+          posts_count: number | null
           risk_score: number
           top_factors: Json
           user_id: string
           username: string
+          username_analysis: Json | null
           username_flags: Json | null
         }
         Insert: {
-          account_age: number
-          bio_length: number
+          account_age?: number | null
+          avg_comments?: number | null
+          avg_likes?: number | null
+          avg_views?: number | null
+          bio?: string | null
+          bio_length?: number | null
+          cluster?: Json | null
+          confidence?: string | null
           created_at?: string
-          followers_count: number
-          following_count: number
+          display_name?: string | null
+          follower_breakdown?: Json | null
+          follower_sample?: Json | null
+          followers_count?: number | null
+          following_count?: number | null
+          heuristic_score?: number | null
           id?: string
+          impersonation?: Json | null
           label: string
-          posts_count: number
+          learned_model?: string | null
+          learned_score?: number | null
+          model_version: string
+          platform?: string
+          post_timestamps?: string[] | null
+          previous_snapshot?: Json | null
+          posts_count?: number | null
           risk_score: number
           top_factors?: Json
           user_id: string
           username: string
+          username_analysis?: Json | null
           username_flags?: Json | null
         }
         Update: {
-          account_age?: number
-          bio_length?: number
+          account_age?: number | null
+          avg_comments?: number | null
+          avg_likes?: number | null
+          avg_views?: number | null
+          bio?: string | null
+          bio_length?: number | null
+          cluster?: Json | null
+          confidence?: string | null
           created_at?: string
-          followers_count?: number
-          following_count?: number
+          display_name?: string | null
+          follower_breakdown?: Json | null
+          follower_sample?: Json | null
+          followers_count?: number | null
+          following_count?: number | null
+          heuristic_score?: number | null
           id?: string
+          impersonation?: Json | null
           label?: string
-          posts_count?: number
+          learned_model?: string | null
+          learned_score?: number | null
+          model_version?: string
+          platform?: string
+          post_timestamps?: string[] | null
+          previous_snapshot?: Json | null
+          posts_count?: number | null
           risk_score?: number
           top_factors?: Json
           user_id?: string
           username?: string
+          username_analysis?: Json | null
           username_flags?: Json | null
         }
         Relationships: []
@@ -92,6 +185,27 @@ export type Database = {
         }
         Relationships: []
       }
+      ground_truth_labels: {
+        Row: {
+          analysis_id: string
+          label: string
+          reviewed_at: string
+          reviewed_by: string | null
+        }
+        Insert: {
+          analysis_id: string
+          label: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+        }
+        Update: {
+          analysis_id?: string
+          label?: string
+          reviewed_at?: string
+          reviewed_by?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -119,6 +233,144 @@ export type Database = {
         }
         Relationships: []
       }
+      protected_handles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          handle: string
+          id: string
+          label: string | null
+          platform: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          handle: string
+          id?: string
+          label?: string | null
+          platform?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          handle?: string
+          id?: string
+          label?: string | null
+          platform?: string | null
+        }
+        Relationships: []
+      }
+      scoring_models: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          is_shadow: boolean
+          model: Json
+          report: Json
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          is_shadow?: boolean
+          model: Json
+          report: Json
+          version: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          is_shadow?: boolean
+          model?: Json
+          report?: Json
+          version?: string
+        }
+        Relationships: []
+      }
+      scoring_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          engine_version: string | null
+          id: string
+          is_active: boolean
+          is_shadow: boolean
+          notes: string | null
+          rules: Json
+          thresholds: Json
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          engine_version?: string | null
+          id?: string
+          is_active?: boolean
+          is_shadow?: boolean
+          notes?: string | null
+          rules: Json
+          thresholds: Json
+          version: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          engine_version?: string | null
+          id?: string
+          is_active?: boolean
+          is_shadow?: boolean
+          notes?: string | null
+          rules?: Json
+          thresholds?: Json
+          version?: string
+        }
+        Relationships: []
+      }
+      shadow_scores: {
+        Row: {
+          analysis_id: string
+          created_at: string
+          id: string
+          label: string
+          live_label: string
+          live_score: number
+          live_version: string
+          risk_score: number
+          shadow_kind: string
+          shadow_version: string
+        }
+        Insert: {
+          analysis_id: string
+          created_at?: string
+          id?: string
+          label: string
+          live_label: string
+          live_score: number
+          live_version: string
+          risk_score: number
+          shadow_kind: string
+          shadow_version: string
+        }
+        Update: {
+          analysis_id?: string
+          created_at?: string
+          id?: string
+          label?: string
+          live_label?: string
+          live_score?: number
+          live_version?: string
+          risk_score?: number
+          shadow_kind?: string
+          shadow_version?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -142,6 +394,18 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_scoring_model: {
+        Args: {
+          _id: string | null
+        }
+        Returns: undefined
+      }
+      activate_scoring_rules: {
+        Args: {
+          _id: string | null
+        }
+        Returns: undefined
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -149,6 +413,13 @@ export type Database = {
         }
         Returns: boolean
       }
+      set_shadow_scorer: {
+        Args: {
+          _id: string | null
+          _kind: string | null
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,6 @@
+// Page scraping and extraction helpers shared with scrape-profile, so the app
+// and the edge function read pages the same way.
+export * from '../../supabase/functions/_shared/html.ts';
+export * from '../../supabase/functions/_shared/scrapers.ts';
+export * from '../../supabase/functions/_shared/parsers.ts';
+export * from '../../supabase/functions/_shared/extraction.ts';
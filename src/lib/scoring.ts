@@ -0,0 +1,16 @@
+// The scoring engine lives next to the edge functions so analyze-profile and
+// the app always run the exact same rules.
+export * from '../../supabase/functions/_shared/scoring.ts';
+export * from '../../supabase/functions/_shared/platforms.ts';
+export * from '../../supabase/functions/_shared/username.ts';
+export * from '../../supabase/functions/_shared/bio.ts';
+export * from '../../supabase/functions/_shared/cadence.ts';
+export * from '../../supabase/functions/_shared/followers.ts';
+export * from '../../supabase/functions/_shared/clustering.ts';
+export * from '../../supabase/functions/_shared/impersonation.ts';
+export * from '../../supabase/functions/_shared/confusables.ts';
+export * from '../../supabase/functions/_shared/timeline.ts';
+export * from '../../supabase/functions/_shared/backtest.ts';
+export * from '../../supabase/functions/_shared/evaluation.ts';
+export * from '../../supabase/functions/_shared/logistic.ts';
+export * from '../../supabase/functions/_shared/shadow.ts';
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Render a profile metric that may be unknown (null)
+export function formatMetric(value: number | null | undefined, suffix = ""): string {
+  return value === null || value === undefined ? "Unknown" : `${value.toLocaleString()}${suffix}`;
+}
@@ -7,7 +7,7 @@ import {
 import { subDays, format } from 'date-fns';
 import {
   Activity, AlertTriangle, XCircle, Target,
-  ChevronDown, ChevronUp, Filter, Download, ClipboardList, Users
+  ChevronDown, ChevronUp, Filter, Download, ClipboardList, Users, SlidersHorizontal, Network, ShieldCheck, CheckCircle, BrainCircuit, Eye
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,8 +16,18 @@ import {
 } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Navbar } from '@/components/Navbar';
+import { ScoringRulesTab } from '@/components/admin/ScoringRulesTab';
+import { ClustersTab } from '@/components/admin/ClustersTab';
+import { WatchlistTab } from '@/components/admin/WatchlistTab';
+import { AccuracyTab } from '@/components/admin/AccuracyTab';
+import { ModelsTab } from '@/components/admin/ModelsTab';
+import { ShadowTab } from '@/components/admin/ShadowTab';
+import { GroundTruthControls } from '@/components/admin/GroundTruthControls';
+import { useGroundTruth } from '@/hooks/use-ground-truth';
 import { supabase } from '@/integrations/supabase/client';
-import { AnalysisResult } from '@/types';
+import { AnalysisResult, GroundTruthLabel } from '@/types';
+import { evaluate, labeledPredictions } from '@/lib/scoring';
+import { formatMetric } from '@/lib/utils';
 import { toast } from 'sonner';
 
 type FilterTab = 'all' | 'high_risk' | 'recent';
@@ -36,6 +46,8 @@ const LABEL_CONFIG = {
   real: 'bg-risk-real text-risk-real-foreground',
 };
 
+const NO_GROUND_TRUTH = new Map<string, GroundTruthLabel>();
+
 interface AuditLog {
   id: string;
   user_id: string;
@@ -47,10 +59,11 @@ interface AuditLog {
 }
 
 function exportCSV(results: AnalysisResult[]) {
-  const headers = ['Username', 'Risk Score', 'Label', 'Account Age', 'Posts', 'Followers', 'Following', 'Bio Length', 'Date'];
+  const headers = ['Username', 'Risk Score', 'Label', 'Account Age', 'Posts', 'Followers', 'Following', 'Bio Length', 'Avg Likes', 'Avg Comments', 'Avg Views', 'Platform', 'Model Version', 'Date'];
   const rows = results.map((r) => [
-    r.username, r.risk_score, r.label, r.account_age,
-    r.posts_count, r.followers_count, r.following_count, r.bio_length,
+    r.username, r.risk_score, r.label, r.account_age ?? '',
+    r.posts_count ?? '', r.followers_count ?? '', r.following_count ?? '', r.bio_length ?? '',
+    r.avg_likes ?? '', r.avg_comments ?? '', r.avg_views ?? '', r.platform, r.model_version,
     format(new Date(r.created_at), 'yyyy-MM-dd HH:mm'),
   ]);
   const csv = [headers, ...rows].map((row) => row.join(',')).join('\n');
@@ -66,7 +79,7 @@ function exportCSV(results: AnalysisResult[]) {
 
 // ─── Profiles Table ───────────────────────────────────────────────────────────
 
-function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
+function ProfilesTable({ allResults, groundTruth }: { allResults: AnalysisResult[]; groundTruth: Map<string, GroundTruthLabel> }) {
   const [filterTab, setFilterTab] = useState<FilterTab>('all');
   const [sortField, setSortField] = useState<SortField>('created_at');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
@@ -131,6 +144,7 @@ function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
                 Risk Score <SortIcon field="risk_score" />
               </TableHead>
               <TableHead>Label</TableHead>
+              <TableHead>Model</TableHead>
               <TableHead className="cursor-pointer select-none" onClick={() => toggleSort('created_at')}>
                 Date <SortIcon field="created_at" />
               </TableHead>
@@ -139,7 +153,7 @@ function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
           <TableBody>
             {sorted.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={4} className="py-8 text-center text-sm text-muted-foreground">
+                <TableCell colSpan={5} className="py-8 text-center text-sm text-muted-foreground">
                   No results found
                 </TableCell>
               </TableRow>
@@ -151,7 +165,12 @@ function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
                     className="cursor-pointer hover:bg-muted/50"
                     onClick={() => setExpandedRow(expandedRow === row.id ? null : row.id)}
                   >
-                    <TableCell className="pl-6 font-medium">{row.username}</TableCell>
+                    <TableCell className="pl-6 font-medium">
+                      {row.username}
+                      {row.platform !== 'Unknown' && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">{row.platform}</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <div className="h-1.5 w-16 overflow-hidden rounded-full bg-muted">
@@ -172,7 +191,17 @@ function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
                       <span className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${LABEL_CONFIG[row.label as keyof typeof LABEL_CONFIG]}`}>
                         {row.label.toUpperCase()}
                       </span>
+                      {groundTruth.has(row.id) && (
+                        <span
+                          className={`ml-2 inline-flex items-center gap-0.5 text-xs ${groundTruth.get(row.id)!.label === 'fake' ? 'text-risk-fake' : 'text-risk-real'}`}
+                          title="Analyst-confirmed outcome"
+                        >
+                          <CheckCircle className="h-3 w-3" />
+                          {groundTruth.get(row.id)!.label}
+                        </span>
+                      )}
                     </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">{row.model_version}</TableCell>
                     <TableCell className="text-sm text-muted-foreground">
                       {format(new Date(row.created_at), 'MMM d, yyyy HH:mm')}
                     </TableCell>
@@ -180,17 +209,23 @@ function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
 
                   {expandedRow === row.id && (
                     <TableRow key={`${row.id}-expanded`} className="bg-muted/30">
-                      <TableCell colSpan={4} className="pl-6 py-4">
+                      <TableCell colSpan={5} className="pl-6 py-4">
                         <div className="space-y-3">
+                          <GroundTruthControls analysisId={row.id} current={groundTruth.get(row.id)} />
+
                           {/* Metrics */}
                           <div className="grid grid-cols-3 gap-2 sm:grid-cols-6">
                             {[
-                              { label: 'Age', value: `${row.account_age}d` },
-                              { label: 'Posts', value: row.posts_count },
-                              { label: 'Followers', value: row.followers_count },
-                              { label: 'Following', value: row.following_count },
-                              { label: 'Bio', value: `${row.bio_length}c` },
+                              { label: 'Age', value: formatMetric(row.account_age, 'd') },
+                              { label: 'Posts', value: formatMetric(row.posts_count) },
+                              { label: 'Followers', value: formatMetric(row.followers_count) },
+                              { label: 'Following', value: formatMetric(row.following_count) },
+                              { label: 'Bio', value: formatMetric(row.bio_length, 'c') },
                               { label: 'Score', value: row.risk_score },
+                              ...(row.learned_model ? [
+                                { label: 'Rules', value: row.heuristic_score ?? '—' },
+                                { label: `Learned (${row.learned_model})`, value: row.learned_score ?? '—' },
+                              ] : []),
                             ].map(({ label, value }) => (
                               <div key={label} className="rounded-md border bg-card p-2">
                                 <p className="text-xs text-muted-foreground">{label}</p>
@@ -199,12 +234,17 @@ function ProfilesTable({ allResults }: { allResults: AnalysisResult[] }) {
                             ))}
                           </div>
 
-                          <p className="text-xs font-semibold uppercase text-muted-foreground">Top Factors</p>
+                          <p className="text-xs font-semibold uppercase text-muted-foreground">Factors</p>
                           <div className="grid gap-2 sm:grid-cols-2">
-                            {(row.top_factors as unknown as Array<{ factor: string; description: string; impact: string }>).map((f, i) => (
-                              <div key={i} className="rounded-md border bg-card p-3">
-                                <p className="text-xs font-medium">{f.factor}</p>
-                                <p className="mt-0.5 text-xs text-muted-foreground">{f.description}</p>
+                            {row.top_factors.map((f, i) => (
+                              <div key={i} className="flex items-start justify-between gap-2 rounded-md border bg-card p-3">
+                                <div>
+                                  <p className="text-xs font-medium">{f.factor}</p>
+                                  <p className="mt-0.5 text-xs text-muted-foreground">{f.description}</p>
+                                </div>
+                                {f.points !== undefined && (
+                                  <span className="font-mono text-xs font-semibold">{f.points >= 0 ? '+' : ''}{f.points}</span>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -358,7 +398,9 @@ export default function Admin() {
   const totalScans = allResults.length;
   const fakeCount = allResults.filter((r) => r.label === 'fake').length;
   const suspiciousCount = allResults.filter((r) => r.label === 'suspicious').length;
-  const accuracy = totalScans > 0 ? Math.round(((fakeCount + suspiciousCount) / totalScans) * 100) : 94;
+  const { data: groundTruth = NO_GROUND_TRUTH } = useGroundTruth();
+  const evaluation = evaluate(labeledPredictions(allResults, groundTruth));
+  const fakeF1 = evaluation.labels.fake.f1;
 
   // Daily chart data (last 7 days)
   const dailyData = Array.from({ length: 7 }, (_, i) => {
@@ -391,7 +433,7 @@ export default function Admin() {
             { title: 'Total Scans', value: totalScans, icon: Activity, color: 'text-primary' },
             { title: 'Fake Detected', value: fakeCount, icon: XCircle, color: 'text-risk-fake' },
             { title: 'Suspicious Flagged', value: suspiciousCount, icon: AlertTriangle, color: 'text-risk-suspicious' },
-            { title: 'Accuracy Estimate', value: `${accuracy}%`, icon: Target, color: 'text-risk-real' },
+            { title: `Fake F1 · ${evaluation.total} confirmed`, value: fakeF1 === null ? '—' : `${Math.round(fakeF1 * 100)}%`, icon: Target, color: 'text-risk-real' },
           ].map(({ title, value, icon: Icon, color }) => (
             <Card key={title}>
               <CardContent className="p-5 flex items-center justify-between">
@@ -447,13 +489,37 @@ export default function Admin() {
           </Card>
         </div>
 
-        {/* Tabs: Profiles / Audit Log / Users */}
+        {/* Tabs: Profiles / Accuracy / Scoring Rules / Models / Shadow / Clusters / Watchlist / Audit Log / Users */}
         <Tabs defaultValue="profiles">
           <TabsList>
             <TabsTrigger value="profiles" className="gap-1.5">
               <Filter className="h-3.5 w-3.5" />
               Profiles
             </TabsTrigger>
+            <TabsTrigger value="accuracy" className="gap-1.5">
+              <Target className="h-3.5 w-3.5" />
+              Accuracy
+            </TabsTrigger>
+            <TabsTrigger value="rules" className="gap-1.5">
+              <SlidersHorizontal className="h-3.5 w-3.5" />
+              Scoring Rules
+            </TabsTrigger>
+            <TabsTrigger value="models" className="gap-1.5">
+              <BrainCircuit className="h-3.5 w-3.5" />
+              Models
+            </TabsTrigger>
+            <TabsTrigger value="shadow" className="gap-1.5">
+              <Eye className="h-3.5 w-3.5" />
+              Shadow
+            </TabsTrigger>
+            <TabsTrigger value="clusters" className="gap-1.5">
+              <Network className="h-3.5 w-3.5" />
+              Clusters
+            </TabsTrigger>
+            <TabsTrigger value="watchlist" className="gap-1.5">
+              <ShieldCheck className="h-3.5 w-3.5" />
+              Watchlist
+            </TabsTrigger>
             <TabsTrigger value="audit" className="gap-1.5">
               <ClipboardList className="h-3.5 w-3.5" />
               Audit Log
@@ -465,7 +531,25 @@ export default function Admin() {
           </TabsList>
 
           <TabsContent value="profiles" className="mt-4">
-            <ProfilesTable allResults={allResults} />
+            <ProfilesTable allResults={allResults} groundTruth={groundTruth} />
+          </TabsContent>
+          <TabsContent value="accuracy" className="mt-4">
+            <AccuracyTab results={allResults} labels={groundTruth} />
+          </TabsContent>
+          <TabsContent value="rules" className="mt-4">
+            <ScoringRulesTab />
+          </TabsContent>
+          <TabsContent value="models" className="mt-4">
+            <ModelsTab />
+          </TabsContent>
+          <TabsContent value="shadow" className="mt-4">
+            <ShadowTab />
+          </TabsContent>
+          <TabsContent value="clusters" className="mt-4">
+            <ClustersTab />
+          </TabsContent>
+          <TabsContent value="watchlist" className="mt-4">
+            <WatchlistTab />
           </TabsContent>
           <TabsContent value="audit" className="mt-4">
             <AuditLogTab />
@@ -1,41 +1,136 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import {
   Loader2, AlertTriangle, CheckCircle, XCircle,
-  RefreshCw, History, TrendingUp, User, Link2, Sparkles, Info
+  RefreshCw, History, TrendingUp, User, Link2, Sparkles, Info, ShieldAlert, ClipboardPaste
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Navbar } from '@/components/Navbar';
 import { Particles } from '@/components/Particles';
 import { AnimatedList } from '@/components/AnimatedList';
+import { CadenceHeatmap } from '@/components/CadenceHeatmap';
+import { FieldProvenanceBadge } from '@/components/FieldProvenanceBadge';
+import { FollowerBreakdown } from '@/components/FollowerBreakdown';
+import { NameCharacterFindings } from '@/components/NameCharacters';
+import { ScoreWaterfall } from '@/components/ScoreWaterfall';
+import { UsernameEvidence } from '@/components/UsernameEvidence';
+import { WhatIfPanel } from '@/components/WhatIfPanel';
+import { useActiveScoringConfig } from '@/hooks/use-scoring-config';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { AnalysisResult, TopFactor } from '@/types';
+import {
+  analyzeBio, analyzeUsername, ENGAGEMENT_METRICS, MAX_FOLLOWER_SAMPLE, parseFollowerSample, parseTimestamps,
+  PLATFORMS, PROFILE_METRICS,
+  type ClusterMatch, type EngagementMetric, type ImpersonationMatch, type ProfileSnapshot, type Platform, type ProfileInput, type ProfileMetric, type ScoringResult, type UsernameAnalysis, type UsernameFlags,
+} from '@/lib/scoring';
+import type { ExtractedField, FieldProvenance } from '@/lib/extraction';
 import { useQuery } from '@tanstack/react-query';
 
+function timestampLines(value?: string) {
+  return (value ?? '').split('\n').map((line) => line.trim()).filter(Boolean);
+}
+
+// Blank inputs parse as undefined so they can be told apart from a real 0
+const optionalCount = z.preprocess(
+  (v) => (v === '' || v === null ? undefined : v),
+  z.coerce.number().min(0, 'Must be 0 or more').optional(),
+);
+
 const schema = z.object({
   username: z.string().min(1, 'Username is required'),
-  account_age: z.coerce.number().min(0, 'Must be 0 or more'),
-  posts_count: z.coerce.number().min(0),
-  followers_count: z.coerce.number().min(0),
-  following_count: z.coerce.number().min(0),
-  bio_length: z.coerce.number().min(0),
+  display_name: z.string().max(100, 'Display name is too long').optional(),
+  account_age: optionalCount,
+  posts_count: optionalCount,
+  followers_count: optionalCount,
+  following_count: optionalCount,
+  bio_length: optionalCount,
+  bio: z.string().max(1000, 'Bio is too long').optional(),
+  avg_likes: optionalCount,
+  avg_comments: optionalCount,
+  avg_views: optionalCount,
+  post_timestamps: z.string().optional().refine(
+    (v) => timestampLines(v).every((line) => parseTimestamps([line]).length === 1),
+    'Each line must be a date and time, e.g. 2026-03-01T14:05:00Z',
+  ),
+  follower_sample: z.string().optional().superRefine((v, ctx) => {
+    const { entries, errors } = parseFollowerSample(v ?? '');
+    errors.slice(0, 3).forEach((message) => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+    if (entries.length > MAX_FOLLOWER_SAMPLE) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `At most ${MAX_FOLLOWER_SAMPLE} followers per analysis` });
+    }
+  }),
+  unknown: z.object({
+    account_age: z.boolean(),
+    posts_count: z.boolean(),
+    followers_count: z.boolean(),
+    following_count: z.boolean(),
+    bio_length: z.boolean(),
+  }),
+}).superRefine((data, ctx) => {
+  PROFILE_METRICS.forEach((field) => {
+    // Bio length comes from the bio text when one is given
+    if (field === 'bio_length' && data.bio?.trim()) return;
+    if (!data.unknown[field] && data[field] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'Enter a value or mark it unknown' });
+    }
+  });
 });
 
 type FormData = z.infer<typeof schema>;
 
+const NO_UNKNOWNS: FormData['unknown'] = {
+  account_age: false,
+  posts_count: false,
+  followers_count: false,
+  following_count: false,
+  bio_length: false,
+};
+
+const metricFields: { name: ProfileMetric; label: string; placeholder: string; wide?: boolean }[] = [
+  { name: 'account_age', label: 'Account Age (days)', placeholder: '365' },
+  { name: 'posts_count', label: 'Posts Count', placeholder: '120' },
+  { name: 'followers_count', label: 'Followers', placeholder: '500' },
+  { name: 'following_count', label: 'Following', placeholder: '300' },
+  { name: 'bio_length', label: 'Bio Length (characters)', placeholder: '80', wide: true },
+];
+
+// Optional: left blank they are simply unknown
+const engagementFields: { name: EngagementMetric; label: string; placeholder: string }[] = [
+  { name: 'avg_likes', label: 'Avg Likes', placeholder: '45' },
+  { name: 'avg_comments', label: 'Avg Comments', placeholder: '3' },
+  { name: 'avg_views', label: 'Avg Views', placeholder: '900' },
+];
+
 type AnalysisPhase = 'idle' | 'loading' | 'results';
 
+// analyze-profile echoes back the username flags, cluster and watchlist
+// matches and previous snapshot it computed server-side
+type AnalysisResponse = ScoringResult & {
+  id: string;
+  username_flags: UsernameFlags;
+  username_analysis: UsernameAnalysis;
+  cluster: ClusterMatch | null;
+  impersonation: ImpersonationMatch | null;
+  previous_snapshot: ProfileSnapshot | null;
+  heuristic_score: number;
+  learned_score: number | null;
+  learned_model: string | null;
+};
+
 const labelConfig = {
   fake: {
     label: 'FAKE',
@@ -66,25 +161,37 @@ const impactColor = {
 export default function Dashboard() {
   const { user } = useAuth();
   const [phase, setPhase] = useState<AnalysisPhase>('idle');
-  const [result, setResult] = useState<{ risk_score: number; label: string; top_factors: TopFactor[]; id: string } | null>(null);
+  const [result, setResult] = useState<AnalysisResponse | null>(null);
   const [loadingProgress, setLoadingProgress] = useState(0);
-  const [flags, setFlags] = useState({
-    numbers_heavy: false,
-    no_profile_pic: false,
-    random_characters: false,
-    very_short: false,
-  });
+  const [platform, setPlatform] = useState<Platform>('Unknown');
+  const [submittedInput, setSubmittedInput] = useState<ProfileInput | null>(null);
+  const { data: scoringConfig } = useActiveScoringConfig();
+  const [noProfilePic, setNoProfilePic] = useState(false);
 
-  // URL scraping state
+  // URL scraping state; paste mode sends page source or copied text instead of fetching
+  const [scrapeMode, setScrapeMode] = useState<'url' | 'paste'>('url');
   const [scrapeUrl, setScrapeUrl] = useState('');
+  const [pastedPage, setPastedPage] = useState('');
   const [isScraping, setIsScraping] = useState(false);
   const [scrapeConfidence, setScrapeConfidence] = useState<'high' | 'medium' | 'low' | null>(null);
   const [scrapePlatform, setScrapePlatform] = useState<string | null>(null);
   const [scrapeNotes, setScrapeNotes] = useState<string | null>(null);
+  const [scrapeImpersonation, setScrapeImpersonation] = useState<ImpersonationMatch | null>(null);
+  const [provenance, setProvenance] = useState<Partial<Record<ExtractedField, FieldProvenance>>>({});
 
-  const { register, handleSubmit, formState: { errors }, reset } = useForm<FormData>({
+  const { register, handleSubmit, formState: { errors, dirtyFields }, reset, watch, setValue } = useForm<FormData>({
     resolver: zodResolver(schema),
+    defaultValues: { unknown: NO_UNKNOWNS },
   });
+  const unknownFields = watch('unknown');
+  const usernameValue = watch('username');
+  const displayNameValue = watch('display_name');
+  const bioText = watch('bio')?.trim() ? watch('bio') : null;
+  // Evidence for an auto-filled value, until the analyst edits it
+  const evidenceFor = (field: ExtractedField) =>
+    ((dirtyFields as Record<string, unknown>)[field] ? undefined : provenance[field]);
+  // Preview of the flags analyze-profile will compute from the handle
+  const usernamePreview = useMemo(() => analyzeUsername(usernameValue ?? ''), [usernameValue]);
 
   // Recent scans
   const { data: recentScans, refetch: refetchScans } = useQuery({
@@ -127,6 +234,20 @@ export default function Dashboard() {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) throw new Error('Not authenticated');
 
+      const bio = data.bio?.trim() ? data.bio : null;
+      const followers = parseFollowerSample(data.follower_sample ?? '').entries;
+      const input = {
+        username: data.username,
+        display_name: data.display_name?.trim() ? data.display_name : null,
+        ...Object.fromEntries(PROFILE_METRICS.map((f) => [f, data.unknown[f] ? null : data[f]])),
+        ...Object.fromEntries(ENGAGEMENT_METRICS.map((f) => [f, data[f] ?? null])),
+        ...(bio !== null && { bio, bio_length: analyzeBio(bio).length }),
+        post_timestamps: parseTimestamps(timestampLines(data.post_timestamps)).map((d) => d.toISOString()),
+        follower_sample: followers.length ? followers : null,
+        platform,
+        username_flags: { no_profile_pic: noProfilePic },
+      } as ProfileInput;
+
       const res = await fetch(
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-profile`,
         {
@@ -135,17 +256,24 @@ export default function Dashboard() {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({ ...data, username_flags: flags }),
+          body: JSON.stringify(input),
         }
       );
 
       if (!res.ok) throw new Error('Analysis failed');
 
-      const analysisResult = await res.json();
+      const analysisResult: AnalysisResponse = await res.json();
       setLoadingProgress(100);
 
       setTimeout(() => {
         setResult(analysisResult);
+        setSubmittedInput({
+          ...input,
+          username_flags: analysisResult.username_flags,
+          cluster: analysisResult.cluster,
+          impersonation: analysisResult.impersonation,
+          previous_snapshot: analysisResult.previous_snapshot,
+        });
         setPhase('results');
         refetchScans();
       }, 400);
@@ -157,12 +285,16 @@ export default function Dashboard() {
     }
   };
 
+  const canScrape = scrapeMode === 'url' ? !!scrapeUrl.trim() : !!pastedPage.trim();
+
   const handleScrape = async () => {
-    if (!scrapeUrl.trim()) return;
+    if (!canScrape) return;
     setIsScraping(true);
     setScrapeConfidence(null);
     setScrapePlatform(null);
     setScrapeNotes(null);
+    setScrapeImpersonation(null);
+    setProvenance({});
 
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -176,7 +308,9 @@ export default function Dashboard() {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${session.access_token}`,
           },
-          body: JSON.stringify({ url: scrapeUrl }),
+          body: JSON.stringify(scrapeMode === 'url'
+            ? { url: scrapeUrl }
+            : { url: scrapeUrl.trim() || undefined, content: pastedPage }),
         }
       );
 
@@ -184,21 +318,27 @@ export default function Dashboard() {
       if (!res.ok || !data.success) throw new Error(data.error || 'Scrape failed');
 
       const p = data.profile;
-      // Auto-fill the form
+      // Auto-fill the form; metrics the scraper couldn't find are marked unknown
       reset({
         username: p.username,
-        account_age: p.account_age,
-        posts_count: p.posts_count,
-        followers_count: p.followers_count,
-        following_count: p.following_count,
-        bio_length: p.bio_length,
+        display_name: p.display_name ?? '',
+        ...Object.fromEntries(PROFILE_METRICS.map((f) => [f, p[f] ?? undefined])),
+        ...Object.fromEntries(ENGAGEMENT_METRICS.map((f) => [f, p[f] ?? undefined])),
+        bio: p.bio ?? '',
+        post_timestamps: (p.post_timestamps ?? []).join('\n'),
+        unknown: Object.fromEntries(PROFILE_METRICS.map((f) => [f, p[f] === null])) as FormData['unknown'],
       });
-      setFlags(p.username_flags);
+      setNoProfilePic(!!p.username_flags?.no_profile_pic);
+      setPlatform(data.platform);
       setScrapeConfidence(data.confidence);
       setScrapePlatform(data.platform);
       setScrapeNotes(data.notes);
+      setScrapeImpersonation(data.impersonation ?? null);
+      setProvenance(data.provenance ?? {});
 
-      toast.success(`Profile data scraped from ${data.platform}! Review & run analysis.`);
+      toast.success(scrapeMode === 'url'
+        ? `Profile data scraped from ${data.platform}! Review & run analysis.`
+        : 'Profile data extracted from the pasted page. Review & run analysis.');
     } catch (err) {
       console.error(err);
       toast.error(err instanceof Error ? err.message : 'Failed to scrape profile');
@@ -210,13 +350,18 @@ export default function Dashboard() {
   const handleReset = () => {
     setPhase('idle');
     setResult(null);
+    setSubmittedInput(null);
     setLoadingProgress(0);
     setScrapeUrl('');
+    setPastedPage('');
     setScrapeConfidence(null);
     setScrapePlatform(null);
     setScrapeNotes(null);
+    setScrapeImpersonation(null);
+    setProvenance({});
     reset();
-    setFlags({ numbers_heavy: false, no_profile_pic: false, random_characters: false, very_short: false });
+    setPlatform('Unknown');
+    setNoProfilePic(false);
   };
 
   const cfg = result ? labelConfig[result.label as keyof typeof labelConfig] : null;
@@ -247,25 +392,67 @@ export default function Dashboard() {
                   <CardDescription className="text-xs">
                     Paste a public profile URL — we'll scrape the data and fill the form automatically.
                     Supports Instagram, Twitter/X, TikTok, Reddit, YouTube, LinkedIn and more.
+                    For profiles behind a login, paste the page source or text copied from your browser instead.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                  <div className="flex gap-2">
-                    <div className="relative flex-1">
-                      <Link2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                      <Input
-                        placeholder="https://instagram.com/username"
-                        className="pl-9"
-                        value={scrapeUrl}
-                        onChange={(e) => setScrapeUrl(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleScrape()}
+                  <Tabs value={scrapeMode} onValueChange={(v) => setScrapeMode(v as 'url' | 'paste')}>
+                    <TabsList className="h-8">
+                      <TabsTrigger value="url" className="text-xs">
+                        <Link2 className="mr-1.5 h-3.5 w-3.5" />
+                        Profile URL
+                      </TabsTrigger>
+                      <TabsTrigger value="paste" className="text-xs">
+                        <ClipboardPaste className="mr-1.5 h-3.5 w-3.5" />
+                        Paste page
+                      </TabsTrigger>
+                    </TabsList>
+
+                    <TabsContent value="url">
+                      <div className="flex gap-2">
+                        <div className="relative flex-1">
+                          <Link2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                          <Input
+                            placeholder="https://instagram.com/username"
+                            className="pl-9"
+                            value={scrapeUrl}
+                            onChange={(e) => setScrapeUrl(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleScrape()}
+                            disabled={isScraping}
+                          />
+                        </div>
+                        <Button onClick={handleScrape} disabled={isScraping || !canScrape} size="sm">
+                          {isScraping ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Scrape'}
+                        </Button>
+                      </div>
+                    </TabsContent>
+
+                    <TabsContent value="paste" className="space-y-2">
+                      <Textarea
+                        placeholder="Paste the page source (View Source → Select All → Copy) or the text copied from the profile page"
+                        rows={6}
+                        className="font-mono text-xs"
+                        value={pastedPage}
+                        onChange={(e) => setPastedPage(e.target.value)}
                         disabled={isScraping}
                       />
-                    </div>
-                    <Button onClick={handleScrape} disabled={isScraping || !scrapeUrl.trim()} size="sm">
-                      {isScraping ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Scrape'}
-                    </Button>
-                  </div>
+                      <div className="flex gap-2">
+                        <div className="relative flex-1">
+                          <Link2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                          <Input
+                            placeholder="Profile URL (optional — helps detect the platform and handle)"
+                            className="pl-9"
+                            value={scrapeUrl}
+                            onChange={(e) => setScrapeUrl(e.target.value)}
+                            disabled={isScraping}
+                          />
+                        </div>
+                        <Button onClick={handleScrape} disabled={isScraping || !canScrape} size="sm">
+                          {isScraping ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Extract'}
+                        </Button>
+                      </div>
+                    </TabsContent>
+                  </Tabs>
 
                   {scrapePlatform && scrapeConfidence && (
                     <div className="flex flex-wrap items-center gap-2 rounded-md border bg-card p-2.5 text-xs">
@@ -282,11 +469,18 @@ export default function Dashboard() {
                           {scrapeNotes}
                         </span>
                       )}
+                      {scrapeImpersonation && (
+                        <span className="flex basis-full items-center gap-1 font-medium text-risk-fake">
+                          <ShieldAlert className="h-3 w-3" />
+                          Resembles protected handle @{scrapeImpersonation.handle}
+                          {scrapeImpersonation.label && <> ({scrapeImpersonation.label})</>} — {scrapeImpersonation.reasons.join('; ')}
+                        </span>
+                      )}
                     </div>
                   )}
 
                   <p className="text-xs text-muted-foreground">
-                    ⚠️ Only works on public profiles. Some platforms (Instagram, Twitter) may restrict scraping — review extracted data before running analysis.
+                    ⚠️ URL scraping only works on public profiles, and some platforms (Instagram, Twitter) may restrict it — use Paste page for those. Review extracted data before running analysis.
                   </p>
                 </CardContent>
               </Card>
@@ -306,64 +500,151 @@ export default function Dashboard() {
                 <CardContent>
                   <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
                     <div className="grid gap-4 sm:grid-cols-2">
-                      <div className="space-y-1.5 sm:col-span-2">
-                        <Label htmlFor="username">Username</Label>
+                      <div className="space-y-1.5">
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor="username">Username</Label>
+                          <FieldProvenanceBadge provenance={evidenceFor('username')} />
+                        </div>
                         <Input id="username" placeholder="@handle" {...register('username')} />
                         {errors.username && <p className="text-xs text-destructive">{errors.username.message}</p>}
                       </div>
 
                       <div className="space-y-1.5">
-                        <Label htmlFor="account_age">Account Age (days)</Label>
-                        <Input id="account_age" type="number" placeholder="365" {...register('account_age')} />
-                        {errors.account_age && <p className="text-xs text-destructive">{errors.account_age.message}</p>}
+                        <Label htmlFor="platform">Platform</Label>
+                        <Select value={platform} onValueChange={(v) => setPlatform(v as Platform)}>
+                          <SelectTrigger id="platform"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {PLATFORMS.map((p) => (
+                              <SelectItem key={p} value={p}>{p}</SelectItem>
+                            ))}
+                            <SelectItem value="Unknown">Other / Unknown</SelectItem>
+                          </SelectContent>
+                        </Select>
                       </div>
 
-                      <div className="space-y-1.5">
-                        <Label htmlFor="posts_count">Posts Count</Label>
-                        <Input id="posts_count" type="number" placeholder="120" {...register('posts_count')} />
-                        {errors.posts_count && <p className="text-xs text-destructive">{errors.posts_count.message}</p>}
+                      <div className="space-y-1.5 sm:col-span-2">
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor="display_name">Display Name <span className="font-normal text-muted-foreground">(optional)</span></Label>
+                          <FieldProvenanceBadge provenance={evidenceFor('display_name')} />
+                        </div>
+                        <Input id="display_name" placeholder="Name shown on the profile" {...register('display_name')} />
+                        {errors.display_name && <p className="text-xs text-destructive">{errors.display_name.message}</p>}
                       </div>
 
-                      <div className="space-y-1.5">
-                        <Label htmlFor="followers_count">Followers</Label>
-                        <Input id="followers_count" type="number" placeholder="500" {...register('followers_count')} />
-                        {errors.followers_count && <p className="text-xs text-destructive">{errors.followers_count.message}</p>}
+                      {metricFields.map(({ name, label, placeholder, wide }) => (
+                        <div key={name} className={`space-y-1.5 ${wide ? 'sm:col-span-2' : ''}`}>
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              <Label htmlFor={name}>{label}</Label>
+                              <FieldProvenanceBadge provenance={evidenceFor(name)} />
+                            </div>
+                            <label className="flex cursor-pointer items-center gap-1.5 text-xs text-muted-foreground">
+                              <Checkbox
+                                checked={unknownFields[name]}
+                                onCheckedChange={(checked) =>
+                                  setValue(`unknown.${name}`, !!checked, { shouldValidate: !!errors[name] })
+                                }
+                              />
+                              Unknown
+                            </label>
+                          </div>
+                          {name === 'bio_length' && bioText ? (
+                            <div className="flex h-10 items-center rounded-md border bg-muted/40 px-3 text-sm text-muted-foreground">
+                              {analyzeBio(bioText).length} — taken from the bio text
+                            </div>
+                          ) : unknownFields[name] ? (
+                            <div className="flex h-10 items-center rounded-md border border-dashed bg-muted/40 px-3 text-sm text-muted-foreground">
+                              Unknown — this signal will be skipped
+                            </div>
+                          ) : (
+                            <Input id={name} type="number" placeholder={placeholder} {...register(name)} />
+                          )}
+                          {errors[name] && <p className="text-xs text-destructive">{errors[name]?.message}</p>}
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="space-y-1.5">
+                      <Label>Engagement per Post (optional)</Label>
+                      <div className="grid gap-4 sm:grid-cols-3">
+                        {engagementFields.map(({ name, label, placeholder }) => (
+                          <div key={name} className="space-y-1">
+                            <div className="flex items-center gap-1.5">
+                              <Label htmlFor={name} className="text-xs text-muted-foreground">{label}</Label>
+                              <FieldProvenanceBadge provenance={evidenceFor(name)} />
+                            </div>
+                            <Input id={name} type="number" step="any" placeholder={placeholder} {...register(name)} />
+                            {errors[name] && <p className="text-xs text-destructive">{errors[name]?.message}</p>}
+                          </div>
+                        ))}
                       </div>
+                    </div>
 
-                      <div className="space-y-1.5">
-                        <Label htmlFor="following_count">Following</Label>
-                        <Input id="following_count" type="number" placeholder="300" {...register('following_count')} />
-                        {errors.following_count && <p className="text-xs text-destructive">{errors.following_count.message}</p>}
+                    <div className="space-y-1.5">
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="bio">Bio Text (optional)</Label>
+                        <FieldProvenanceBadge provenance={evidenceFor('bio')} />
                       </div>
+                      <Textarea
+                        id="bio"
+                        rows={3}
+                        placeholder="Paste the profile bio to check it for spam, links and contact requests"
+                        {...register('bio')}
+                      />
+                      {errors.bio && <p className="text-xs text-destructive">{errors.bio.message}</p>}
+                    </div>
 
-                      <div className="space-y-1.5 sm:col-span-2">
-                        <Label htmlFor="bio_length">Bio Length (characters)</Label>
-                        <Input id="bio_length" type="number" placeholder="80" {...register('bio_length')} />
-                        {errors.bio_length && <p className="text-xs text-destructive">{errors.bio_length.message}</p>}
+                    <div className="space-y-1.5">
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="post_timestamps">Recent Post Times (optional)</Label>
+                        <FieldProvenanceBadge provenance={evidenceFor('post_timestamps')} />
                       </div>
+                      <Textarea
+                        id="post_timestamps"
+                        rows={3}
+                        className="font-mono text-xs"
+                        placeholder={'One per line, e.g.\n2026-03-01T14:05:00Z\n2026-03-02 09:40'}
+                        {...register('post_timestamps')}
+                      />
+                      {errors.post_timestamps && <p className="text-xs text-destructive">{errors.post_timestamps.message}</p>}
                     </div>
 
-                    {/* Username flags */}
+                    <div className="space-y-1.5">
+                      <Label htmlFor="follower_sample">Follower Sample (optional)</Label>
+                      <Textarea
+                        id="follower_sample"
+                        rows={4}
+                        className="font-mono text-xs"
+                        placeholder={'One follower per line: handle, then optionally\nage days, posts, followers, following, bio length\n@anna_k\n@user_88213, 12, 0, 3, 950, 0'}
+                        {...register('follower_sample')}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Each follower is scored with the same rules; a high share of fake followers counts against this profile.
+                      </p>
+                      {errors.follower_sample && <p className="text-xs text-destructive">{errors.follower_sample.message}</p>}
+                    </div>
+
+                    {/* Username signals — computed from the handle, not editable */}
                     <div className="space-y-2">
-                      <Label>Username Flags</Label>
-                      <div className="grid grid-cols-2 gap-2">
-                        {([
-                          ['numbers_heavy', 'Numbers-heavy username'],
-                          ['no_profile_pic', 'No profile picture'],
-                          ['random_characters', 'Random characters'],
-                          ['very_short', 'Very short username'],
-                        ] as const).map(([key, label]) => (
-                          <label key={key} className="flex cursor-pointer items-center gap-2 text-sm">
-                            <Checkbox
-                              checked={flags[key]}
-                              onCheckedChange={(checked) =>
-                                setFlags((f) => ({ ...f, [key]: !!checked }))
-                              }
-                            />
-                            {label}
-                          </label>
-                        ))}
-                      </div>
+                      <Label>Username Signals</Label>
+                      {usernameValue?.trim() ? (
+                        <>
+                          <UsernameEvidence analysis={usernamePreview} />
+                          <NameCharacterFindings
+                            names={[
+                              { field: 'username', text: usernameValue },
+                              { field: 'display_name', text: displayNameValue ?? '' },
+                            ]}
+                          />
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">Detected automatically from the username.</p>
+                      )}
+                      <label className="flex cursor-pointer items-center gap-2 pt-1 text-sm">
+                        <Checkbox checked={noProfilePic} onCheckedChange={(checked) => setNoProfilePic(!!checked)} />
+                        No profile picture
+                        <FieldProvenanceBadge provenance={provenance.has_profile_pic} />
+                      </label>
                     </div>
 
                     <Button type="submit" className="w-full" size="lg">
@@ -431,6 +712,24 @@ export default function Dashboard() {
                         <p className="mt-3 text-sm text-muted-foreground">
                           Risk score of <strong>{result.risk_score}/100</strong> — this account was classified as <strong>{result.label}</strong> based on the signals below.
                         </p>
+                        {result.unknown_metrics.length > 0 && (
+                          <p className="mt-2 flex items-start gap-1.5 text-xs text-risk-suspicious">
+                            <Info className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                            <span>
+                              <strong className="capitalize">{result.confidence}</strong> confidence — {result.unknown_metrics.length} metric{result.unknown_metrics.length !== 1 ? 's were' : ' was'} unknown
+                              ({result.unknown_metrics.map((m) => m.replace('_', ' ')).join(', ')}) and the signals depending on {result.unknown_metrics.length !== 1 ? 'them were' : 'it were'} skipped.
+                            </span>
+                          </p>
+                        )}
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Scored by model <span className="font-mono">{result.model_version}</span> against the {result.platform === 'Unknown' ? 'generic' : result.platform} baseline
+                        </p>
+                        {result.learned_model && (
+                          <p className="mt-0.5 text-xs text-muted-foreground">
+                            Rule-based score <strong>{result.heuristic_score}</strong> · learned score <strong>{result.learned_score}</strong>
+                            {' '}(<span className="font-mono">{result.learned_model}</span>)
+                          </p>
+                        )}
                         <div className="mt-3 flex flex-wrap gap-2">
                           <Button size="sm" variant="outline" onClick={handleReset}>
                             <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
@@ -442,7 +741,67 @@ export default function Dashboard() {
                   </CardContent>
                 </Card>
 
-                {/* Top factors */}
+                {/* Username evidence */}
+                {result.username_analysis && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm">Username Analysis</CardTitle>
+                      <CardDescription className="text-xs">Patterns detected in the handle, plus lookalike or hidden characters in either name.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <UsernameEvidence analysis={result.username_analysis} />
+                      <NameCharacterFindings
+                        names={[
+                          { field: 'username', text: submittedInput?.username ?? '' },
+                          { field: 'display_name', text: submittedInput?.display_name ?? '' },
+                        ]}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Posting cadence */}
+                {submittedInput?.post_timestamps && submittedInput.post_timestamps.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm">Posting Cadence</CardTitle>
+                      <CardDescription className="text-xs">When the recent posts went out, by day and hour.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <CadenceHeatmap timestamps={submittedInput.post_timestamps} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Follower sample */}
+                {result.follower_breakdown && result.follower_breakdown.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm">Follower Sample</CardTitle>
+                      <CardDescription className="text-xs">How each sampled follower scored on its own.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <FollowerBreakdown followers={result.follower_breakdown} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Score breakdown */}
+                {result.top_factors.length > 0 && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm">Score Breakdown</CardTitle>
+                      <CardDescription className="text-xs">
+                        How each signal moved the {result.heuristic_score !== result.risk_score && 'rule-based '}score from 0 to {result.heuristic_score}.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ScoreWaterfall factors={result.top_factors} score={result.heuristic_score} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Factors */}
                 <div className="grid gap-3 sm:grid-cols-2">
                   {(result.top_factors as TopFactor[]).map((f, i) => (
                     <Card key={i} className="border">
@@ -451,15 +810,23 @@ export default function Dashboard() {
                           <span className={`mt-0.5 text-xs font-bold uppercase ${impactColor[f.impact]}`}>
                             {f.impact}
                           </span>
-                          <div>
+                          <div className="flex-1">
                             <p className="text-sm font-medium">{f.factor}</p>
                             <p className="mt-0.5 text-xs text-muted-foreground">{f.description}</p>
                           </div>
+                          {f.points !== undefined && (
+                            <span className="font-mono text-sm font-semibold">{f.points >= 0 ? '+' : ''}{f.points}</span>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
                   ))}
                 </div>
+
+                {/* What-if */}
+                {submittedInput && scoringConfig && (
+                  <WhatIfPanel key={result.id} input={submittedInput} config={scoringConfig} />
+                )}
               </div>
             )}
           </div>
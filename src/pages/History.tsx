@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import {
@@ -7,11 +7,21 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Navbar } from '@/components/Navbar';
+import { CadenceHeatmap } from '@/components/CadenceHeatmap';
+import { FollowerBreakdown } from '@/components/FollowerBreakdown';
+import { ScoreWaterfall } from '@/components/ScoreWaterfall';
+import { UsernameEvidence } from '@/components/UsernameEvidence';
+import { HighlightedName, NameCharacterFindings } from '@/components/NameCharacters';
+import { ProfileTimeline } from '@/components/ProfileTimeline';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { AnalysisResult, TopFactor } from '@/types';
+import { formatMetric } from '@/lib/utils';
+import { profileKey } from '@/lib/scoring';
 
 type FilterLabel = 'all' | 'real' | 'suspicious' | 'fake';
 type SortField = 'created_at' | 'risk_score' | 'username';
@@ -45,16 +55,21 @@ const impactColor = {
 };
 
 function exportCSV(results: AnalysisResult[]) {
-  const headers = ['Username', 'Risk Score', 'Label', 'Account Age', 'Posts', 'Followers', 'Following', 'Bio Length', 'Date'];
+  const headers = ['Username', 'Risk Score', 'Label', 'Account Age', 'Posts', 'Followers', 'Following', 'Bio Length', 'Avg Likes', 'Avg Comments', 'Avg Views', 'Platform', 'Model Version', 'Date'];
   const rows = results.map((r) => [
     r.username,
     r.risk_score,
     r.label,
-    r.account_age,
-    r.posts_count,
-    r.followers_count,
-    r.following_count,
-    r.bio_length,
+    r.account_age ?? '',
+    r.posts_count ?? '',
+    r.followers_count ?? '',
+    r.following_count ?? '',
+    r.bio_length ?? '',
+    r.avg_likes ?? '',
+    r.avg_comments ?? '',
+    r.avg_views ?? '',
+    r.platform,
+    r.model_version,
     format(new Date(r.created_at), 'yyyy-MM-dd HH:mm'),
   ]);
   const csv = [headers, ...rows].map((row) => row.join(',')).join('\n');
@@ -74,6 +89,7 @@ export default function History() {
   const [sortField, setSortField] = useState<SortField>('created_at');
   const [sortDir, setSortDir] = useState<SortDir>('desc');
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [groupByProfile, setGroupByProfile] = useState(false);
 
   const { data: results = [], isLoading } = useQuery({
     queryKey: ['history', user?.id],
@@ -88,8 +104,24 @@ export default function History() {
     enabled: !!user,
   });
 
-  // Filter + search + sort
+  // Every scan of each profile, oldest first, for timelines
+  const scansByProfile = useMemo(() => {
+    const groups = new Map<string, AnalysisResult[]>();
+    for (const r of [...results].reverse()) {
+      const key = profileKey(r.platform, r.username);
+      groups.set(key, [...(groups.get(key) ?? []), r]);
+    }
+    return groups;
+  }, [results]);
+  const scansOf = (r: AnalysisResult) => scansByProfile.get(profileKey(r.platform, r.username)) ?? [r];
+
+  // Filter + search + sort; grouped, each profile is represented by its latest scan
   const filtered = results
+    .filter((r) => {
+      if (!groupByProfile) return true;
+      const scans = scansOf(r);
+      return scans[scans.length - 1].id === r.id;
+    })
     .filter((r) => filterLabel === 'all' || r.label === filterLabel)
     .filter((r) => !search || r.username.toLowerCase().includes(search.toLowerCase()));
 
@@ -165,6 +197,10 @@ export default function History() {
                   onChange={(e) => setSearch(e.target.value)}
                 />
               </div>
+              <label className="flex cursor-pointer items-center gap-2 text-xs text-muted-foreground">
+                <Switch checked={groupByProfile} onCheckedChange={setGroupByProfile} />
+                Group by profile
+              </label>
               <div className="flex items-center gap-1">
                 <Filter className="h-3.5 w-3.5 text-muted-foreground mr-1" />
                 {(['all', 'real', 'suspicious', 'fake'] as FilterLabel[]).map((tab) => (
@@ -212,6 +248,7 @@ export default function History() {
                 {sorted.map((row) => {
                   const cfg = labelConfig[row.label as keyof typeof labelConfig];
                   const isExpanded = expandedId === row.id;
+                  const scans = scansOf(row);
                   return (
                     <div key={row.id}>
                       <div
@@ -221,7 +258,13 @@ export default function History() {
                         {/* Username */}
                         <div className="col-span-4 flex items-center gap-2 min-w-0">
                           <User className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
-                          <span className="truncate text-sm font-medium">{row.username}</span>
+                          <HighlightedName text={row.username} field="username" className="truncate text-sm font-medium" />
+                          {row.platform !== 'Unknown' && (
+                            <span className="flex-shrink-0 text-xs text-muted-foreground">{row.platform}</span>
+                          )}
+                          {scans.length > 1 && (
+                            <Badge variant="secondary" className="flex-shrink-0 px-1.5 text-[10px]">{scans.length} scans</Badge>
+                          )}
                         </div>
 
                         {/* Risk score bar */}
@@ -256,31 +299,111 @@ export default function History() {
                           {/* Input metrics */}
                           <div className="mb-4 grid grid-cols-2 gap-2 sm:grid-cols-3 lg:grid-cols-6">
                             {[
-                              { label: 'Account Age', value: `${row.account_age}d` },
-                              { label: 'Posts', value: row.posts_count },
-                              { label: 'Followers', value: row.followers_count.toLocaleString() },
-                              { label: 'Following', value: row.following_count.toLocaleString() },
-                              { label: 'Bio Length', value: `${row.bio_length}c` },
+                              { label: 'Account Age', value: formatMetric(row.account_age, 'd') },
+                              { label: 'Posts', value: formatMetric(row.posts_count) },
+                              { label: 'Followers', value: formatMetric(row.followers_count) },
+                              { label: 'Following', value: formatMetric(row.following_count) },
+                              { label: 'Bio Length', value: formatMetric(row.bio_length, 'c') },
                               { label: 'Risk Score', value: row.risk_score },
+                              ...(row.learned_model ? [
+                                { label: 'Rule-Based Score', value: row.heuristic_score ?? '—' },
+                                { label: `Learned (${row.learned_model})`, value: row.learned_score ?? '—' },
+                              ] : []),
+                              ...(row.avg_likes !== null || row.avg_comments !== null || row.avg_views !== null ? [
+                                { label: 'Avg Likes', value: formatMetric(row.avg_likes) },
+                                { label: 'Avg Comments', value: formatMetric(row.avg_comments) },
+                                { label: 'Avg Views', value: formatMetric(row.avg_views) },
+                              ] : []),
                             ].map(({ label, value }) => (
                               <div key={label} className="rounded-md border bg-card p-2.5">
                                 <p className="text-xs text-muted-foreground">{label}</p>
-                                <p className="mt-0.5 text-sm font-semibold">{value}</p>
+                                <p className={`mt-0.5 text-sm font-semibold ${value === 'Unknown' ? 'text-muted-foreground' : ''}`}>{value}</p>
                               </div>
                             ))}
                           </div>
 
-                          {/* Top factors */}
-                          <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Detection Factors</p>
+                          {/* Score breakdown */}
+                          {row.top_factors.length > 0 && (
+                            <div className="mb-4 rounded-md border bg-card p-3">
+                              <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Score Breakdown</p>
+                              <ScoreWaterfall factors={row.top_factors} score={row.heuristic_score ?? row.risk_score} />
+                            </div>
+                          )}
+
+                          {/* Bio text */}
+                          {row.bio && (
+                            <div className="mb-4 rounded-md border bg-card p-3">
+                              <p className="mb-1 text-xs font-semibold uppercase text-muted-foreground">Bio</p>
+                              <p className="whitespace-pre-wrap break-words text-sm">{row.bio}</p>
+                            </div>
+                          )}
+
+                          {/* Timeline across repeated scans */}
+                          {scans.length > 1 && (
+                            <div className="mb-4 rounded-md border bg-card p-3">
+                              <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Profile Timeline · {scans.length} scans</p>
+                              <ProfileTimeline scans={scans} />
+                            </div>
+                          )}
+
+                          {/* Posting cadence */}
+                          {row.post_timestamps && row.post_timestamps.length > 0 && (
+                            <div className="mb-4 rounded-md border bg-card p-3">
+                              <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Posting Cadence</p>
+                              <CadenceHeatmap timestamps={row.post_timestamps} />
+                            </div>
+                          )}
+
+                          {/* Follower sample */}
+                          {row.follower_breakdown && row.follower_breakdown.length > 0 && (
+                            <div className="mb-4 rounded-md border bg-card p-3">
+                              <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Follower Sample</p>
+                              <FollowerBreakdown followers={row.follower_breakdown} />
+                            </div>
+                          )}
+
+                          {/* Username evidence */}
+                          {row.username_analysis && (
+                            <div className="mb-4 rounded-md border bg-card p-3">
+                              <p className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Username Analysis</p>
+                              <div className="space-y-3">
+                                <UsernameEvidence analysis={row.username_analysis} />
+                                <NameCharacterFindings
+                                  names={[
+                                    { field: 'username', text: row.username },
+                                    { field: 'display_name', text: row.display_name ?? '' },
+                                  ]}
+                                />
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Factors */}
+                          <div className="mb-2 flex items-center justify-between">
+                            <p className="text-xs font-semibold uppercase text-muted-foreground">Detection Factors</p>
+                            <div className="flex items-center gap-2">
+                              {row.confidence && row.confidence !== 'high' && (
+                                <span className="rounded-md border border-risk-suspicious/40 px-2 py-0.5 text-xs capitalize text-risk-suspicious">
+                                  {row.confidence} confidence
+                                </span>
+                              )}
+                              <span className="rounded-md border bg-card px-2 py-0.5 font-mono text-xs text-muted-foreground">
+                                {row.model_version}
+                              </span>
+                            </div>
+                          </div>
                           <div className="grid gap-2 sm:grid-cols-2">
                             {(row.top_factors as unknown as TopFactor[]).map((f, i) => (
                               <div key={i} className="rounded-md border bg-card p-3">
                                 <div className="flex items-start gap-2">
                                   <span className={`mt-0.5 text-xs font-bold uppercase ${impactColor[f.impact]}`}>{f.impact}</span>
-                                  <div>
+                                  <div className="flex-1">
                                     <p className="text-xs font-medium">{f.factor}</p>
                                     <p className="mt-0.5 text-xs text-muted-foreground">{f.description}</p>
                                   </div>
+                                  {f.points !== undefined && (
+                                    <span className="font-mono text-xs font-semibold">{f.points >= 0 ? '+' : ''}{f.points}</span>
+                                  )}
                                 </div>
                               </div>
                             ))}
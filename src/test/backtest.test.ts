@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeProfile,
+  backtest,
+  DEFAULT_SCORING_CONFIG,
+  storedInput,
+  type ScoringConfig,
+  type StoredAnalysis,
+} from "@/lib/scoring";
+
+const row = (id: string, overrides: Partial<StoredAnalysis> = {}): StoredAnalysis => ({
+  id,
+  username: `user_${id}`,
+  display_name: null,
+  platform: "Instagram",
+  created_at: "2026-04-01T12:00:00Z",
+  account_age: 900,
+  posts_count: 340,
+  followers_count: 5200,
+  following_count: 410,
+  bio_length: 96,
+  bio: null,
+  avg_likes: null,
+  avg_comments: null,
+  avg_views: null,
+  post_timestamps: null,
+  follower_sample: null,
+  cluster: null,
+  impersonation: null,
+  previous_snapshot: null,
+  username_flags: null,
+  ...overrides,
+});
+
+const rows = [
+  row("a"),
+  row("b", { account_age: 5, posts_count: 0, followers_count: 12, following_count: 4800, bio_length: 0 }),
+  row("c", { account_age: 40, posts_count: 3, followers_count: 90, following_count: 1900, bio_length: 0 }),
+];
+
+describe("storedInput", () => {
+  it("scores a stored row the same as the original input", () => {
+    const stored = row("b", { account_age: 5, posts_count: 0, followers_count: 12, following_count: 4800, bio_length: 0 });
+    const input = storedInput(stored);
+    expect(input.username_flags).toEqual({});
+    expect(analyzeProfile(input).risk_score).toBe(
+      analyzeProfile({ ...input, username: "user_b", platform: "Instagram" }).risk_score,
+    );
+  });
+});
+
+describe("backtest", () => {
+  it("reports no changes when the candidate matches the live rules", () => {
+    const report = backtest(rows, DEFAULT_SCORING_CONFIG, DEFAULT_SCORING_CONFIG);
+    expect(report.total).toBe(3);
+    expect(report.label_changes).toBe(0);
+    expect(report.changes).toEqual([]);
+    expect(report.mean_after).toBe(report.mean_before);
+    expect(report.distribution.reduce((n, b) => n + b.before, 0)).toBe(3);
+  });
+
+  it("counts label transitions when the thresholds move", () => {
+    const strict: ScoringConfig = { ...DEFAULT_SCORING_CONFIG, version: "draft", thresholds: { suspicious: 1, fake: 2 } };
+    const report = backtest(rows, strict, DEFAULT_SCORING_CONFIG);
+    const before = rows.map((r) => analyzeProfile(storedInput(r)));
+
+    expect(report.transitions[before[1].label].fake).toBeGreaterThan(0);
+    expect(report.label_changes).toBe(before.filter((r) => r.label !== "fake" && r.risk_score >= 2).length);
+    // Thresholds only relabel: scores and the distribution stay put
+    expect(report.mean_after).toBe(report.mean_before);
+    expect(report.distribution.every((b) => b.before === b.after)).toBe(true);
+    expect(report.changes.every((c) => c.score_before === c.score_after && c.label_after === "fake")).toBe(true);
+  });
+
+  it("lists the factors a disabled rule group removes, biggest moves first", () => {
+    const candidate: ScoringConfig = {
+      ...DEFAULT_SCORING_CONFIG,
+      version: "draft",
+      rules: DEFAULT_SCORING_CONFIG.rules.map((r) => (r.group === "account_age" ? { ...r, enabled: false } : r)),
+    };
+    const report = backtest(rows, candidate, DEFAULT_SCORING_CONFIG);
+
+    expect(report.changes.length).toBeGreaterThan(0);
+    expect(report.mean_after).toBeLessThan(report.mean_before);
+    expect(report.changes.every((c) => c.factors_added.length === 0 && c.score_after <= c.score_before)).toBe(true);
+    expect(report.changes.some((c) => c.factors_removed.length > 0)).toBe(true);
+    const labelMoves = report.changes.map((c) => c.label_before !== c.label_after);
+    expect(labelMoves).toEqual([...labelMoves].sort((a, b) => Number(b) - Number(a)));
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { analyzeBio, analyzeProfile, type ProfileInput } from "@/lib/scoring";
+
+const established: ProfileInput = {
+  username: "jane_doe",
+  account_age: 900,
+  posts_count: 340,
+  followers_count: 520,
+  following_count: 410,
+  bio_length: null,
+  username_flags: {},
+};
+
+describe("analyzeBio", () => {
+  it("finds nothing in an ordinary bio", () => {
+    const result = analyzeBio("Nurse, runner and amateur baker. Dog mum to Pepper.");
+    expect(result.spam_keywords).toEqual([]);
+    expect(result.links).toEqual([]);
+    expect(result.templates).toEqual([]);
+    expect(result.contact_channels).toEqual([]);
+  });
+
+  it("detects scam keywords, shorteners and contact solicitation", () => {
+    const result = analyzeBio("Bitcoin & forex account manager 💰 guaranteed profit! WhatsApp me +1 415 555 0199 bit.ly/x9k2");
+    expect(result.spam_keywords).toEqual(["guaranteed profit", "bitcoin", "forex", "account manager"]);
+    expect(result.shorteners).toEqual(["bit.ly/x9k2"]);
+    expect(result.contact_channels).toEqual(["WhatsApp", "Phone number"]);
+  });
+
+  it("reads phone numbers but not years or date ranges", () => {
+    expect(analyzeBio("Bookings: (415) 555-0199").contact_channels).toEqual(["Phone number"]);
+    expect(analyzeBio("Class of 2010 - 2024").contact_channels).toEqual([]);
+    expect(analyzeBio("Lisbon 1998-2012, Berlin 2012-2024").contact_channels).toEqual([]);
+    expect(analyzeBio("Exhibition 01.02.2019 - 03.04.2021").contact_channels).toEqual([]);
+  });
+
+  it("measures emoji and hashtag density", () => {
+    const result = analyzeBio("#travel #food #love life 🌍✈️");
+    expect(result.hashtag_count).toBe(3);
+    expect(result.hashtag_pct).toBe(60);
+    expect(result.emoji_count).toBe(2);
+  });
+
+  it("does not flag professional bios that only mention a spam topic", () => {
+    expect(analyzeBio("Investment banker at Northgate Capital. Crypto & fintech reporter, ex-Reuters.").spam_keywords).toEqual([]);
+    expect(analyzeBio("Annual giveaway for our customers every December").spam_keywords).toEqual([]);
+  });
+
+  it("recognises stock template bios", () => {
+    expect(analyzeBio("Follow 4 follow 💯 DM for promo").templates).toEqual(["follow-for-follow", "DM for promo"]);
+  });
+});
+
+describe("bio factors", () => {
+  it("scores what the bio says, not only its length", () => {
+    const result = analyzeProfile({
+      ...established,
+      bio: "Crypto investment expert. Daily profit guaranteed. Telegram: t.me/richfast",
+    });
+    expect(result.top_factors.map((f) => f.rule_id)).toEqual(
+      expect.arrayContaining(["bio_scam_keywords", "bio_contact_solicitation"]),
+    );
+    const scam = result.top_factors.find((f) => f.rule_id === "bio_scam_keywords")!;
+    expect(scam.description).toContain('"crypto"');
+    expect(result.risk_score).toBe(27);
+  });
+
+  it("leaves a plain professional bio unscored", () => {
+    const result = analyzeProfile({ ...established, platform: "LinkedIn", bio: "Investment banker at Northgate Capital, covering crypto and fintech." });
+    expect(result.top_factors).toEqual([]);
+  });
+
+  it("derives the bio length from the text", () => {
+    const result = analyzeProfile({ ...established, bio: "" });
+    expect(result.top_factors.map((f) => f.rule_id)).toEqual(["empty_bio"]);
+  });
+
+  it("skips bio content rules when only the length is known", () => {
+    const result = analyzeProfile({ ...established, bio_length: 120 });
+    expect(result.top_factors).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { analyzeCadence, analyzeProfile, type ProfileInput } from "@/lib/scoring";
+
+const established: ProfileInput = {
+  username: "jane_doe",
+  account_age: 900,
+  posts_count: 340,
+  followers_count: 520,
+  following_count: 410,
+  bio_length: 96,
+  username_flags: {},
+};
+
+const start = Date.UTC(2026, 2, 2, 8, 0);
+const at = (minutesFromStart: number) => new Date(start + minutesFromStart * 60_000).toISOString();
+
+// Irregular daytime posting over two weeks
+const human = [0, 95, 610, 1500, 1630, 2990, 4410, 4700, 5820, 7300, 8650, 8790, 10150, 11600, 12980, 14400, 15830, 17200, 18500, 19950]
+  .map(at);
+
+describe("analyzeCadence", () => {
+  it("buckets posts into a day-of-week × hour heatmap", () => {
+    const result = analyzeCadence([at(0), at(5), "not a date"]);
+    expect(result.post_count).toBe(2);
+    expect(result.heatmap[1][8]).toBe(2); // Monday 08:00 UTC
+    expect(result.heatmap.flat().reduce((a, b) => a + b, 0)).toBe(2);
+  });
+
+  it("finds no automation signals in irregular posting", () => {
+    const result = analyzeCadence(human);
+    expect(result.interval_cv).toBeGreaterThan(0.3);
+    expect(result.max_burst).toBeLessThan(5);
+    expect(result.sleep_gap_hours).toBeGreaterThanOrEqual(4);
+  });
+
+  it("measures bursts, sleep gaps and minute offsets", () => {
+    const hourly = Array.from({ length: 96 }, (_, i) => at(i * 60 + 7));
+    const result = analyzeCadence(hourly);
+    expect(result.interval_cv).toBe(0);
+    expect(result.sleep_gap_hours).toBe(0);
+    expect(result.top_minute).toBe(7);
+    expect(result.top_minute_pct).toBe(100);
+    expect(analyzeCadence([0, 1, 2, 3, 4, 60].map(at)).max_burst).toBe(5);
+  });
+});
+
+describe("cadence factors", () => {
+  it("flags scheduler-like posting", () => {
+    const hourly = Array.from({ length: 96 }, (_, i) => at(i * 60 + 7));
+    const ids = analyzeProfile({ ...established, post_timestamps: hourly }).top_factors.map((f) => f.rule_id);
+    expect(ids).toEqual(expect.arrayContaining(["machine_regular_posting", "no_sleep_gap", "identical_minute_offsets"]));
+  });
+
+  it("leaves human posting alone", () => {
+    expect(analyzeProfile({ ...established, post_timestamps: human }).top_factors).toEqual([]);
+  });
+});
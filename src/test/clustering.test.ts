@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeProfile, clusterAnalyses, linkReasons, matchCluster, usernameTemplate,
+  type ClusterCandidate, type ProfileInput,
+} from "@/lib/scoring";
+
+const farm = (id: string, username: string, followers: number, ageDays: number): ClusterCandidate => ({
+  id,
+  username,
+  platform: "Instagram",
+  followers_count: followers,
+  following_count: 950,
+  posts_count: 3,
+  account_age: ageDays,
+  analyzed_at: "2026-04-01T12:00:00Z",
+});
+
+const farmAccounts = [
+  farm("a", "anna_smith4821", 12, 20),
+  farm("b", "mark_jones1937", 14, 22),
+  farm("c", "lily_brown5502", 11, 19),
+  farm("d", "kate_wang8830", 13, 24),
+];
+
+describe("usernameTemplate", () => {
+  it("abstracts letters and digits", () => {
+    expect(usernameTemplate("@Anna_Smith4821")).toBe("a_a9999");
+    expect(usernameTemplate("mark_jones1937")).toBe("a_a9999");
+  });
+});
+
+describe("linkReasons", () => {
+  it("needs two independent signals", () => {
+    expect(linkReasons(farmAccounts[0], farmAccounts[1])).toEqual(["template", "created", "counts"]);
+    // Same template only
+    expect(linkReasons(farmAccounts[0], { ...farmAccounts[1], account_age: 900, followers_count: 5000 })).toBeNull();
+    // Different platforms never link, and unrecognised sites never link at all
+    expect(linkReasons(farmAccounts[0], { ...farmAccounts[1], platform: "TikTok" })).toBeNull();
+    expect(linkReasons({ ...farmAccounts[0], platform: "Unknown" }, { ...farmAccounts[1], platform: "Unknown" })).toBeNull();
+  });
+
+  it("ignores plain word templates", () => {
+    const plain = (id: string, username: string) => ({ ...farm(id, username, 500, 900), following_count: 400 });
+    expect(linkReasons(plain("x", "jane_doe"), { ...plain("y", "john_lee"), account_age: 100, posts_count: 300 })).toBeNull();
+  });
+});
+
+describe("clusterAnalyses", () => {
+  it("groups linked accounts and skips small groups", () => {
+    const loner = { ...farm("z", "jane_doe", 520, 900), following_count: 410, posts_count: 340 };
+    const clusters = clusterAnalyses([...farmAccounts, loner]);
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0]).toMatchObject({
+      platform: "Instagram",
+      username_template: "a_a9999",
+      size: 4,
+      created_from: "2026-03-08",
+      created_to: "2026-03-13",
+    });
+    expect(clusters[0].members.map((m) => m.analysis_id).sort()).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("links accounts created either side of a window boundary", () => {
+    // Created 3, 4 and 5 March; the creation-window buckets split at 5 March 00:00 UTC
+    const plain = ["anna_smith", "markjones", "lily.brown"].map((username, i) => farm(username, username, 12, 27 + i));
+    expect(clusterAnalyses(plain)).toHaveLength(1);
+    expect(clusterAnalyses(plain.map((c) => ({ ...c, platform: "Unknown" })))).toEqual([]);
+  });
+
+  it("collapses re-scans of the same handle", () => {
+    const rescans = [farmAccounts[0], { ...farmAccounts[0], id: "a2", analyzed_at: "2026-04-02T12:00:00Z" }, farmAccounts[1]];
+    expect(clusterAnalyses(rescans)).toEqual([]);
+  });
+});
+
+describe("cluster factor", () => {
+  it("matches a new profile to a stored cluster and scores it", () => {
+    const [cluster] = clusterAnalyses(farmAccounts);
+    const candidate = farm("new", "josh_kim7741", 15, 21);
+    const match = matchCluster(candidate, [{ ...cluster, id: "c1" }]);
+    expect(match).toEqual({ id: "c1", size: 5, signature: cluster.signature });
+
+    const input: ProfileInput = {
+      username: candidate.username,
+      account_age: 900,
+      posts_count: 340,
+      followers_count: 520,
+      following_count: 410,
+      bio_length: 96,
+      username_flags: {},
+      cluster: match,
+    };
+    const factor = analyzeProfile(input).top_factors.find((f) => f.rule_id === "coordinated_cluster");
+    expect(factor?.description).toContain("Part of a cluster of 5 scanned");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeConfusables, analyzeProfile, analyzeUsername, matchProtectedHandle, unicodeSkeleton,
+  type ProfileInput,
+} from "@/lib/scoring";
+
+// Cyrillic "а" (U+0430) and "е" (U+0435) next to Latin letters
+const CYRILLIC_ACME = "\u0430cm\u0435bank";
+
+describe("unicodeSkeleton", () => {
+  it("folds lookalikes, fullwidth letters, diacritics and hidden characters", () => {
+    expect(unicodeSkeleton(CYRILLIC_ACME)).toBe("acmebank");
+    expect(unicodeSkeleton("ａｃｍｅ")).toBe("acme");
+    expect(unicodeSkeleton("acmé\u200Bbank")).toBe("acmebank");
+  });
+});
+
+describe("analyzeConfusables", () => {
+  it("leaves plain ASCII and ordinary non-Latin names alone", () => {
+    const plain = analyzeConfusables("jane_doe", "username");
+    expect(plain.confusables).toEqual([]);
+    expect(plain.mixed_script_words).toEqual([]);
+
+    const russian = analyzeConfusables("Сара Smith", "display_name");
+    expect(russian.confusables).toEqual([]);
+    expect(russian.mixed_script_words).toEqual([]);
+    expect(russian.scripts).toEqual(["Cyrillic", "Latin"]);
+  });
+
+  it("marks lookalikes hidden among Latin letters", () => {
+    const result = analyzeConfusables(CYRILLIC_ACME, "username");
+    expect(result.confusables.map((c) => [c.index, c.codepoint, c.looks_like])).toEqual([
+      [0, "U+0430", "a"],
+      [3, "U+0435", "e"],
+    ]);
+    expect(result.mixed_script_words).toEqual([CYRILLIC_ACME]);
+  });
+
+  it("marks handles spelled entirely in lookalikes", () => {
+    // Cyrillic "сосо" reads as "coco"
+    const result = analyzeConfusables("\u0441\u043E\u0441\u043E", "username");
+    expect(result.confusables).toHaveLength(4);
+    expect(result.mixed_script_words).toEqual([]);
+  });
+
+  it("finds invisible characters but allows emoji joiners", () => {
+    const result = analyzeConfusables("acme\u200Bbank", "username");
+    expect(result.invisible).toEqual([{ index: 4, codepoint: "U+200B", name: "ZERO WIDTH SPACE" }]);
+
+    // Woman technologist: woman + ZWJ + laptop
+    expect(analyzeConfusables("Jane \u{1F469}\u200D\u{1F4BB}", "display_name").invisible).toEqual([]);
+  });
+
+  it("allows Japanese script mixes", () => {
+    expect(analyzeConfusables("東京タワー", "display_name").mixed_script_words).toEqual([]);
+  });
+});
+
+describe("Unicode-aware username checks", () => {
+  it("reads fullwidth digits as digits", () => {
+    expect(analyzeUsername("mike４８２１３").flags.numbers_heavy).toBe(true);
+  });
+
+  it("catches a lookalike copy of a protected handle", () => {
+    const match = matchProtectedHandle(CYRILLIC_ACME, [{ handle: "acmebank", platform: null, label: null }]);
+    expect(match).toMatchObject({ handle: "acmebank", distance: 0 });
+    expect(match?.reasons).toContain("Unicode lookalike or hidden characters");
+  });
+});
+
+describe("name character factors", () => {
+  const base: ProfileInput = {
+    username: "jane_doe",
+    account_age: 900,
+    posts_count: 340,
+    followers_count: 520,
+    following_count: 410,
+    bio_length: 96,
+    username_flags: {},
+  };
+  const ruleIds = (input: ProfileInput) => analyzeProfile(input).top_factors.map((f) => f.rule_id);
+
+  it("scores lookalikes, mixed scripts and hidden characters", () => {
+    expect(ruleIds(base)).not.toContain("homoglyph_characters");
+
+    const lookalike = analyzeProfile({ ...base, username: CYRILLIC_ACME });
+    const factor = lookalike.top_factors.find((f) => f.rule_id === "homoglyph_characters");
+    expect(factor?.description).toContain('Cyrillic "\u0430" (looks like "a")');
+    expect(lookalike.top_factors.map((f) => f.rule_id)).toContain("mixed_script_name");
+
+    expect(ruleIds({ ...base, display_name: "Jane\u200B Doe" })).toContain("invisible_characters");
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluate, evaluateByPlatform, labeledPredictions, operatingPoint, rocAuc, thresholdSweep, type LabeledPrediction,
+} from "@/lib/scoring";
+
+const rows = (
+  platform: string,
+  counts: Partial<Record<`${"fake" | "real"}>${"fake" | "suspicious" | "real"}`, number>>,
+): LabeledPrediction[] =>
+  Object.entries(counts).flatMap(([pair, n]) => {
+    const [truth, predicted] = pair.split(">") as [LabeledPrediction["truth"], LabeledPrediction["predicted"]];
+    return Array.from({ length: n ?? 0 }, () => ({ truth, predicted, platform }));
+  });
+
+describe("evaluate", () => {
+  it("builds the confusion matrix and per-label metrics", () => {
+    const report = evaluate(rows("Instagram", { "fake>fake": 6, "fake>suspicious": 2, "fake>real": 2, "real>real": 8, "real>fake": 2 }));
+    expect(report.total).toBe(20);
+    expect(report.confusion.fake).toEqual({ real: 2, suspicious: 2, fake: 6 });
+    expect(report.accuracy).toBe(0.7);
+    expect(report.labels.fake).toEqual({ precision: 0.75, recall: 0.6, f1: 0.667, support: 10, predicted: 8 });
+    expect(report.labels.real).toEqual({ precision: 0.8, recall: 0.8, f1: 0.8, support: 10, predicted: 10 });
+  });
+
+  it("counts suspicious verdicts as flags but never as correct", () => {
+    const report = evaluate(rows("TikTok", { "fake>suspicious": 3, "real>suspicious": 1 }));
+    expect(report.accuracy).toBe(0);
+    expect(report.labels.fake.precision).toBeNull();
+    expect(report.flagged.precision).toBe(0.75);
+    expect(report.flagged.recall).toBe(1);
+  });
+
+  it("returns nulls instead of dividing by zero", () => {
+    const report = evaluate([]);
+    expect(report.accuracy).toBeNull();
+    expect(report.labels.fake.f1).toBeNull();
+  });
+});
+
+describe("evaluateByPlatform", () => {
+  it("reports each platform separately, most labeled first", () => {
+    const platforms = evaluateByPlatform([
+      ...rows("X", { "fake>fake": 1 }),
+      ...rows("Instagram", { "fake>fake": 2, "real>fake": 1 }),
+    ]);
+    expect(platforms.map((p) => p.platform)).toEqual(["Instagram", "X"]);
+    expect(platforms[0].report.labels.fake.precision).toBe(0.667);
+    expect(platforms[1].report.accuracy).toBe(1);
+  });
+});
+
+describe("labeledPredictions", () => {
+  it("keeps only reviewed analyses", () => {
+    const truths = new Map([["b", { label: "real" as const }]]);
+    expect(labeledPredictions([
+      { id: "a", label: "fake", platform: "X" },
+      { id: "b", label: "suspicious", platform: "X" },
+    ], truths)).toEqual([{ predicted: "suspicious", truth: "real", platform: "X" }]);
+  });
+});
+
+describe("threshold sweep", () => {
+  const outcomes = [
+    { score: 90, truth: "fake" as const },
+    { score: 70, truth: "fake" as const },
+    { score: 40, truth: "fake" as const },
+    { score: 60, truth: "real" as const },
+    { score: 20, truth: "real" as const },
+    { score: 10, truth: "real" as const },
+    { score: 5, truth: "real" as const },
+  ];
+
+  it("reads recall, false-positive rate and precision at a cutoff", () => {
+    const point = operatingPoint(outcomes, 50);
+    expect(point.tpr).toBeCloseTo(2 / 3);
+    expect(point.fpr).toBe(0.25);
+    expect(point.precision).toBeCloseTo(2 / 3);
+    expect(point.false_positives).toBe(1);
+    expect(operatingPoint(outcomes, 101)).toMatchObject({ tpr: 0, fpr: 0, precision: null, flagged: 0 });
+  });
+
+  it("runs the ROC curve from (1,1) to (0,0) and measures its area", () => {
+    const sweep = thresholdSweep(outcomes);
+    expect(sweep[0]).toMatchObject({ threshold: 0, tpr: 1, fpr: 1 });
+    expect(sweep[sweep.length - 1]).toMatchObject({ threshold: 101, tpr: 0, fpr: 0 });
+    // 11 of the 12 fake/real pairs are ranked correctly
+    expect(rocAuc(sweep)).toBe(0.917);
+    expect(rocAuc(thresholdSweep([{ score: 80, truth: "fake" }, { score: 10, truth: "real" }]))).toBe(1);
+  });
+});
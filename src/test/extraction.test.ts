@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  fieldProvenance, mergeExtractions, parseModelJson, repairPrompt, validateExtraction, type ExtractedField, type ParsedPage,
+} from "@/lib/extraction";
+
+const fields: ExtractedField[] = ["followers_count", "bio", "post_timestamps", "has_profile_pic"];
+
+describe("parseModelJson", () => {
+  it("reads the object out of fenced or chatty replies", () => {
+    expect(parseModelJson('```json\n{"a": 1}\n```')).toEqual({ json: { a: 1 } });
+    expect(parseModelJson('Here you go: {"a": 1} Hope that helps!')).toEqual({ json: { a: 1 } });
+  });
+
+  it("reports replies that are not JSON", () => {
+    expect(parseModelJson("Sorry, I can't see the page.")).toEqual({ error: "The reply did not contain a JSON object" });
+    expect("error" in parseModelJson('{"a": 1,}')).toBe(true);
+  });
+});
+
+describe("validateExtraction", () => {
+  it("accepts well-formed output and coerces counts with our own parser", () => {
+    const result = validateExtraction({
+      followers_count: "1.2M",
+      bio: "Ceramics 🏺",
+      post_timestamps: ["2026-04-30T09:00:00Z"],
+      has_profile_pic: true,
+      confidence: "medium",
+      notes: "Counts from the header",
+    }, fields);
+    expect(result).toEqual({
+      values: {
+        followers_count: 1200000,
+        bio: "Ceramics 🏺",
+        post_timestamps: ["2026-04-30T09:00:00.000Z"],
+        has_profile_pic: true,
+      },
+      confidence: "medium",
+      notes: "Counts from the header",
+      evidence: {},
+      errors: [],
+    });
+  });
+
+  it("treats null and empty lists as not found", () => {
+    const result = validateExtraction({ followers_count: null, bio: null, post_timestamps: [], has_profile_pic: null, confidence: "low" }, fields);
+    expect(result.values).toEqual({});
+    expect(result.errors).toEqual([]);
+  });
+
+  it("rejects bad fields one by one and never merges unexpected keys", () => {
+    const result = validateExtraction({
+      followers_count: "about a thousand",
+      bio: "Fine bio",
+      post_timestamps: ["yesterday"],
+      has_profile_pic: "yes",
+      risk_score: 0,
+      confidence: "certain",
+    }, fields);
+    expect(result.values).toEqual({ bio: "Fine bio" });
+    expect(result.confidence).toBeNull();
+    expect(result.errors).toHaveLength(5);
+    expect(result.errors).toContain('Unexpected key "risk_score"');
+    expect(result.errors.join("\n")).toMatch(/followers_count.*about a thousand/);
+  });
+
+  it("flags missing keys, negative counts and over-long text", () => {
+    const result = validateExtraction({
+      followers_count: -5,
+      bio: "x".repeat(1001),
+      has_profile_pic: false,
+      confidence: "high",
+    }, fields);
+    expect(result.values).toEqual({ has_profile_pic: false });
+    expect(result.errors).toEqual([
+      '"followers_count" must not be negative',
+      '"bio" is longer than 1000 characters',
+      'Missing key "post_timestamps" (use null if it is not on the page)',
+    ]);
+  });
+
+  it("rejects anything but an object", () => {
+    expect(validateExtraction([1, 2], fields).errors).toEqual(["The reply must be a single JSON object"]);
+  });
+});
+
+describe("mergeExtractions", () => {
+  it("keeps first-attempt values the repair did not fix and takes repaired ones", () => {
+    const first = validateExtraction({ followers_count: 10, bio: 5, post_timestamps: null, has_profile_pic: true, confidence: "low" }, fields);
+    const repaired = validateExtraction({ followers_count: null, bio: "Fixed", post_timestamps: null, has_profile_pic: "true", confidence: "medium" }, fields);
+    const merged = mergeExtractions(first, repaired);
+    expect(merged.values).toEqual({ followers_count: 10, bio: "Fixed", has_profile_pic: true });
+    expect(merged.confidence).toBe("medium");
+    expect(merged.errors).toEqual(['"has_profile_pic" must be true or false']);
+  });
+
+  it("lists every error in the repair prompt", () => {
+    expect(repairPrompt(['Unexpected key "x"', '"bio" must be a string or null'])).toContain('- Unexpected key "x"\n- "bio" must be a string or null');
+  });
+});
+
+describe("fieldProvenance", () => {
+  const parsed: ParsedPage = {
+    values: { followers_count: 1234 },
+    evidence: { followers_count: { confidence: "medium", snippet: "1,234 Followers" } },
+  };
+  const pageText = "Example Studio\n**Ceramics** from   Lisbon\n1,234 Followers";
+
+  it("reports parser evidence, quoted LLM values and defaults per field", () => {
+    const ai = validateExtraction({
+      bio: "Ceramics from Lisbon",
+      has_profile_pic: true,
+      post_timestamps: null,
+      confidence: "high",
+      evidence: { bio: "ceramics from lisbon", has_profile_pic: "profile photo of a kiln" },
+    }, ["bio", "has_profile_pic", "post_timestamps"]);
+    expect(ai.errors).toEqual([]);
+
+    const provenance = fieldProvenance(["followers_count", "bio", "has_profile_pic", "post_timestamps"], parsed, ai, pageText);
+    expect(provenance).toEqual({
+      followers_count: { source: "parser", confidence: "medium", snippet: "1,234 Followers" },
+      bio: { source: "llm", confidence: "high", snippet: "ceramics from lisbon" },
+      // The quote is not on the page, so the model's confidence does not carry over
+      has_profile_pic: { source: "llm", confidence: "low", snippet: "profile photo of a kiln" },
+      post_timestamps: { source: "default", confidence: "low", snippet: null },
+    });
+  });
+
+  it("rejects evidence for fields that were not asked for", () => {
+    const ai = validateExtraction({ bio: null, confidence: "low", evidence: { risk_score: "0" } }, ["bio"]);
+    expect(ai.errors).toEqual(['Unexpected evidence key "risk_score"']);
+    expect(fieldProvenance(["bio"], { values: {}, evidence: {} }, null, "").bio.source).toBe("default");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { analyzeProfile, parseFollowerSample, profileMetrics, sanitizeFollowerSample, type ProfileInput } from "@/lib/scoring";
+
+const established: ProfileInput = {
+  username: "jane_doe",
+  account_age: 900,
+  posts_count: 340,
+  followers_count: 520,
+  following_count: 410,
+  bio_length: 96,
+  username_flags: {},
+};
+
+const botFollower = "user_902113, 6, 0, 2, 900, 0";
+const realFollower = "anna_smith, 1200, 210, 340, 280, 60";
+
+describe("parseFollowerSample", () => {
+  it("reads handles with optional metrics", () => {
+    const { entries, errors } = parseFollowerSample("@anna_smith\nuser_902113, 6, ?, 2\n\n");
+    expect(errors).toEqual([]);
+    expect(entries).toEqual([
+      { username: "anna_smith" },
+      { username: "user_902113", account_age: 6, followers_count: 2 },
+    ]);
+  });
+
+  it("reports bad lines", () => {
+    const { errors } = parseFollowerSample("ok\n, 3\nbad, many, 1");
+    expect(errors).toEqual(["Line 2: missing handle", 'Line 3: "many" is not a count']);
+  });
+});
+
+describe("sanitizeFollowerSample", () => {
+  it("keeps only finite, non-negative counts", () => {
+    expect(sanitizeFollowerSample([
+      { username: "@anna_smith", account_age: 1200, posts_count: "210", followers_count: NaN, following_count: { n: 1 }, bio_length: -4, no_profile_pic: true },
+      { username: "" },
+      { account_age: 5 },
+      "user_902113",
+      null,
+    ])).toEqual([{
+      username: "anna_smith",
+      account_age: 1200,
+      posts_count: null,
+      followers_count: null,
+      following_count: null,
+      bio_length: null,
+      no_profile_pic: true,
+    }]);
+    expect(sanitizeFollowerSample({ username: "x" })).toEqual([]);
+  });
+});
+
+describe("follower sample factor", () => {
+  const sample = (bots: number, humans: number) => parseFollowerSample(
+    [...Array(bots).fill(botFollower), ...Array(humans).fill(realFollower)].join("\n"),
+  ).entries;
+
+  it("scores each follower and reports the breakdown", () => {
+    const result = analyzeProfile({ ...established, follower_sample: sample(6, 4) });
+    expect(result.follower_breakdown).toHaveLength(10);
+    expect(result.follower_breakdown![0]).toMatchObject({ username: "user_902113", label: "fake" });
+    expect(result.follower_breakdown![9]).toMatchObject({ username: "anna_smith", label: "real" });
+    expect(result.top_factors).toEqual([
+      expect.objectContaining({ rule_id: "bot_follower_majority", points: 20 }),
+    ]);
+    expect(result.top_factors[0].description).toBe("60% of 10 sampled followers score as fake — the audience looks bought.");
+  });
+
+  it("needs a minimum sample before scoring it", () => {
+    const result = analyzeProfile({ ...established, follower_sample: sample(5, 0) });
+    expect(result.follower_breakdown).toHaveLength(5);
+    expect(result.top_factors).toEqual([]);
+  });
+
+  it("leaves handle-only followers out of the bot share", () => {
+    const handles = parseFollowerSample(Array.from({ length: 12 }, (_, i) => `user_90211${i}`).join("\n")).entries;
+    const result = analyzeProfile({ ...established, follower_sample: [...handles, ...sample(3, 2)] });
+    expect(result.follower_breakdown).toHaveLength(17);
+    expect(result.follower_breakdown![0]).toMatchObject({ username: "user_902110", handle_only: true });
+    const metrics = profileMetrics({ ...established, follower_sample: [...handles, ...sample(3, 2)] });
+    expect(metrics).toMatchObject({ follower_sample_size: 5, follower_bot_pct: 60, follower_unscored: 12 });
+    expect(result.top_factors).toEqual([]);
+  });
+
+  it("reports no bot share for a list of handles only", () => {
+    const handles = parseFollowerSample(Array.from({ length: 12 }, (_, i) => `user_90211${i}`).join("\n")).entries;
+    expect(profileMetrics({ ...established, follower_sample: handles })).toMatchObject({
+      follower_sample_size: 0,
+      follower_bot_pct: null,
+      follower_unscored: 12,
+    });
+  });
+
+  it("omits the breakdown without a sample", () => {
+    expect(analyzeProfile(established).follower_breakdown).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { analyzeProfile, editDistance, matchProtectedHandle, type ProfileInput, type ProtectedHandle } from "@/lib/scoring";
+
+const watchlist: ProtectedHandle[] = [
+  { handle: "acmebank", platform: null, label: "Acme Bank" },
+  { handle: "janedoe_ceo", platform: "Twitter/X", label: "Acme CEO" },
+  { handle: "ibm", platform: null, label: null },
+];
+
+describe("editDistance", () => {
+  it("counts insertions, substitutions and transpositions", () => {
+    expect(editDistance("acmebank", "acmebank")).toBe(0);
+    expect(editDistance("acmebank", "acmebnak")).toBe(1);
+    expect(editDistance("acmebank", "acmbank")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+  });
+});
+
+describe("matchProtectedHandle", () => {
+  it("ignores the protected account itself", () => {
+    expect(matchProtectedHandle("@AcmeBank", watchlist)).toBeNull();
+  });
+
+  it("sees through padding words", () => {
+    const match = matchProtectedHandle("official_acmebank", watchlist);
+    expect(match).toMatchObject({ handle: "acmebank", distance: 0 });
+    expect(match?.reasons[0]).toContain('"official_"');
+    expect(matchProtectedHandle("acmebank_support", watchlist)?.reasons[0]).toContain('"_support"');
+    expect(matchProtectedHandle("acmebankhelp", watchlist)?.handle).toBe("acmebank");
+  });
+
+  it("sees through lookalike characters", () => {
+    const match = matchProtectedHandle("4crnebank", watchlist);
+    expect(match).toMatchObject({ handle: "acmebank", distance: 0 });
+    expect(match?.reasons.join(" ")).toContain("rn→m");
+    expect(matchProtectedHandle("acmeb4nk", watchlist)?.reasons.join(" ")).toContain("4→a");
+  });
+
+  it("allows small typos on longer handles only", () => {
+    expect(matchProtectedHandle("acmebnak", watchlist)).toMatchObject({ handle: "acmebank", distance: 1 });
+    expect(matchProtectedHandle("acmeland", watchlist)).toBeNull();
+    expect(matchProtectedHandle("ibn", watchlist)).toBeNull();
+  });
+
+  it("respects the platform a handle is protected on", () => {
+    expect(matchProtectedHandle("janedoe_ceo_", watchlist, "Twitter/X")?.handle).toBe("janedoe_ceo");
+    expect(matchProtectedHandle("janedoe_ceo_", watchlist, "Instagram")).toBeNull();
+  });
+
+  it("leaves unrelated handles alone", () => {
+    expect(matchProtectedHandle("travel_with_mia", watchlist)).toBeNull();
+  });
+});
+
+describe("impersonation factor", () => {
+  it("names the protected handle", () => {
+    const input: ProfileInput = {
+      username: "acmebank_support",
+      account_age: 900,
+      posts_count: 340,
+      followers_count: 520,
+      following_count: 410,
+      bio_length: 96,
+      username_flags: {},
+      impersonation: matchProtectedHandle("acmebank_support", watchlist),
+    };
+    const factor = analyzeProfile(input).top_factors.find((f) => f.rule_id === "possible_impersonation");
+    expect(factor?.factor).toBe("Possible impersonation of @acmebank");
+    expect(factor?.description).toContain("@acmebank (Acme Bank)");
+    expect(factor?.impact).toBe("high");
+  });
+});
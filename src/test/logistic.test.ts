@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  isLogisticModel,
+  logisticProbability,
+  profileMetrics,
+  scoreWithModel,
+  trainLogistic,
+  type ProfileInput,
+  type TrainingSample,
+} from "@/lib/scoring";
+
+const real = (i: number): ProfileInput => ({
+  username: `jane_doe${i}`,
+  account_age: 600 + i * 37,
+  posts_count: 200 + i * 11,
+  followers_count: 3000 + i * 150,
+  following_count: 300 + i * 7,
+  bio_length: 80,
+  username_flags: {},
+});
+
+const fake = (i: number): ProfileInput => ({
+  username: `user${48213 + i}`,
+  account_age: 3 + i,
+  posts_count: i % 3,
+  followers_count: 10 + i,
+  following_count: 2500 + i * 90,
+  bio_length: 0,
+  username_flags: {},
+});
+
+const samples: TrainingSample[] = Array.from({ length: 20 }, (_, i) => [
+  { input: real(i), truth: "real" as const },
+  { input: fake(i), truth: "fake" as const },
+]).flat();
+
+describe("profileMetrics", () => {
+  it("exposes the values rules are evaluated against", () => {
+    const metrics = profileMetrics(real(0));
+    expect(metrics.account_age).toBe(600);
+    expect(metrics.follower_ratio).toBe(10);
+    expect(metrics.bio_spam_keywords).toBeNull();
+  });
+});
+
+describe("trainLogistic", () => {
+  const { model, report } = trainLogistic(samples);
+
+  it("separates confirmed fakes from real accounts", () => {
+    expect(report).toMatchObject({ samples: 40, fakes: 20, reals: 20, validation_samples: 8 });
+    expect(report.train_auc).toBeGreaterThan(0.95);
+    expect(report.validation_auc).toBeGreaterThan(0.9);
+    expect(logisticProbability(model, fake(30))).toBeGreaterThan(0.8);
+    expect(logisticProbability(model, real(30))).toBeLessThan(0.2);
+  });
+
+  it("learns that older accounts are less likely to be fake", () => {
+    const age = model.features.find((f) => f.metric === "account_age")!;
+    expect(age.coefficient).toBeLessThan(0);
+    expect(model.features.find((f) => f.metric === "following_count")!.coefficient).toBeGreaterThan(0);
+  });
+
+  it("is deterministic and stores as valid JSON", () => {
+    expect(trainLogistic(samples).model).toEqual(model);
+    expect(isLogisticModel(JSON.parse(JSON.stringify(model)))).toBe(true);
+    expect(isLogisticModel({ kind: "logistic", intercept: 0, features: [{ metric: "account_age", transform: "log", mean: 0, std: 0, coefficient: 1 }] })).toBe(false);
+  });
+
+  it("scores on the 0–100 scale with the usual thresholds", () => {
+    const result = scoreWithModel(model, fake(30), { suspicious: 35, fake: 65 });
+    expect(result.risk_score).toBeGreaterThanOrEqual(65);
+    expect(result.label).toBe("fake");
+  });
+
+  it("ignores metrics the profile does not have", () => {
+    const unknownAge = { ...real(5), account_age: null };
+    expect(logisticProbability(model, unknownAge)).toBeLessThan(0.5);
+  });
+
+  it("refuses to train on too few confirmed outcomes", () => {
+    expect(() => trainLogistic(samples.slice(0, 6))).toThrow(/at least 5 confirmed fake/);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { htmlToMarkdown, parseCount, parseJoinedDate, parseProfilePage } from "@/lib/extraction";
+import instagramFixture from "../../supabase/functions/scrape-profile/fixtures/instagram.com_example.html?raw";
+import twitterFixture from "../../supabase/functions/scrape-profile/fixtures/x.com_example.md?raw";
+
+const now = new Date("2026-05-01T00:00:00Z");
+const page = (html: string) => ({ html, markdown: htmlToMarkdown(html) });
+
+describe("parseCount", () => {
+  it("reads abbreviated and separated counts", () => {
+    expect(parseCount("1.2M")).toBe(1200000);
+    expect(parseCount("15.3K")).toBe(15300);
+    expect(parseCount("15,3k")).toBe(15300);
+    expect(parseCount("1,234")).toBe(1234);
+    expect(parseCount("1.234.567")).toBe(1234567);
+    expect(parseCount("12 345")).toBe(12345);
+    expect(parseCount("500+")).toBe(500);
+    expect(parseCount("2 million")).toBe(2000000);
+  });
+
+  it("rejects anything that is not clearly a count", () => {
+    expect(parseCount("1.5")).toBeNull();
+    expect(parseCount("12,34")).toBeNull();
+    expect(parseCount("lots")).toBeNull();
+    expect(parseCount("")).toBeNull();
+  });
+});
+
+describe("parseJoinedDate", () => {
+  it("reads month-year, full dates and ISO dates", () => {
+    expect(parseJoinedDate("March 2019")?.toISOString()).toBe("2019-03-01T00:00:00.000Z");
+    expect(parseJoinedDate("Mar 5, 2012")?.toISOString()).toBe("2012-03-05T00:00:00.000Z");
+    expect(parseJoinedDate("on 5 March 2012")?.toISOString()).toBe("2012-03-05T00:00:00.000Z");
+    expect(parseJoinedDate("2020-07-14T10:00:00Z")?.toISOString()).toBe("2020-07-14T10:00:00.000Z");
+    expect(parseJoinedDate("Lisbon 2019")).toBeNull();
+  });
+});
+
+describe("parseProfilePage", () => {
+  it("reads Instagram counts and names from the og tags", () => {
+    const { values: parsed, evidence } = parseProfilePage("Instagram", page(instagramFixture), now);
+    expect(parsed).toMatchObject({
+      username: "example",
+      display_name: "Example Studio",
+      followers_count: 1234,
+      following_count: 567,
+      posts_count: 89,
+      has_profile_pic: true,
+    });
+    // The og:description is stats, not the bio; that is left to the LLM
+    expect(parsed.bio).toBeUndefined();
+    expect(parsed.avg_likes).toBeUndefined();
+    expect(evidence.display_name).toEqual({
+      confidence: "high",
+      snippet: 'og:title="Example Studio (@example) • Instagram photos and videos"',
+    });
+  });
+
+  it("reads counts and the join date from visible text", () => {
+    const { values: parsed, evidence } = parseProfilePage("Twitter/X", { html: null, markdown: twitterFixture }, now);
+    expect(parsed.following_count).toBe(567);
+    expect(parsed.followers_count).toBe(1234);
+    expect(parsed.account_age).toBe(2618);
+    expect(evidence.followers_count).toEqual({ confidence: "medium", snippet: "1,234 Followers" });
+    expect(evidence.account_age?.snippet).toBe("Joined March 2019");
+  });
+
+  it("prefers JSON-LD over meta tags and text", () => {
+    const html = `<html><head>
+      <meta property="og:title" content="Wrong Name (@wrong) / X">
+      <meta property="og:description" content="Bio from meta">
+      <script type="application/ld+json">${JSON.stringify({
+        "@context": "https://schema.org",
+        "@type": "ProfilePage",
+        dateCreated: "2024-05-01T00:00:00.000Z",
+        mainEntity: {
+          "@type": "Person",
+          name: "Jane Doe",
+          alternateName: "@janedoe",
+          description: "Bio from JSON-LD",
+          image: { "@type": "ImageObject", contentUrl: "https://pbs.example.com/jane.jpg" },
+          interactionStatistic: [{ "@type": "InteractionCounter", interactionType: "https://schema.org/FollowAction", userInteractionCount: 4321 }],
+          agentInteractionStatistic: [
+            { "@type": "InteractionCounter", interactionType: "https://schema.org/FollowAction", userInteractionCount: 12 },
+            { "@type": "InteractionCounter", interactionType: "https://schema.org/WriteAction", userInteractionCount: 345 },
+          ],
+        },
+      })}</script>
+      <script type="application/ld+json">{ not json</script>
+      </head><body><p>99 Followers</p>
+      <article><time datetime="2026-04-30T09:00:00.000Z">Apr 30</time></article>
+      <article><time datetime="2026-04-29T18:30:00.000Z">Apr 29</time></article>
+      </body></html>`;
+    const { values, evidence } = parseProfilePage("Twitter/X", page(html), now);
+    expect(evidence.followers_count).toEqual({ confidence: "high", snippet: "FollowAction userInteractionCount: 4321" });
+    expect(evidence.bio_length).toEqual(evidence.bio);
+    expect(evidence.post_timestamps?.snippet).toBe('<time datetime="2026-04-30T09:00:00.000Z"> and 1 more');
+    expect(values).toEqual({
+      username: "janedoe",
+      display_name: "Jane Doe",
+      bio: "Bio from JSON-LD",
+      bio_length: 16,
+      followers_count: 4321,
+      following_count: 12,
+      posts_count: 345,
+      account_age: 730,
+      has_profile_pic: true,
+      post_timestamps: ["2026-04-30T09:00:00.000Z", "2026-04-29T18:30:00.000Z"],
+    });
+  });
+
+  it("uses per-platform labels and title formats", () => {
+    const html = `<head>
+      <meta property="og:title" content="Example Channel - YouTube">
+      <meta property="og:description" content="Weekly woodworking videos">
+      <meta property="og:image" content="https://yt3.example.com/default_avatar.jpg">
+      </head><body>1.2M subscribers · 345 videos · 12 following</body>`;
+    const parsed = parseProfilePage("YouTube", page(html), now).values;
+    expect(parsed).toMatchObject({
+      display_name: "Example Channel",
+      bio: "Weekly woodworking videos",
+      followers_count: 1200000,
+      posts_count: 345,
+      has_profile_pic: false,
+    });
+    expect(parsed.following_count).toBeUndefined();
+  });
+
+  it("leaves fields it cannot find absent", () => {
+    expect(parseProfilePage("Unknown", { html: null, markdown: "Nothing to see here" }, now)).toEqual({ values: {}, evidence: {} });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeProfile,
+  DEFAULT_SCORING_CONFIG,
+  detectPlatform,
+  labelForScore,
+  missingDefaultRules,
+  MODEL_VERSION,
+  validateScoringConfig,
+  type ProfileInput,
+  type ScoringConfig,
+} from "@/lib/scoring";
+
+const established: ProfileInput = {
+  username: "jane_doe",
+  account_age: 900,
+  posts_count: 340,
+  followers_count: 520,
+  following_count: 410,
+  bio_length: 96,
+  username_flags: {},
+};
+
+describe("analyzeProfile", () => {
+  it("stamps every result with the engine version", () => {
+    expect(analyzeProfile(established).model_version).toBe(MODEL_VERSION);
+  });
+
+  it("scores an established profile as real", () => {
+    const result = analyzeProfile(established);
+    expect(result.risk_score).toBe(0);
+    expect(result.label).toBe("real");
+    expect(result.top_factors).toEqual([]);
+  });
+
+  it("flags a brand-new bot-like profile as fake", () => {
+    const result = analyzeProfile({
+      ...established,
+      account_age: 5,
+      posts_count: 0,
+      followers_count: 3,
+      following_count: 800,
+      bio_length: 0,
+      username_flags: { random_characters: true },
+    });
+    expect(result.risk_score).toBe(82);
+    expect(result.label).toBe("fake");
+    expect(result.top_factors).toHaveLength(5);
+    expect(result.top_factors[0]).toMatchObject({ factor: "Very new account", points: 25 });
+    expect(result.top_factors.reduce((sum, f) => sum + (f.points ?? 0), 0)).toBe(82);
+  });
+
+  it("scores with a custom rule set and stamps its version", () => {
+    const config: ScoringConfig = {
+      version: "rules-7",
+      thresholds: { suspicious: 20, fake: 50 },
+      rules: [{
+        id: "young",
+        factor: "Young account",
+        description: "Only {account_age} days old",
+        impact: "high",
+        weight: 30,
+        enabled: true,
+        conditions: [{ metric: "account_age", op: "<", value: 1000 }],
+      }],
+    };
+    const result = analyzeProfile(established, config);
+    expect(result).toMatchObject({ risk_score: 30, label: "suspicious", model_version: "rules-7" });
+    expect(result.top_factors[0].description).toBe("Only 900 days old");
+  });
+
+  it("fires only the first matching rule in a group", () => {
+    const result = analyzeProfile({ ...established, account_age: 10, posts_count: 40 });
+    expect(result.risk_score).toBe(25);
+    expect(result.top_factors.map((f) => f.factor)).toEqual(["Very new account"]);
+  });
+});
+
+describe("factor breakdown", () => {
+  it("records the input values that triggered each factor", () => {
+    const result = analyzeProfile({ ...established, followers_count: 20, following_count: 400 });
+    expect(result.top_factors).toHaveLength(1);
+    expect(result.top_factors[0]).toMatchObject({
+      rule_id: "abnormal_following_ratio",
+      points: 20,
+      triggers: [
+        { metric: "follower_ratio", value: 0.05, op: "<", threshold: 0.1 },
+        { metric: "following_count", value: 400, op: ">", threshold: 100 },
+      ],
+    });
+  });
+});
+
+describe("unknown metrics", () => {
+  it("skips signals that depend on unknown metrics instead of scoring them as zero", () => {
+    const result = analyzeProfile({
+      ...established,
+      account_age: null,
+      posts_count: null,
+      followers_count: null,
+      following_count: null,
+      bio_length: null,
+    });
+    expect(result.risk_score).toBe(0);
+    expect(result.top_factors).toEqual([]);
+    expect(result.confidence).toBe("low");
+    expect(result.unknown_metrics).toHaveLength(5);
+  });
+
+  it("still scores the known metrics and lowers confidence", () => {
+    const result = analyzeProfile({ ...established, account_age: 12, posts_count: 100, followers_count: null });
+    expect(result.top_factors.map((f) => f.factor)).toEqual(["Very new account"]);
+    expect(result.confidence).toBe("medium");
+    expect(result.unknown_metrics).toEqual(["followers_count"]);
+  });
+
+  it("reports high confidence when every metric is known", () => {
+    expect(analyzeProfile(established).confidence).toBe("high");
+  });
+});
+
+describe("platform baselines", () => {
+  const young = { ...established, account_age: 20, followers_count: 500, following_count: 450, posts_count: 0, bio_length: 0 };
+
+  it("treats a fast-growing young LinkedIn profile as suspicious", () => {
+    const result = analyzeProfile({ ...young, platform: "LinkedIn" });
+    expect(result.platform).toBe("LinkedIn");
+    expect(result.top_factors.map((f) => f.factor)).toEqual(
+      expect.arrayContaining(["Very new account", "Rapid follower growth", "Empty bio"]),
+    );
+    expect(result.label).toBe("suspicious");
+  });
+
+  it("is lenient with a young TikTok viewer account", () => {
+    const result = analyzeProfile({ ...young, platform: "TikTok" });
+    expect(result.top_factors.map((f) => f.factor)).toEqual(["Relatively new account"]);
+    expect(result.label).toBe("real");
+  });
+
+  it("falls back to the generic baseline for unknown platforms", () => {
+    const result = analyzeProfile({ ...young, platform: "MySpace" });
+    expect(result.platform).toBe("Unknown");
+    expect(result.risk_score).toBe(50);
+  });
+
+  it("detects the platform from a profile URL", () => {
+    expect(detectPlatform("https://www.linkedin.com/in/jane")).toBe("LinkedIn");
+    expect(detectPlatform("https://example.com/jane")).toBe("Unknown");
+    expect(detectPlatform("https://mobile.x.com/jane")).toBe("Twitter/X");
+    expect(detectPlatform("instagram.com/jane")).toBe("Instagram");
+    expect(detectPlatform("not a url")).toBe("Unknown");
+  });
+
+  it("does not match lookalike hosts", () => {
+    expect(detectPlatform("https://www.netflix.com/browse")).toBe("Unknown");
+    expect(detectPlatform("https://dropbox.com/s/abc")).toBe("Unknown");
+    expect(detectPlatform("https://instagram.com.evil.example/jane")).toBe("Unknown");
+    expect(detectPlatform("https://example.com/instagram.com/jane")).toBe("Unknown");
+  });
+});
+
+describe("validateScoringConfig", () => {
+  it("accepts the built-in defaults", () => {
+    expect(validateScoringConfig(DEFAULT_SCORING_CONFIG)).toEqual([]);
+  });
+
+  it("rejects inverted thresholds", () => {
+    const problems = validateScoringConfig({ ...DEFAULT_SCORING_CONFIG, thresholds: { suspicious: 70, fake: 40 } });
+    expect(problems).toHaveLength(1);
+  });
+});
+
+describe("missingDefaultRules", () => {
+  it("lists built-in rules a stored set was published without", () => {
+    const [first, second, ...rest] = DEFAULT_SCORING_CONFIG.rules;
+    expect(missingDefaultRules(DEFAULT_SCORING_CONFIG.rules)).toEqual([]);
+    expect(missingDefaultRules([...rest, { ...first, weight: 99, enabled: false }])).toEqual([second]);
+  });
+});
+
+describe("labelForScore", () => {
+  it("applies the label cutoffs inclusively", () => {
+    expect(labelForScore(34)).toBe("real");
+    expect(labelForScore(35)).toBe("suspicious");
+    expect(labelForScore(64)).toBe("suspicious");
+    expect(labelForScore(65)).toBe("fake");
+  });
+});
+
+describe("engagement factors", () => {
+  const influencer: ProfileInput = {
+    ...established,
+    followers_count: 250_000,
+    following_count: 3_000,
+    platform: "Instagram",
+  };
+
+  it("normalises engagement by platform and follower tier", () => {
+    // Mid tier on Instagram expects ~1.2%; 0.08% is under a tenth of that
+    const result = analyzeProfile({ ...influencer, avg_likes: 180, avg_comments: 20 });
+    const factor = result.top_factors.find((f) => f.rule_id === "very_low_engagement");
+    expect(factor?.description).toContain("0.08% engagement against ~1.2% typical for a mid-tier account on Instagram");
+  });
+
+  it("holds larger accounts to a lower engagement rate", () => {
+    // ~1% is healthy for a mid-tier account; 0.6% is low for a nano one
+    const midTier = analyzeProfile({ ...influencer, avg_likes: 2_500 });
+    const nano = analyzeProfile({ ...influencer, followers_count: 5_000, avg_likes: 30 });
+    expect(midTier.top_factors.map((f) => f.rule_id)).not.toContain("low_engagement");
+    expect(nano.top_factors.map((f) => f.rule_id)).toContain("low_engagement");
+  });
+
+  it("flags low view counts only on platforms where views matter", () => {
+    const views = { ...influencer, avg_likes: 10_000, avg_views: 2_000 };
+    expect(analyzeProfile({ ...views, platform: "TikTok" }).top_factors.map((f) => f.rule_id)).toContain("low_view_rate");
+    expect(analyzeProfile(views).top_factors.map((f) => f.rule_id)).not.toContain("low_view_rate");
+  });
+
+  it("skips engagement rules when engagement is unknown", () => {
+    expect(analyzeProfile(influencer).top_factors).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  decodeEntities, extractLinks, fixtureName, fixtureProvider, htmlToMarkdown, MAX_PAGE_BYTES, parseProfileUrl, pastedPage,
+  selectScraper, type FixtureReader,
+} from "@/lib/extraction";
+import instagramFixture from "../../supabase/functions/scrape-profile/fixtures/instagram.com_example.html?raw";
+import twitterFixture from "../../supabase/functions/scrape-profile/fixtures/x.com_example.md?raw";
+
+const fixtures: Record<string, string> = {
+  "instagram.com_example.html": instagramFixture,
+  "x.com_example.md": twitterFixture,
+};
+const readFixture: FixtureReader = async (name) => fixtures[name] ?? null;
+
+const stubFetch = (body: string, init: { status?: number; contentType?: string } = {}) =>
+  vi.fn(async () => new Response(body, {
+    status: init.status ?? 200,
+    headers: init.contentType ? { "content-type": init.contentType } : {},
+  })) as unknown as typeof fetch;
+
+describe("htmlToMarkdown", () => {
+  it("keeps headings, links, lists and images and drops scripts and the head", () => {
+    const html = `<html><head><title>Nope</title></head><body>
+      <script>var x = "<p>hidden</p>";</script>
+      <h1>Jane &amp; Co</h1>
+      <p>Bio with <strong>bold</strong> and a <a href="/shop">shop link</a>.</p>
+      <ul><li>one</li><li>two</li></ul>
+      <img src="https://cdn.example.com/a.jpg" alt="avatar">
+    </body></html>`;
+    const markdown = htmlToMarkdown(html, "https://example.com/jane");
+    expect(markdown).toContain("# Jane & Co");
+    expect(markdown).toContain("Bio with **bold** and a [shop link](https://example.com/shop).");
+    expect(markdown).toContain("- one\n- two");
+    expect(markdown).toContain("![avatar](https://cdn.example.com/a.jpg)");
+    expect(markdown).not.toMatch(/Nope|hidden/);
+  });
+
+  it("decodes named and numeric entities", () => {
+    expect(decodeEntities("&lt;3 &#127994; &#x2022; &nbsp;&bogus;")).toBe("<3 🏺 •  &bogus;");
+  });
+
+  it("collects distinct absolute links", () => {
+    const html = `<a href="/a">A</a><a href='/a'>again</a><a href="javascript:void(0)">x</a><a href=https://other.com/b>B</a>`;
+    expect(extractLinks(html, "https://example.com/")).toEqual(["https://example.com/a", "https://other.com/b"]);
+  });
+});
+
+describe("parseProfileUrl", () => {
+  it("reads bare hosts as https and rejects other schemes", () => {
+    expect(parseProfileUrl(" instagram.com/example ")?.href).toBe("https://instagram.com/example");
+    expect(parseProfileUrl("http://x.com/example")?.href).toBe("http://x.com/example");
+    expect(parseProfileUrl("ftp://instagram.com/example")).toBeNull();
+    expect(parseProfileUrl("javascript:alert(1)")).toBeNull();
+    expect(parseProfileUrl("https://")).toBeNull();
+  });
+});
+
+describe("fixtureName", () => {
+  it("names fixtures after the host and path", () => {
+    expect(fixtureName("https://www.instagram.com/Example/")).toBe("instagram.com_example");
+    expect(fixtureName("https://x.com/@example")).toBe("x.com_example");
+    expect(fixtureName("https://www.youtube.com/channel/UC123?view=about")).toBe("youtube.com_channel_uc123");
+  });
+});
+
+describe("fixtureProvider", () => {
+  it("serves saved html converted to markdown", async () => {
+    const page = await fixtureProvider(readFixture).scrape("https://www.instagram.com/example/");
+    expect(page.markdown).toContain("1,234 followers");
+    expect(page.markdown).toContain("Handmade ceramics from Lisbon 🏺");
+    expect(page.links).toContain("https://www.instagram.com/example/followers/");
+  });
+
+  it("falls back to saved markdown", async () => {
+    const page = await fixtureProvider(readFixture).scrape("https://x.com/example");
+    expect(page.markdown).toContain("Joined March 2019");
+  });
+
+  it("fails loudly for a page that was never saved", async () => {
+    await expect(fixtureProvider(readFixture).scrape("https://x.com/nobody")).rejects.toThrow("x.com_nobody.html");
+  });
+});
+
+describe("selectScraper", () => {
+  it("defaults to Firecrawl when keyed and to a plain fetch otherwise", () => {
+    expect(selectScraper({ firecrawlKey: "fc-key" }).name).toBe("firecrawl");
+    expect(selectScraper({}).name).toBe("fetch");
+    expect(selectScraper({ provider: " Fixture ", readFixture }).name).toBe("fixture");
+  });
+
+  it("rejects misconfiguration instead of silently switching providers", () => {
+    expect(() => selectScraper({ provider: "firecrawl" })).toThrow("FIRECRAWL_API_KEY");
+    expect(() => selectScraper({ provider: "fixture" })).toThrow("fixture reader");
+    expect(() => selectScraper({ provider: "puppeteer" })).toThrow("Unknown SCRAPER_PROVIDER");
+  });
+
+  it("converts fetched html and passes plain text through", async () => {
+    const html = selectScraper({ fetch: stubFetch("<p>Hello <a href='/x'>there</a></p>", { contentType: "text/html" }) });
+    expect(await html.scrape("https://www.instagram.com/example/")).toEqual({
+      markdown: "Hello [there](https://www.instagram.com/x)",
+      links: ["https://www.instagram.com/x"],
+      html: "<p>Hello <a href='/x'>there</a></p>",
+    });
+
+    const text = selectScraper({ fetch: stubFetch("just text", { contentType: "text/plain" }) });
+    expect((await text.scrape("https://x.com/example")).markdown).toBe("just text");
+
+    const missing = selectScraper({ fetch: stubFetch("gone", { status: 404 }) });
+    await expect(missing.scrape("https://x.com/example")).rejects.toThrow("404");
+  });
+
+  it("stops reading a page past the size limit", async () => {
+    const huge = `<p>${"a".repeat(MAX_PAGE_BYTES)}</p>`;
+    const page = await selectScraper({ fetch: stubFetch(huge, { contentType: "text/html" }) }).scrape("https://x.com/example");
+    expect(page.html).toHaveLength(MAX_PAGE_BYTES);
+  });
+
+  it("only fetches platform hosts, on every redirect hop", async () => {
+    const fetchImpl = stubFetch("never read");
+    const scraper = selectScraper({ fetch: fetchImpl });
+    await expect(scraper.scrape("http://169.254.169.254/latest/meta-data/")).rejects.toThrow("not a supported platform host");
+    await expect(scraper.scrape("http://localhost:54321/rest/v1/")).rejects.toThrow("not a supported platform host");
+    await expect(scraper.scrape("https://x.com.evil.example/jane")).rejects.toThrow("not a supported platform host");
+    await expect(scraper.scrape("https://x.com@10.0.0.1/jane")).rejects.toThrow("not a supported platform host");
+    await expect(scraper.scrape("file:///etc/passwd")).rejects.toThrow("Not an http(s) URL");
+    expect(fetchImpl).not.toHaveBeenCalled();
+
+    const redirect = (location: string) => ({ ok: false, status: 302, headers: new Headers({ location }) });
+    const hops = vi.fn()
+      .mockResolvedValueOnce(redirect("/accounts/login/?next=/example/"))
+      .mockResolvedValueOnce(redirect("http://127.0.0.1/internal"));
+    await expect(selectScraper({ fetch: hops as unknown as typeof fetch }).scrape("https://instagram.com/example"))
+      .rejects.toThrow("Refusing to fetch 127.0.0.1");
+    expect(hops.mock.calls.map(([url, init]) => [url, init.redirect])).toEqual([
+      ["https://instagram.com/example", "manual"],
+      ["https://instagram.com/accounts/login/?next=/example/", "manual"],
+    ]);
+  });
+
+  it("keeps partial Firecrawl content and fails when there is none", async () => {
+    const partial = selectScraper({
+      firecrawlKey: "fc-key",
+      fetch: stubFetch(JSON.stringify({ success: false, error: "timeout", data: { markdown: "partial" } }), { status: 408 }),
+    });
+    expect(await partial.scrape("https://x.com/example")).toEqual({ markdown: "partial", links: [], html: null });
+
+    const empty = selectScraper({
+      firecrawlKey: "fc-key",
+      fetch: stubFetch(JSON.stringify({ success: false, error: "blocked" }), { status: 403 }),
+    });
+    await expect(empty.scrape("https://x.com/example")).rejects.toThrow("403: blocked");
+  });
+});
+
+describe("pastedPage", () => {
+  it("treats page source as html and finds its canonical url", () => {
+    const page = pastedPage(instagramFixture);
+    expect(page.url).toBe("https://www.instagram.com/example/");
+    expect(page.html).toBe(instagramFixture);
+    expect(page.markdown).toContain("1,234 followers");
+    expect(page.links).toContain("https://www.instagram.com/example/following/");
+  });
+
+  it("prefers the url the analyst gave", () => {
+    expect(pastedPage(instagramFixture, "https://instagram.com/example").url).toBe("https://instagram.com/example");
+  });
+
+  it("passes copied text through as-is", () => {
+    const page = pastedPage("  Example Studio\n567 Following 1,234 Followers \n");
+    expect(page).toEqual({ markdown: "Example Studio\n567 Following 1,234 Followers", links: [], html: null, url: null });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { isDisagreement, summarizeShadow, type RiskLabel, type ShadowScore } from "@/lib/scoring";
+
+let seq = 0;
+const score = (day: string, live: [RiskLabel, number], shadow: [RiskLabel, number]): ShadowScore => ({
+  id: `s${++seq}`,
+  analysis_id: `a${seq}`,
+  shadow_version: "rules-4",
+  shadow_kind: "rules",
+  risk_score: shadow[1],
+  label: shadow[0],
+  live_version: "rules-3",
+  live_score: live[1],
+  live_label: live[0],
+  created_at: `${day}T12:00:00Z`,
+});
+
+describe("summarizeShadow", () => {
+  const rows = [
+    score("2026-04-28", ["real", 10], ["real", 12]),
+    score("2026-04-28", ["suspicious", 40], ["fake", 70]),
+    score("2026-04-27", ["fake", 80], ["fake", 75]),
+    score("2026-04-27", ["real", 20], ["real", 20]),
+  ];
+
+  it("reports label agreement, transitions and the mean score shift", () => {
+    const summary = summarizeShadow(rows);
+    expect(summary.total).toBe(4);
+    expect(summary.agreement).toBe(0.75);
+    expect(summary.transitions.suspicious.fake).toBe(1);
+    expect(summary.transitions.real.real).toBe(2);
+    expect(summary.mean_score_delta).toBe(6.8);
+    expect(rows.filter(isDisagreement)).toHaveLength(1);
+  });
+
+  it("tracks agreement per day, oldest first", () => {
+    expect(summarizeShadow(rows).daily).toEqual([
+      { day: "2026-04-27", total: 2, agreement: 1 },
+      { day: "2026-04-28", total: 2, agreement: 0.5 },
+    ]);
+  });
+
+  it("has nothing to report before any shadow scores exist", () => {
+    const summary = summarizeShadow([]);
+    expect(summary.agreement).toBeNull();
+    expect(summary.mean_score_delta).toBeNull();
+    expect(summary.daily).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { analyzeProfile, compareSnapshots, profileKey, toSnapshot, type ProfileInput } from "@/lib/scoring";
+
+const established: ProfileInput = {
+  username: "jane_doe",
+  account_age: 900,
+  posts_count: 340,
+  followers_count: 5200,
+  following_count: 410,
+  bio_length: 96,
+  username_flags: {},
+};
+
+const earlierScan = (counts: { followers_count: number; following_count: number; posts_count: number }, daysBefore: number) =>
+  toSnapshot(
+    { id: "prev", created_at: new Date(Date.UTC(2026, 3, 20) - daysBefore * 86_400_000).toISOString(), ...counts },
+    new Date(Date.UTC(2026, 3, 20)).toISOString(),
+  );
+
+const ruleIds = (input: ProfileInput) => analyzeProfile(input).top_factors.map((f) => f.rule_id);
+
+describe("profileKey", () => {
+  it("ignores case and a leading @", () => {
+    expect(profileKey("Instagram", "@Jane_Doe")).toBe(profileKey("Instagram", "jane_doe"));
+    expect(profileKey("Instagram", "jane_doe")).not.toBe(profileKey("TikTok", "jane_doe"));
+  });
+});
+
+describe("compareSnapshots", () => {
+  it("reports gains, drops and deletions as positive numbers", () => {
+    const previous = earlierScan({ followers_count: 2000, following_count: 1000, posts_count: 100 }, 7);
+    expect(previous.days_before).toBe(7);
+    expect(compareSnapshots(previous, { followers_count: 5000, following_count: 200, posts_count: 40 })).toEqual({
+      days: 7,
+      follower_gain: 3000,
+      follower_change_pct: 150,
+      following_drop: 800,
+      following_drop_pct: 80,
+      posts_deleted: 60,
+      posts_deleted_pct: 60,
+    });
+  });
+
+  it("leaves changes unknown when either scan lacks the count", () => {
+    const previous = earlierScan({ followers_count: 2000, following_count: 1000, posts_count: 100 }, 7);
+    expect(compareSnapshots(previous, { followers_count: null, following_count: 1000, posts_count: 100 }).follower_gain).toBeNull();
+  });
+});
+
+describe("snapshot anomaly factors", () => {
+  it("skips first scans and steady profiles", () => {
+    expect(ruleIds(established)).not.toContain("follower_spike");
+    const steady = earlierScan({ followers_count: 5100, following_count: 405, posts_count: 335 }, 30);
+    const ids = ruleIds({ ...established, previous_snapshot: steady });
+    expect(ids).not.toContain("follower_spike");
+    expect(ids).not.toContain("mass_unfollow");
+    expect(ids).not.toContain("post_deletion");
+  });
+
+  it("flags a follower spike, mass unfollow and post deletion", () => {
+    const before = earlierScan({ followers_count: 1200, following_count: 1500, posts_count: 500 }, 10);
+    const result = analyzeProfile({ ...established, previous_snapshot: before });
+    const ids = result.top_factors.map((f) => f.rule_id);
+    expect(ids).toEqual(expect.arrayContaining(["follower_spike", "mass_unfollow", "post_deletion"]));
+    expect(result.top_factors.find((f) => f.rule_id === "follower_spike")?.description)
+      .toContain("Gained 4000 followers (+333.3%) in the 10 days");
+  });
+
+  it("ignores slow growth spread over months", () => {
+    const before = earlierScan({ followers_count: 1200, following_count: 410, posts_count: 340 }, 120);
+    expect(ruleIds({ ...established, previous_snapshot: before })).not.toContain("follower_spike");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { analyzeUsername } from "@/lib/scoring";
+
+describe("analyzeUsername", () => {
+  it("raises no flags for an ordinary handle", () => {
+    const result = analyzeUsername("jane_doe");
+    expect(Object.values(result.flags).some(Boolean)).toBe(false);
+    expect(result.evidence).toEqual({});
+    expect(result.metrics.dictionary_coverage).toBe(1);
+  });
+
+  it("flags numbers-heavy handles with the digit run as evidence", () => {
+    const result = analyzeUsername("@mike48213");
+    expect(result.flags.numbers_heavy).toBe(true);
+    expect(result.evidence.numbers_heavy).toContain('Longest digit run "48213" (5)');
+  });
+
+  it("flags very short handles", () => {
+    expect(analyzeUsername("xo").flags.very_short).toBe(true);
+    expect(analyzeUsername("alex").flags.very_short).toBe(false);
+  });
+
+  it("needs more than one sign before calling a handle random", () => {
+    const random = analyzeUsername("xkqvbrtzmw");
+    expect(random.flags.random_characters).toBe(true);
+    expect(random.evidence.random_characters!.length).toBeGreaterThanOrEqual(2);
+
+    // A real word with a long consonant cluster is not enough on its own
+    expect(analyzeUsername("strengths").flags.random_characters).toBe(false);
+  });
+
+  it("detects keyboard walks in either direction", () => {
+    expect(analyzeUsername("qwerty_gal").flags.keyboard_walk).toBe(true);
+    expect(analyzeUsername("lkjhsam").evidence.keyboard_walk).toEqual(['Contains keyboard sequence "lkjh"']);
+    expect(analyzeUsername("sarah_smith").flags.keyboard_walk).toBe(false);
+  });
+
+  it("matches common bot templates", () => {
+    expect(analyzeUsername("anna_smith4821").flags.bot_template).toBe(true);
+    expect(analyzeUsername("user_902113").flags.bot_template).toBe(true);
+    expect(analyzeUsername("JessicaBrown2231").flags.bot_template).toBe(true);
+    expect(analyzeUsername("anna_smith").flags.bot_template).toBe(false);
+  });
+});
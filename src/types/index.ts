@@ -1,31 +1,49 @@
-export type AppRole = 'admin' | 'user';
-export type RiskLabel = 'real' | 'suspicious' | 'fake';
+import type {
+  ClusterMatch, Confidence, FollowerSampleEntry, FollowerScore, GroundTruth, ImpersonationMatch, ProfileSnapshot, RiskLabel, TopFactor, UsernameAnalysis, UsernameFlags,
+} from '@/lib/scoring';
 
-export interface TopFactor {
-  factor: string;
-  description: string;
-  impact: 'high' | 'medium' | 'low';
-}
+export type { ClusterMatch, Confidence, FollowerSampleEntry, FollowerScore, GroundTruth, ImpersonationMatch, ProfileSnapshot, RiskLabel, TopFactor, UsernameAnalysis, UsernameFlags };
 
-export interface UsernameFlags {
-  numbers_heavy?: boolean;
-  no_profile_pic?: boolean;
-  random_characters?: boolean;
-  very_short?: boolean;
-}
+export type AppRole = 'admin' | 'user';
 
 export interface AnalysisResult {
   id: string;
   user_id: string;
   username: string;
-  account_age: number;
-  posts_count: number;
-  followers_count: number;
-  following_count: number;
-  bio_length: number;
+  display_name: string | null;
+  account_age: number | null;
+  posts_count: number | null;
+  followers_count: number | null;
+  following_count: number | null;
+  bio_length: number | null;
+  bio: string | null;
+  avg_likes: number | null;
+  avg_comments: number | null;
+  avg_views: number | null;
+  post_timestamps: string[] | null;
+  follower_sample: FollowerSampleEntry[] | null;
+  follower_breakdown: FollowerScore[] | null;
+  cluster: ClusterMatch | null;
+  impersonation: ImpersonationMatch | null;
+  previous_snapshot: ProfileSnapshot | null;
   username_flags: UsernameFlags;
+  username_analysis: UsernameAnalysis | null;
   risk_score: number;
   label: RiskLabel;
+  heuristic_score: number | null;   // rule-based score; null on analyses stored before learned scoring
+  learned_score: number | null;
+  learned_model: string | null;
   top_factors: TopFactor[];
+  model_version: string;
+  platform: string;
+  confidence: Confidence | null;
   created_at: string;
 }
+
+// An analyst's confirmed verdict on one analysis
+export interface GroundTruthLabel {
+  analysis_id: string;
+  label: GroundTruth;
+  reviewed_by: string | null;
+  reviewed_at: string;
+}
@@ -0,0 +1,164 @@
+// Replays stored analyses through two rule sets and summarises what would
+// change. Nothing is written: the Admin backtest uses it to size the blast
+// radius of a rule edit before it is published.
+
+import {
+  analyzeProfile,
+  type ProfileInput,
+  type RiskLabel,
+  type ScoringConfig,
+  type UsernameFlags,
+} from './scoring.ts';
+import type { ClusterMatch } from './clustering.ts';
+import type { FollowerSampleEntry } from './followers.ts';
+import type { ImpersonationMatch } from './impersonation.ts';
+import type { ProfileSnapshot } from './timeline.ts';
+
+export const RISK_LABELS: RiskLabel[] = ['real', 'suspicious', 'fake'];
+
+// The analysis_results columns that make up a scoring input
+export interface StoredAnalysis {
+  id: string;
+  username: string;
+  display_name: string | null;
+  platform: string;
+  created_at: string;
+  account_age: number | null;
+  posts_count: number | null;
+  followers_count: number | null;
+  following_count: number | null;
+  bio_length: number | null;
+  bio: string | null;
+  avg_likes: number | null;
+  avg_comments: number | null;
+  avg_views: number | null;
+  post_timestamps: string[] | null;
+  follower_sample: FollowerSampleEntry[] | null;
+  cluster: ClusterMatch | null;
+  impersonation: ImpersonationMatch | null;
+  previous_snapshot: ProfileSnapshot | null;
+  username_flags: UsernameFlags | null;
+}
+
+export const STORED_ANALYSIS_COLUMNS = [
+  'id', 'username', 'display_name', 'platform', 'created_at', 'account_age', 'posts_count',
+  'followers_count', 'following_count', 'bio_length', 'bio', 'avg_likes', 'avg_comments', 'avg_views',
+  'post_timestamps', 'follower_sample', 'cluster', 'impersonation', 'previous_snapshot', 'username_flags',
+].join(', ');
+
+// Rebuilds the input analyze-profile scored, including the context it looked
+// up at the time (cluster, watchlist match, previous snapshot)
+export function storedInput(row: StoredAnalysis): ProfileInput {
+  return {
+    username: row.username,
+    display_name: row.display_name,
+    account_age: row.account_age,
+    posts_count: row.posts_count,
+    followers_count: row.followers_count,
+    following_count: row.following_count,
+    bio_length: row.bio_length,
+    bio: row.bio,
+    avg_likes: row.avg_likes,
+    avg_comments: row.avg_comments,
+    avg_views: row.avg_views,
+    post_timestamps: row.post_timestamps,
+    follower_sample: row.follower_sample,
+    cluster: row.cluster,
+    impersonation: row.impersonation,
+    previous_snapshot: row.previous_snapshot,
+    username_flags: row.username_flags ?? {},
+    platform: row.platform,
+  };
+}
+
+export interface BacktestChange {
+  id: string;
+  username: string;
+  platform: string;
+  created_at: string;
+  score_before: number;
+  score_after: number;
+  label_before: RiskLabel;
+  label_after: RiskLabel;
+  factors_added: string[];
+  factors_removed: string[];
+}
+
+export interface ScoreBucket {
+  range: string;        // e.g. "30–39"
+  before: number;
+  after: number;
+}
+
+export interface BacktestReport {
+  total: number;
+  label_changes: number;
+  // transitions[before][after] = number of profiles
+  transitions: Record<RiskLabel, Record<RiskLabel, number>>;
+  mean_before: number;
+  mean_after: number;
+  distribution: ScoreBucket[];
+  changes: BacktestChange[];   // every profile whose score moved; label changes first, then by size of move
+}
+
+// transitions[from][to] = 0 for every pair of labels
+export function emptyTransitions(): Record<RiskLabel, Record<RiskLabel, number>> {
+  return Object.fromEntries(
+    RISK_LABELS.map((from) => [from, Object.fromEntries(RISK_LABELS.map((to) => [to, 0]))]),
+  ) as Record<RiskLabel, Record<RiskLabel, number>>;
+}
+
+const bucketOf = (score: number) => Math.min(9, Math.floor(score / 10));
+
+export function backtest(rows: StoredAnalysis[], candidate: ScoringConfig, current: ScoringConfig): BacktestReport {
+  const transitions = emptyTransitions();
+  const distribution: ScoreBucket[] = Array.from({ length: 10 }, (_, i) => ({
+    range: i === 9 ? '90–100' : `${i * 10}–${i * 10 + 9}`,
+    before: 0,
+    after: 0,
+  }));
+  const changes: BacktestChange[] = [];
+  let sumBefore = 0;
+  let sumAfter = 0;
+
+  for (const row of rows) {
+    const input = storedInput(row);
+    const before = analyzeProfile(input, current);
+    const after = analyzeProfile(input, candidate);
+
+    transitions[before.label][after.label]++;
+    distribution[bucketOf(before.risk_score)].before++;
+    distribution[bucketOf(after.risk_score)].after++;
+    sumBefore += before.risk_score;
+    sumAfter += after.risk_score;
+
+    if (before.risk_score === after.risk_score && before.label === after.label) continue;
+    const factorsBefore = new Set(before.top_factors.map((f) => f.factor));
+    const factorsAfter = new Set(after.top_factors.map((f) => f.factor));
+    changes.push({
+      id: row.id,
+      username: row.username,
+      platform: row.platform,
+      created_at: row.created_at,
+      score_before: before.risk_score,
+      score_after: after.risk_score,
+      label_before: before.label,
+      label_after: after.label,
+      factors_added: [...factorsAfter].filter((f) => !factorsBefore.has(f)),
+      factors_removed: [...factorsBefore].filter((f) => !factorsAfter.has(f)),
+    });
+  }
+
+  const mean = (sum: number) => (rows.length ? Math.round((sum / rows.length) * 10) / 10 : 0);
+  return {
+    total: rows.length,
+    label_changes: changes.filter((c) => c.label_before !== c.label_after).length,
+    transitions,
+    mean_before: mean(sumBefore),
+    mean_after: mean(sumAfter),
+    distribution,
+    changes: changes.sort((a, b) =>
+      Number(b.label_before !== b.label_after) - Number(a.label_before !== a.label_after)
+      || Math.abs(b.score_after - b.score_before) - Math.abs(a.score_after - a.score_before)),
+  };
+}
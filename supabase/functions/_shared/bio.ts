@@ -0,0 +1,117 @@
+// Bio text analysis. Pulls the spam signals out of a profile's bio so the
+// scoring engine can score what the bio says, not only how long it is.
+
+export interface BioAnalysis {
+  length: number;              // characters (code points)
+  word_count: number;
+  spam_keywords: string[];     // distinct spam/scam phrases found
+  links: string[];             // external links, as written
+  shorteners: string[];        // links going through a URL shortener
+  emoji_count: number;
+  emoji_pct: number;           // share of characters that are emoji, 0–100
+  hashtag_count: number;
+  hashtag_pct: number;         // share of words that are hashtags, 0–100
+  templates: string[];         // names of stock bio templates matched
+  contact_channels: string[];  // off-platform channels the bio pushes people to
+}
+
+// Phrases that show up in scam, spam and engagement-bait bios and rarely anywhere else
+const SPAM_PHRASES = [
+  'binary options', 'invest with me', 'passive income', 'make money', 'earn money',
+  'work from home', 'guaranteed profit', 'guaranteed returns', 'double your', 'daily profit',
+  'free followers', 'free gift card', 'sugar daddy', 'sugar baby', '100% legit',
+  'recovery expert', 'hacked account',
+];
+
+// Topics scam bios lean on but plenty of genuine ones mention too ("Investment
+// banker", "Crypto reporter"); only counted alongside a spam phrase
+const SPAM_TOPICS = [
+  'crypto', 'bitcoin', 'btc', 'forex', 'nft', 'airdrop', 'investment',
+  'account manager', 'giveaway', 'cash app',
+];
+
+const SHORTENER_DOMAINS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'tiny.cc', 'rb.gy', 'v.gd',
+];
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|me|ly|gg|link|xyz|info|biz|app|shop|site|online|club|top|at|cc|gd|gy)(?:\/\S*)?/gi;
+
+const CONTACT_PATTERNS: { pattern: RegExp; channel: string }[] = [
+  { pattern: /whats\s?app|\bwa\.me\b/i, channel: 'WhatsApp' },
+  { pattern: /telegram|\bt\.me\/|\btg\s*[:@]/i, channel: 'Telegram' },
+  { pattern: /\bkik\b/i, channel: 'Kik' },
+  { pattern: /\bsignal\s*[:@+]/i, channel: 'Signal' },
+  { pattern: /\bwechat\b/i, channel: 'WeChat' },
+];
+
+const PHONE_CANDIDATE = /\+?\d[\d\s().-]{6,}\d/g;
+const YEAR = /^(?:19|20)\d{2}$/;
+
+// A leading + with 8+ digits, or 10+ digits that are not just years and
+// day/month numbers ("Class of 2010 - 2024", "01.02.2019 - 03.04.2021")
+function hasPhoneNumber(text: string): boolean {
+  return (text.match(PHONE_CANDIDATE) ?? []).some((candidate) => {
+    const groups = candidate.match(/\d+/g) ?? [];
+    const digits = groups.join('').length;
+    if (candidate.startsWith('+')) return digits >= 8;
+    const dateLike = groups.some((g) => YEAR.test(g)) && groups.every((g) => g.length <= 2 || YEAR.test(g));
+    return digits >= 10 && !dateLike;
+  });
+}
+
+// Stock bios that account farms paste across thousands of profiles
+const TEMPLATE_PATTERNS: { pattern: RegExp; name: string }[] = [
+  { pattern: /\b(follow|f)\s*(4|for)\s*(follow|f)\b/i, name: 'follow-for-follow' },
+  { pattern: /\b(dm|message)\s+(me\s+)?(for|to)\s+(collab|promo|promotion|shout\s?out|business)/i, name: 'DM for promo' },
+  { pattern: /\b(check|click)\s+(out\s+)?(the\s+)?link\s+(in|on)\s+(my\s+)?bio\b/i, name: 'link in bio' },
+  { pattern: /\b(living|live)\s+my\s+best\s+life\b/i, name: 'living my best life' },
+  { pattern: /\b(god\s?fearing|single\s+(mom|dad)|widow(er)?)\b.*\b(army|engineer|doctor|offshore|oil\s+rig|un\s+peace)/i, name: 'romance-scam persona' },
+  // Three or more generic labels separated by | or •, e.g. "Traveler | Dreamer | Coffee lover"
+  { pattern: /^\W*(?:[\w\s']{2,20}(?:lover|enthusiast|addict|dreamer|traveler|traveller|entrepreneur|blogger|foodie|investor)\W*[|•]\W*){2,}/i, name: 'generic label list' },
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+export function analyzeBio(bio: string): BioAnalysis {
+  const text = bio.trim();
+  const length = [...text].length;
+  const words = text.split(/\s+/).filter(Boolean);
+
+  const mentions = (keyword: string) =>
+    new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}($|[^a-z0-9])`, 'i').test(text);
+  const phrases = SPAM_PHRASES.filter(mentions);
+  const spam_keywords = phrases.length ? [...phrases, ...SPAM_TOPICS.filter(mentions)] : [];
+
+  const links = [...new Set(text.match(LINK_PATTERN) ?? [])];
+  const shorteners = links.filter((link) => {
+    const host = link.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split('/')[0].toLowerCase();
+    return SHORTENER_DOMAINS.includes(host);
+  });
+
+  const emoji_count = (text.match(/\p{Extended_Pictographic}/gu) ?? []).length;
+  const hashtag_count = (text.match(/(^|\s)#[\p{L}\p{N}_]+/gu) ?? []).length;
+
+  return {
+    length,
+    word_count: words.length,
+    spam_keywords,
+    links,
+    shorteners,
+    emoji_count,
+    emoji_pct: percent(emoji_count, length),
+    hashtag_count,
+    hashtag_pct: percent(hashtag_count, words.length),
+    templates: TEMPLATE_PATTERNS.filter((t) => t.pattern.test(text)).map((t) => t.name),
+    contact_channels: [
+      ...CONTACT_PATTERNS.filter((c) => c.pattern.test(text)).map((c) => c.channel),
+      ...(hasPhoneNumber(text) ? ['Phone number'] : []),
+    ],
+  };
+}
@@ -0,0 +1,94 @@
+// Posting cadence analysis from the timestamps of recent posts. Humans post
+// irregularly, in waking hours and at scattered minutes; schedulers and bot
+// farms don't. All times are bucketed in UTC — the sleep-gap check looks for
+// the longest quiet stretch anywhere on the clock, so it needs no time zone.
+
+export interface CadenceAnalysis {
+  post_count: number;
+  span_days: number;
+  median_interval_minutes: number | null;
+  interval_cv: number | null;         // std dev / mean of gaps between posts; null below MIN_POSTS.regularity
+  max_burst: number;                  // most posts inside any BURST_WINDOW_MINUTES window
+  sleep_gap_hours: number | null;     // longest run of hours with no posts; null below MIN_POSTS.sleep_gap
+  top_minute: number | null;          // most common minute past the hour
+  top_minute_pct: number | null;      // share of posts at top_minute, 0–100; null below MIN_POSTS.minute
+  heatmap: number[][];                // [day of week 0=Sun][hour 0–23] post counts
+}
+
+export const BURST_WINDOW_MINUTES = 10;
+
+// Below these sample sizes a pattern is as likely to be chance as automation
+const MIN_POSTS = {
+  regularity: 8,
+  sleep_gap: 20,
+  minute: 6,
+};
+const MIN_SLEEP_GAP_SPAN_DAYS = 3;
+
+export function parseTimestamps(values: unknown[]): Date[] {
+  return values
+    .map((v) => (typeof v === 'string' || typeof v === 'number' ? new Date(v) : null))
+    .filter((d): d is Date => d !== null && !Number.isNaN(d.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Longest circular run of empty hours in a 24-slot histogram
+function longestEmptyRun(hours: number[]): number {
+  if (hours.every((h) => h === 0)) return 24;
+  let best = 0;
+  let run = 0;
+  for (let i = 0; i < 48; i++) {
+    if (hours[i % 24] === 0) best = Math.max(best, ++run);
+    else run = 0;
+  }
+  return Math.min(best, 24);
+}
+
+export function analyzeCadence(timestamps: unknown[]): CadenceAnalysis {
+  const dates = parseTimestamps(timestamps);
+  const times = dates.map((d) => d.getTime());
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const hours = new Array<number>(24).fill(0);
+  const minutes = new Array<number>(60).fill(0);
+
+  for (const d of dates) {
+    heatmap[d.getUTCDay()][d.getUTCHours()]++;
+    hours[d.getUTCHours()]++;
+    minutes[d.getUTCMinutes()]++;
+  }
+
+  const intervals = times.slice(1).map((t, i) => (t - times[i]) / 60_000);
+  const mean = intervals.length ? intervals.reduce((a, b) => a + b, 0) / intervals.length : 0;
+  const std = intervals.length
+    ? Math.sqrt(intervals.reduce((sum, x) => sum + (x - mean) ** 2, 0) / intervals.length)
+    : 0;
+
+  // Sliding window over the sorted times
+  let max_burst = dates.length ? 1 : 0;
+  for (let start = 0, end = 0; end < times.length; end++) {
+    while (times[end] - times[start] > BURST_WINDOW_MINUTES * 60_000) start++;
+    max_burst = Math.max(max_burst, end - start + 1);
+  }
+
+  const span_days = times.length > 1 ? (times[times.length - 1] - times[0]) / 86_400_000 : 0;
+  const topMinuteCount = Math.max(...minutes);
+
+  return {
+    post_count: dates.length,
+    span_days: Math.round(span_days * 10) / 10,
+    median_interval_minutes: intervals.length ? Math.round(median(intervals)) : null,
+    interval_cv: dates.length >= MIN_POSTS.regularity && mean > 0 ? Math.round((std / mean) * 1000) / 1000 : null,
+    max_burst,
+    sleep_gap_hours: dates.length >= MIN_POSTS.sleep_gap && span_days >= MIN_SLEEP_GAP_SPAN_DAYS
+      ? longestEmptyRun(hours) : null,
+    top_minute: dates.length ? minutes.indexOf(topMinuteCount) : null,
+    top_minute_pct: dates.length >= MIN_POSTS.minute ? Math.round((topMinuteCount / dates.length) * 100) : null,
+    heatmap,
+  };
+}
@@ -0,0 +1,273 @@
+// Coordinated-account detection. Links stored analyses that look like they
+// came off the same farm — same username template, created the same week,
+// near-identical counts — and groups linked accounts into clusters. Used by
+// the cluster-analyses job and, to place new profiles, by analyze-profile.
+
+const DAY_MS = 86_400_000;
+
+export const MIN_CLUSTER_SIZE = 3;
+export const CREATED_WINDOW_DAYS = 7;
+const COUNT_TOLERANCE = 0.15;   // relative difference still treated as "the same"
+const COUNT_SLACK = 5;          // absolute difference always treated as "the same"
+
+export interface ClusterCandidate {
+  id: string;
+  username: string;
+  platform: string;
+  followers_count: number | null;
+  following_count: number | null;
+  posts_count: number | null;
+  account_age: number | null;
+  analyzed_at: string;          // when the analysis ran; with account_age dates the account's creation
+}
+
+export interface ClusterMember {
+  analysis_id: string;
+  username: string;
+  followers_count: number | null;
+  following_count: number | null;
+  posts_count: number | null;
+  created_on: string | null;    // estimated creation date, YYYY-MM-DD
+}
+
+export interface AccountCluster {
+  platform: string;
+  username_template: string | null;   // shared by most members, when distinctive
+  signature: string;                  // what the members have in common, for display
+  size: number;
+  created_from: string | null;
+  created_to: string | null;
+  members: ClusterMember[];
+}
+
+// Reference to a cluster a profile was matched to, carried on ProfileInput
+export interface ClusterMatch {
+  id: string;
+  size: number;
+  signature: string;
+}
+
+type LinkReason = 'template' | 'created' | 'counts';
+
+// Shape of a handle with the letters abstracted away: "anna_smith4821" and
+// "mark_jones1937" both become "a_a9999".
+export function usernameTemplate(username: string): string {
+  return username
+    .trim()
+    .replace(/^@/, '')
+    .toLowerCase()
+    .replace(/\p{L}+/gu, 'a')
+    .replace(/\d/g, '9');
+}
+
+// Templates without digits ("a", "a_a", "a.a") are how most people name
+// themselves, so sharing one says nothing.
+function isDistinctiveTemplate(template: string): boolean {
+  return /9{2,}/.test(template);
+}
+
+function createdAt(c: ClusterCandidate): number | null {
+  if (c.account_age === null) return null;
+  const analyzed = new Date(c.analyzed_at).getTime();
+  return Number.isNaN(analyzed) ? null : analyzed - c.account_age * DAY_MS;
+}
+
+function countsClose(a: number | null, b: number | null): boolean | null {
+  if (a === null || b === null) return null;
+  return Math.abs(a - b) <= Math.max(COUNT_SLACK, COUNT_TOLERANCE * Math.max(a, b));
+}
+
+// Why two accounts look coordinated, or null if they don't. Any two of the
+// three signals are required; a shared template alone is too common. Profiles
+// on unrecognised sites never link, since they need not share a site at all.
+export function linkReasons(a: ClusterCandidate, b: ClusterCandidate): LinkReason[] | null {
+  if (a.platform !== b.platform || a.platform === 'Unknown') return null;
+
+  const reasons: LinkReason[] = [];
+  const template = usernameTemplate(a.username);
+  if (isDistinctiveTemplate(template) && template === usernameTemplate(b.username)) reasons.push('template');
+
+  const createdA = createdAt(a);
+  const createdB = createdAt(b);
+  if (createdA !== null && createdB !== null && Math.abs(createdA - createdB) <= CREATED_WINDOW_DAYS * DAY_MS) {
+    reasons.push('created');
+  }
+
+  const counts = [
+    countsClose(a.followers_count, b.followers_count),
+    countsClose(a.following_count, b.following_count),
+    countsClose(a.posts_count, b.posts_count),
+  ].filter((close): close is boolean => close !== null);
+  if (counts.length >= 2 && counts.every(Boolean)) reasons.push('counts');
+
+  return reasons.length >= 2 ? reasons : null;
+}
+
+// Pairs worth passing to linkReasons. Every link needs a shared distinctive
+// template or creation dates within CREATED_WINDOW_DAYS, so accounts are
+// bucketed by platform and template, and by platform and creation window, and
+// only compared within a template bucket or the same or next window bucket.
+function candidatePairs(items: ClusterCandidate[]): [number, number][] {
+  const templates = new Map<string, number[]>();
+  const windows = new Map<string, number[]>();
+  const add = (buckets: Map<string, number[]>, key: string, i: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(i);
+    else buckets.set(key, [i]);
+  };
+  items.forEach((item, i) => {
+    if (item.platform === 'Unknown') return;
+    const template = usernameTemplate(item.username);
+    if (isDistinctiveTemplate(template)) add(templates, `${item.platform}\u0000${template}`, i);
+    const created = createdAt(item);
+    if (created !== null) add(windows, `${item.platform}\u0000${Math.floor(created / (CREATED_WINDOW_DAYS * DAY_MS))}`, i);
+  });
+
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+  const pair = (i: number, j: number) => {
+    const [a, b] = i < j ? [i, j] : [j, i];
+    const key = a * items.length + b;
+    if (seen.has(key)) return;
+    seen.add(key);
+    pairs.push([a, b]);
+  };
+  const within = (bucket: number[]) => {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) pair(bucket[x], bucket[y]);
+    }
+  };
+
+  templates.forEach(within);
+  for (const [key, bucket] of windows) {
+    within(bucket);
+    const [platform, window] = key.split('\u0000');
+    for (const j of windows.get(`${platform}\u0000${Number(window) + 1}`) ?? []) {
+      for (const i of bucket) pair(i, j);
+    }
+  }
+  return pairs;
+}
+
+function toDate(ms: number | null): string | null {
+  return ms === null ? null : new Date(ms).toISOString().slice(0, 10);
+}
+
+function describe(reasons: Set<LinkReason>, template: string | null): string {
+  const parts: string[] = [];
+  if (reasons.has('template') && template) parts.push(`username template "${template}"`);
+  if (reasons.has('created')) parts.push('creation week');
+  if (reasons.has('counts')) parts.push('near-identical follower, following and post counts');
+  return parts.join(', ');
+}
+
+// Groups candidates into clusters of linked accounts. Re-scans of the same
+// handle are collapsed to the latest one so an account can't cluster with itself.
+// Only bucketed candidate pairs are compared, not every pair of analyses.
+export function clusterAnalyses(candidates: ClusterCandidate[]): AccountCluster[] {
+  const latest = new Map<string, ClusterCandidate>();
+  for (const c of candidates) {
+    const key = `${c.platform}\u0000${c.username.trim().replace(/^@/, '').toLowerCase()}`;
+    const seen = latest.get(key);
+    if (!seen || new Date(c.analyzed_at) > new Date(seen.analyzed_at)) latest.set(key, c);
+  }
+  const items = [...latest.values()];
+
+  // Union-find over linked pairs, remembering why each component was linked
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasonsByRoot = new Map<number, Set<LinkReason>>();
+  const linked: [number, LinkReason[]][] = [];
+
+  for (const [i, j] of candidatePairs(items)) {
+    const reasons = linkReasons(items[i], items[j]);
+    if (!reasons) continue;
+    parent[find(i)] = find(j);
+    linked.push([i, reasons]);
+  }
+  for (const [i, reasons] of linked) {
+    const root = find(i);
+    const set = reasonsByRoot.get(root) ?? new Set<LinkReason>();
+    reasons.forEach((r) => set.add(r));
+    reasonsByRoot.set(root, set);
+  }
+
+  const groups = new Map<number, ClusterCandidate[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+
+  const clusters: AccountCluster[] = [];
+  for (const [root, members] of groups) {
+    if (members.length < MIN_CLUSTER_SIZE) continue;
+
+    const templateCounts = new Map<string, number>();
+    members.forEach((m) => {
+      const t = usernameTemplate(m.username);
+      templateCounts.set(t, (templateCounts.get(t) ?? 0) + 1);
+    });
+    const [topTemplate, topCount] = [...templateCounts].sort((a, b) => b[1] - a[1])[0];
+    const username_template = isDistinctiveTemplate(topTemplate) && topCount * 2 >= members.length ? topTemplate : null;
+
+    const created = members.map(createdAt).filter((t): t is number => t !== null);
+
+    clusters.push({
+      platform: members[0].platform,
+      username_template,
+      signature: describe(reasonsByRoot.get(root) ?? new Set(), username_template),
+      size: members.length,
+      created_from: created.length ? toDate(Math.min(...created)) : null,
+      created_to: created.length ? toDate(Math.max(...created)) : null,
+      members: members.map((m) => ({
+        analysis_id: m.id,
+        username: m.username,
+        followers_count: m.followers_count,
+        following_count: m.following_count,
+        posts_count: m.posts_count,
+        created_on: toDate(createdAt(m)),
+      })),
+    });
+  }
+
+  return clusters.sort((a, b) => b.size - a.size);
+}
+
+// The cluster a new profile belongs to, if it is an existing member or links
+// to at least two of the members. `size` then counts the profile itself.
+export function matchCluster(
+  candidate: ClusterCandidate,
+  clusters: (AccountCluster & { id: string })[],
+): ClusterMatch | null {
+  const handle = candidate.username.trim().replace(/^@/, '').toLowerCase();
+  let best: ClusterMatch | null = null;
+
+  for (const cluster of clusters) {
+    if (cluster.platform !== candidate.platform) continue;
+    const isMember = cluster.members.some((m) => m.username.trim().replace(/^@/, '').toLowerCase() === handle);
+    let links = 0;
+    if (!isMember) {
+      for (const m of cluster.members) {
+        const member: ClusterCandidate = {
+          id: m.analysis_id,
+          username: m.username,
+          platform: cluster.platform,
+          followers_count: m.followers_count,
+          following_count: m.following_count,
+          posts_count: m.posts_count,
+          // Members store their creation date; express it as an age at analysis time
+          account_age: m.created_on === null ? null
+            : (new Date(candidate.analyzed_at).getTime() - new Date(m.created_on).getTime()) / DAY_MS,
+          analyzed_at: candidate.analyzed_at,
+        };
+        if (linkReasons(candidate, member) && ++links >= 2) break;
+      }
+    }
+    if (!isMember && links < Math.min(2, cluster.members.length)) continue;
+
+    const size = cluster.size + (isMember ? 0 : 1);
+    if (!best || size > best.size) best = { id: cluster.id, size, signature: cluster.signature };
+  }
+
+  return best;
+}
@@ -0,0 +1,227 @@
+// Unicode lookalike and hidden-character analysis for usernames and display
+// names. Impersonators swap Latin letters for identical-looking Cyrillic or
+// Greek ones ("аcme" with a Cyrillic "а"), mix writing systems inside one word
+// and pad names with zero-width characters that make two handles look equal.
+
+export type NameField = 'username' | 'display_name';
+
+export interface ConfusableChar {
+  index: number;        // position in the name, counted in code points
+  char: string;
+  codepoint: string;    // e.g. "U+0430"
+  script: string;
+  looks_like: string;   // the ASCII character it imitates
+}
+
+export interface InvisibleChar {
+  index: number;
+  codepoint: string;
+  name: string;
+}
+
+export interface ConfusableAnalysis {
+  skeleton: string;                 // ASCII-folded form used for matching
+  scripts: string[];                // writing systems of the letters used
+  mixed_script_words: string[];     // words mixing scripts that don't belong together
+  confusables: ConfusableChar[];
+  invisible: InvisibleChar[];
+}
+
+// Subset of the Unicode confusables table (UTS #39) covering the letters
+// that pass for ASCII in common fonts. Fullwidth and mathematical letters
+// are folded by NFKC before this table is consulted.
+export const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k',
+  'ӏ': 'l', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'т': 't', 'ԝ': 'w', 'х': 'x', 'у': 'y',
+  'ү': 'y', 'ь': 'b',
+  'А': 'A', 'В': 'B', 'С': 'C', 'Е': 'E', 'Н': 'H', 'І': 'I', 'Ј': 'J', 'К': 'K', 'М': 'M',
+  'О': 'O', 'Р': 'P', 'Ԛ': 'Q', 'Ѕ': 'S', 'Т': 'T', 'Ԝ': 'W', 'Х': 'X', 'У': 'Y', 'Ү': 'Y',
+  'Ӏ': 'l', 'З': '3',
+  // Greek
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u',
+  'χ': 'x', 'γ': 'y',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N',
+  'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+  // Armenian
+  'ա': 'w', 'հ': 'h', 'ո': 'n', 'ս': 'u', 'ց': 'g', 'զ': 'q', 'օ': 'o', 'Տ': 'S', 'Օ': 'O',
+  // Cherokee
+  'Ꭺ': 'A', 'Ᏼ': 'B', 'Ꮯ': 'C', 'Ꭼ': 'E', 'Ꮐ': 'G', 'Ꮋ': 'H', 'Ꭻ': 'J', 'Ꮶ': 'K', 'Ꮮ': 'L',
+  'Ꮇ': 'M', 'Ꮲ': 'P', 'Ꮪ': 'S', 'Ꭲ': 'T', 'Ꮩ': 'V', 'Ꮃ': 'W', 'Ꮓ': 'Z',
+  // Latin letters that aren't the ASCII ones
+  'ı': 'i', 'ȷ': 'j', 'ɑ': 'a', 'ɡ': 'g', 'ɩ': 'i', 'ɪ': 'i', 'ʏ': 'y', 'ᴏ': 'o', 'ᴄ': 'c',
+  'ꞵ': 'b', 'ƽ': 's',
+};
+
+// Characters that render as nothing (or as a blank) but still make a
+// string different from the one it imitates
+const INVISIBLE_NAMES: Record<number, string> = {
+  0x00ad: 'SOFT HYPHEN',
+  0x034f: 'COMBINING GRAPHEME JOINER',
+  0x115f: 'HANGUL CHOSEONG FILLER',
+  0x1160: 'HANGUL JUNGSEONG FILLER',
+  0x180e: 'MONGOLIAN VOWEL SEPARATOR',
+  0x200b: 'ZERO WIDTH SPACE',
+  0x200c: 'ZERO WIDTH NON-JOINER',
+  0x200d: 'ZERO WIDTH JOINER',
+  0x200e: 'LEFT-TO-RIGHT MARK',
+  0x200f: 'RIGHT-TO-LEFT MARK',
+  0x202a: 'LEFT-TO-RIGHT EMBEDDING',
+  0x202b: 'RIGHT-TO-LEFT EMBEDDING',
+  0x202c: 'POP DIRECTIONAL FORMATTING',
+  0x202d: 'LEFT-TO-RIGHT OVERRIDE',
+  0x202e: 'RIGHT-TO-LEFT OVERRIDE',
+  0x2060: 'WORD JOINER',
+  0x2061: 'FUNCTION APPLICATION',
+  0x2062: 'INVISIBLE TIMES',
+  0x2063: 'INVISIBLE SEPARATOR',
+  0x2064: 'INVISIBLE PLUS',
+  0x2066: 'LEFT-TO-RIGHT ISOLATE',
+  0x2067: 'RIGHT-TO-LEFT ISOLATE',
+  0x2068: 'FIRST STRONG ISOLATE',
+  0x2069: 'POP DIRECTIONAL ISOLATE',
+  0x2800: 'BRAILLE PATTERN BLANK',
+  0x3164: 'HANGUL FILLER',
+  0xfeff: 'ZERO WIDTH NO-BREAK SPACE',
+  0xffa0: 'HALFWIDTH HANGUL FILLER',
+};
+
+function invisibleName(codepoint: number): string | null {
+  if (codepoint >= 0xe0000 && codepoint <= 0xe007f) return 'TAG CHARACTER';
+  return INVISIBLE_NAMES[codepoint] ?? null;
+}
+
+const SCRIPTS: { name: string; pattern: RegExp }[] = [
+  { name: 'Latin', pattern: /\p{Script=Latin}/u },
+  { name: 'Cyrillic', pattern: /\p{Script=Cyrillic}/u },
+  { name: 'Greek', pattern: /\p{Script=Greek}/u },
+  { name: 'Armenian', pattern: /\p{Script=Armenian}/u },
+  { name: 'Cherokee', pattern: /\p{Script=Cherokee}/u },
+  { name: 'Georgian', pattern: /\p{Script=Georgian}/u },
+  { name: 'Arabic', pattern: /\p{Script=Arabic}/u },
+  { name: 'Hebrew', pattern: /\p{Script=Hebrew}/u },
+  { name: 'Devanagari', pattern: /\p{Script=Devanagari}/u },
+  { name: 'Thai', pattern: /\p{Script=Thai}/u },
+  { name: 'Han', pattern: /\p{Script=Han}/u },
+  { name: 'Hiragana', pattern: /\p{Script=Hiragana}/u },
+  { name: 'Katakana', pattern: /\p{Script=Katakana}/u },
+  { name: 'Bopomofo', pattern: /\p{Script=Bopomofo}/u },
+  { name: 'Hangul', pattern: /\p{Script=Hangul}/u },
+];
+
+// Script mixes that are normal inside one word (UTS #39 "highly restrictive")
+const ALLOWED_MIXES = [
+  ['Latin', 'Han', 'Hiragana', 'Katakana'],
+  ['Latin', 'Han', 'Bopomofo'],
+  ['Latin', 'Han', 'Hangul'],
+];
+
+// Letters shared by several scripts (e.g. the katakana-hiragana "ー") don't count
+function scriptOf(char: string): string | null {
+  if (!/\p{L}/u.test(char) || /[\p{Script=Common}\p{Script=Inherited}]/u.test(char)) return null;
+  return SCRIPTS.find((s) => s.pattern.test(char))?.name ?? 'Other';
+}
+
+function isMixed(scripts: Set<string>): boolean {
+  if (scripts.size <= 1) return false;
+  return !ALLOWED_MIXES.some((allowed) => [...scripts].every((s) => allowed.includes(s)));
+}
+
+function codepointLabel(codepoint: number): string {
+  return `U+${codepoint.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+// Joiners are legitimate inside emoji sequences (👩‍💻) and in scripts that
+// shape letters (Arabic, Indic); anywhere else they only hide a difference
+function isLegitimateJoiner(chars: string[], i: number): boolean {
+  const codepoint = chars[i].codePointAt(0);
+  if (codepoint !== 0x200c && codepoint !== 0x200d) return false;
+  const before = chars[i - 1] ?? '';
+  const after = chars[i + 1] ?? '';
+  if (EMOJI.test(before) && EMOJI.test(after)) return true;
+  const shaping = (c: string) => ['Arabic', 'Devanagari'].includes(scriptOf(c) ?? '');
+  return shaping(before) && shaping(after);
+}
+
+// NFKC-folds, drops hidden characters and diacritics and maps lookalikes to
+// ASCII, so "аcmеbank" spelled with Cyrillic letters or padded with a zero-
+// width space compares equal to "acmebank". Case is kept.
+export function unicodeSkeleton(text: string): string {
+  const chars = Array.from(text.normalize('NFKC'));
+  return chars
+    .filter((c) => invisibleName(c.codePointAt(0)!) === null)
+    .map((c) => CONFUSABLES[c] ?? c)
+    .join('')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .normalize('NFC');
+}
+
+export function analyzeConfusables(text: string, field: NameField): ConfusableAnalysis {
+  const chars = Array.from(text);
+  const invisible: InvisibleChar[] = [];
+  const confusables: ConfusableChar[] = [];
+  const mixed_script_words: string[] = [];
+  const allScripts = new Set<string>();
+
+  chars.forEach((char, index) => {
+    const codepoint = char.codePointAt(0)!;
+    const name = invisibleName(codepoint);
+    if (name && !isLegitimateJoiner(chars, index)) invisible.push({ index, codepoint: codepointLabel(codepoint), name });
+  });
+
+  // Walk whitespace-separated words, remembering where each starts
+  let index = 0;
+  for (const word of text.split(/(\s+)/u)) {
+    const wordChars = Array.from(word);
+    const start = index;
+    index += wordChars.length;
+    if (!word.trim()) continue;
+
+    const scripts = new Set<string>();
+    const letters: { char: string; index: number; script: string }[] = [];
+    wordChars.forEach((raw, i) => {
+      // Fold fullwidth and mathematical letters before deciding their script
+      const char = raw.normalize('NFKC');
+      const script = scriptOf(char);
+      if (!script) return;
+      scripts.add(script);
+      allScripts.add(script);
+      letters.push({ char: raw, index: start + i, script });
+    });
+
+    const mixed = isMixed(scripts);
+    if (mixed) mixed_script_words.push(word);
+
+    // A lookalike is only suspect when it poses as Latin: next to Latin
+    // letters, or, in a handle, when the whole word is spelled in lookalikes
+    const lookalikes = letters.filter((l) => l.script !== 'Latin' && CONFUSABLES[l.char.normalize('NFKC')]);
+    const latinCompanions = scripts.has('Latin');
+    const wholeWordLookalike = field === 'username' && lookalikes.length > 0
+      && lookalikes.length === letters.filter((l) => l.script !== 'Latin').length;
+    const latinLookalikes = letters.filter((l) => l.script === 'Latin' && CONFUSABLES[l.char]);
+
+    if (latinCompanions || wholeWordLookalike) {
+      for (const l of [...lookalikes, ...(mixed || field === 'username' ? latinLookalikes : [])]) {
+        const codepoint = l.char.codePointAt(0)!;
+        confusables.push({
+          index: l.index,
+          char: l.char,
+          codepoint: codepointLabel(codepoint),
+          script: l.script,
+          looks_like: CONFUSABLES[l.char.normalize('NFKC')],
+        });
+      }
+    }
+  }
+
+  return {
+    skeleton: unicodeSkeleton(text),
+    scripts: [...allScripts],
+    mixed_script_words,
+    confusables: confusables.sort((a, b) => a.index - b.index),
+    invisible,
+  };
+}
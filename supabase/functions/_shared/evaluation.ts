@@ -0,0 +1,156 @@
+// Accuracy of stored verdicts against analyst-confirmed ground truth. Analysts
+// only ever confirm an account as fake or real; "suspicious" is a model
+// hedge, so it never counts as a correct answer but does count as a flag.
+
+import type { RiskLabel } from './scoring.ts';
+
+export type GroundTruth = 'fake' | 'real';
+
+export const GROUND_TRUTHS: GroundTruth[] = ['fake', 'real'];
+
+export interface LabeledPrediction {
+  predicted: RiskLabel;
+  truth: GroundTruth;
+  platform: string;
+}
+
+// Ratios are 0–1, null when the denominator is empty
+export interface ClassMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  support: number;       // confirmed accounts of this class
+  predicted: number;     // verdicts the model gave for this class
+}
+
+export interface EvaluationReport {
+  total: number;
+  accuracy: number | null;
+  // confusion[truth][predicted] = number of analyses
+  confusion: Record<GroundTruth, Record<RiskLabel, number>>;
+  labels: Record<GroundTruth, ClassMetrics>;
+  // Fake or suspicious verdicts treated as catching a confirmed fake
+  flagged: ClassMetrics;
+}
+
+export interface PlatformEvaluation {
+  platform: string;
+  report: EvaluationReport;
+}
+
+// Pairs each stored verdict with the analyst's confirmed outcome, dropping
+// analyses nobody has reviewed
+export function labeledPredictions(
+  results: { id: string; label: RiskLabel; platform: string }[],
+  truths: Map<string, { label: GroundTruth }>,
+): LabeledPrediction[] {
+  return results.flatMap((r) => {
+    const truth = truths.get(r.id);
+    return truth ? [{ predicted: r.label, truth: truth.label, platform: r.platform }] : [];
+  });
+}
+
+const ratio = (num: number, den: number) => (den > 0 ? Math.round((num / den) * 1000) / 1000 : null);
+
+function classMetrics(truePositives: number, predicted: number, support: number): ClassMetrics {
+  const precision = ratio(truePositives, predicted);
+  const recall = ratio(truePositives, support);
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? Math.round(((2 * precision * recall) / (precision + recall)) * 1000) / 1000
+    : null;
+  return { precision, recall, f1, support, predicted };
+}
+
+export function evaluate(rows: LabeledPrediction[]): EvaluationReport {
+  const confusion: Record<GroundTruth, Record<RiskLabel, number>> = {
+    fake: { real: 0, suspicious: 0, fake: 0 },
+    real: { real: 0, suspicious: 0, fake: 0 },
+  };
+  for (const row of rows) confusion[row.truth][row.predicted]++;
+
+  const support = (truth: GroundTruth) => confusion[truth].real + confusion[truth].suspicious + confusion[truth].fake;
+  const predicted = (label: RiskLabel) => confusion.fake[label] + confusion.real[label];
+  const correct = confusion.fake.fake + confusion.real.real;
+
+  return {
+    total: rows.length,
+    accuracy: ratio(correct, rows.length),
+    confusion,
+    labels: {
+      fake: classMetrics(confusion.fake.fake, predicted('fake'), support('fake')),
+      real: classMetrics(confusion.real.real, predicted('real'), support('real')),
+    },
+    flagged: classMetrics(
+      confusion.fake.fake + confusion.fake.suspicious,
+      predicted('fake') + predicted('suspicious'),
+      support('fake'),
+    ),
+  };
+}
+
+// One report per platform, most-labeled platform first
+export function evaluateByPlatform(rows: LabeledPrediction[]): PlatformEvaluation[] {
+  const groups = new Map<string, LabeledPrediction[]>();
+  for (const row of rows) {
+    const group = groups.get(row.platform) ?? [];
+    group.push(row);
+    groups.set(row.platform, group);
+  }
+  return [...groups]
+    .map(([platform, group]) => ({ platform, report: evaluate(group) }))
+    .sort((a, b) => b.report.total - a.report.total || a.platform.localeCompare(b.platform));
+}
+
+// ─── Threshold tuning ────────────────────────────────────────────────────────
+// Treats a confirmed fake as the positive class and "score >= threshold" as
+// flagging it, so any label cutoff can be read off the same sweep.
+
+export interface ScoredOutcome {
+  score: number;
+  truth: GroundTruth;
+}
+
+export interface ThresholdPoint {
+  threshold: number;
+  tpr: number;                // recall on confirmed fakes
+  fpr: number;                // share of confirmed real accounts flagged
+  precision: number | null;   // null when nothing is flagged
+  flagged: number;
+  false_positives: number;
+}
+
+export function operatingPoint(rows: ScoredOutcome[], threshold: number): ThresholdPoint {
+  let tp = 0;
+  let fp = 0;
+  let positives = 0;
+  for (const row of rows) {
+    if (row.truth === 'fake') positives++;
+    if (row.score < threshold) continue;
+    if (row.truth === 'fake') tp++;
+    else fp++;
+  }
+  const negatives = rows.length - positives;
+  return {
+    threshold,
+    tpr: positives > 0 ? tp / positives : 0,
+    fpr: negatives > 0 ? fp / negatives : 0,
+    precision: tp + fp > 0 ? tp / (tp + fp) : null,
+    flagged: tp + fp,
+    false_positives: fp,
+  };
+}
+
+// Every integer cutoff from "flag everything" (0) to "flag nothing" (101),
+// strictest last, so the ROC curve runs from (1,1) down to (0,0)
+export function thresholdSweep(rows: ScoredOutcome[]): ThresholdPoint[] {
+  return Array.from({ length: 102 }, (_, t) => operatingPoint(rows, t));
+}
+
+// Area under the ROC curve by the trapezoid rule; 0.5 is a coin flip
+export function rocAuc(sweep: ThresholdPoint[]): number {
+  let area = 0;
+  for (let i = 1; i < sweep.length; i++) {
+    area += (sweep[i - 1].fpr - sweep[i].fpr) * (sweep[i - 1].tpr + sweep[i].tpr) / 2;
+  }
+  return Math.round(area * 1000) / 1000;
+}
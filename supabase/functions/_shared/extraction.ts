@@ -0,0 +1,174 @@
+// Strict checking of the LLM's extraction output. scrape-profile asks the
+// model for a fixed set of fields; anything else it returns is dropped, counts
+// go through our own parseCount rather than the model's arithmetic, and each
+// field is accepted or rejected on its own so one bad value never poisons the
+// rest. The errors are what the single repair re-prompt is built from.
+
+import {
+  EXTRACTION_CONFIDENCES,
+  parseCount,
+  type ExtractedField,
+  type ExtractedProfile,
+  type ExtractionConfidence,
+  type FieldProvenance,
+  type ParsedPage,
+} from './parsers.ts';
+
+export interface ValidatedExtraction {
+  values: Partial<ExtractedProfile>;   // accepted, non-null values only
+  confidence: ExtractionConfidence | null;
+  notes: string | null;
+  evidence: Partial<Record<ExtractedField, string>>;   // the page text the model says each value came from
+  errors: string[];                    // one line per rejected key or value
+}
+
+const EMPTY: ValidatedExtraction = { values: {}, confidence: null, notes: null, evidence: {}, errors: [] };
+
+// Limits match what the analysis form accepts
+const TEXT_LIMITS: Partial<Record<ExtractedField, number>> = { username: 100, display_name: 100, bio: 1000 };
+
+type FieldCheck = { value: unknown } | { error: string };
+
+function checkText(field: ExtractedField, value: unknown): FieldCheck {
+  if (typeof value !== 'string') return { error: `"${field}" must be a string or null` };
+  const text = field === 'username' ? value.trim().replace(/^@/, '') : value;
+  if (field !== 'bio' && !text.trim()) return { value: null };
+  const limit = TEXT_LIMITS[field] ?? Infinity;
+  if ([...text].length > limit) return { error: `"${field}" is longer than ${limit} characters` };
+  return { value: text };
+}
+
+function checkCount(field: ExtractedField, value: unknown): FieldCheck {
+  const count = typeof value === 'number' ? value : typeof value === 'string' ? parseCount(value) : null;
+  if (count === null || !Number.isFinite(count)) return { error: `"${field}" must be a non-negative number or null, got ${JSON.stringify(value)}` };
+  if (count < 0) return { error: `"${field}" must not be negative` };
+  return { value: count };
+}
+
+function checkTimestamps(field: ExtractedField, value: unknown): FieldCheck {
+  if (!Array.isArray(value)) return { error: `"${field}" must be an array of ISO 8601 date-time strings` };
+  const invalid = value.filter((v) => typeof v !== 'string' || Number.isNaN(new Date(v).getTime()));
+  if (invalid.length) return { error: `"${field}" has entries that are not ISO 8601 date-times: ${JSON.stringify(invalid.slice(0, 3))}` };
+  return { value: value.length ? (value as string[]).map((v) => new Date(v).toISOString()) : null };
+}
+
+function checkBoolean(field: ExtractedField, value: unknown): FieldCheck {
+  return typeof value === 'boolean' ? { value } : { error: `"${field}" must be true or false` };
+}
+
+const FIELD_CHECKS: Record<ExtractedField, (field: ExtractedField, value: unknown) => FieldCheck> = {
+  username: checkText,
+  display_name: checkText,
+  followers_count: checkCount,
+  following_count: checkCount,
+  posts_count: checkCount,
+  bio: checkText,
+  bio_length: checkCount,
+  avg_likes: checkCount,
+  avg_comments: checkCount,
+  avg_views: checkCount,
+  post_timestamps: checkTimestamps,
+  account_age: checkCount,
+  has_profile_pic: checkBoolean,
+};
+
+// The model's reply as JSON: code fences and any chatter around the object are ignored
+export function parseModelJson(content: string): { json: unknown } | { error: string } {
+  const unfenced = content.replace(/```(?:json)?\s*/gi, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start < 0 || end < start) return { error: 'The reply did not contain a JSON object' };
+  try {
+    return { json: JSON.parse(unfenced.slice(start, end + 1)) };
+  } catch (err) {
+    return { error: `The reply was not valid JSON: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+// Checks the model's output against the fields that were asked for. A null
+// means "not on the page" and is accepted without producing a value.
+export function validateExtraction(raw: unknown, fields: ExtractedField[]): ValidatedExtraction {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ...EMPTY, errors: ['The reply must be a single JSON object'] };
+  }
+  const record = raw as Record<string, unknown>;
+  const result: ValidatedExtraction = { values: {}, confidence: null, notes: null, evidence: {}, errors: [] };
+
+  for (const key of Object.keys(record)) {
+    if (!(fields as string[]).includes(key) && !['confidence', 'notes', 'evidence'].includes(key)) {
+      result.errors.push(`Unexpected key "${key}"`);
+    }
+  }
+
+  for (const field of fields) {
+    if (!(field in record)) {
+      result.errors.push(`Missing key "${field}" (use null if it is not on the page)`);
+      continue;
+    }
+    if (record[field] === null) continue;
+    const check = FIELD_CHECKS[field](field, record[field]);
+    if ('error' in check) result.errors.push(check.error);
+    else if (check.value !== null) (result.values as Record<string, unknown>)[field] = check.value;
+  }
+
+  if (EXTRACTION_CONFIDENCES.includes(record.confidence as ExtractionConfidence)) {
+    result.confidence = record.confidence as ExtractionConfidence;
+  } else {
+    result.errors.push('"confidence" must be "high", "medium" or "low"');
+  }
+  if (typeof record.notes === 'string') result.notes = record.notes;
+  else if (record.notes !== undefined && record.notes !== null) result.errors.push('"notes" must be a string');
+
+  // Quotes are optional; a value without one is simply reported as unsupported
+  const evidence = record.evidence;
+  if (evidence && typeof evidence === 'object' && !Array.isArray(evidence)) {
+    for (const [field, quote] of Object.entries(evidence as Record<string, unknown>)) {
+      if (!(fields as string[]).includes(field)) result.errors.push(`Unexpected evidence key "${field}"`);
+      else if (typeof quote === 'string' && quote.trim()) result.evidence[field as ExtractedField] = quote.trim().slice(0, 200);
+    }
+  } else if (evidence !== undefined && evidence !== null) {
+    result.errors.push('"evidence" must be an object of field → quoted page text');
+  }
+
+  return result;
+}
+
+// Field by field, a value the repair attempt got right wins; otherwise the
+// first attempt's accepted value stands
+export function mergeExtractions(first: ValidatedExtraction, repaired: ValidatedExtraction): ValidatedExtraction {
+  return {
+    values: { ...first.values, ...repaired.values },
+    confidence: repaired.confidence ?? first.confidence,
+    notes: repaired.notes ?? first.notes,
+    evidence: { ...first.evidence, ...repaired.evidence },
+    errors: repaired.errors,
+  };
+}
+
+export function repairPrompt(errors: string[]): string {
+  return `Your JSON did not match the required schema:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Return the corrected JSON object with exactly the requested keys. Use null for anything not visible on the page. Return ONLY valid JSON, no extra text.`;
+}
+
+const normalize = (text: string) => text.replace(/[*_`]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Per-field source, confidence and supporting snippet. Parser evidence is taken
+// as is. An LLM value keeps the model's confidence only when its quote can be
+// found in the page text it was shown; otherwise it is marked low.
+export function fieldProvenance(
+  fields: ExtractedField[], parsed: ParsedPage, ai: ValidatedExtraction | null, pageText: string,
+): Record<ExtractedField, FieldProvenance> {
+  const haystack = normalize(pageText);
+  return Object.fromEntries(fields.map((field): [ExtractedField, FieldProvenance] => {
+    const evidence = parsed.evidence[field];
+    if (evidence) return [field, { source: 'parser', ...evidence }];
+    if (ai && ai.values[field] !== undefined) {
+      const quote = ai.evidence[field] ?? null;
+      const supported = quote !== null && haystack.includes(normalize(quote));
+      return [field, { source: 'llm', confidence: supported ? ai.confidence ?? 'medium' : 'low', snippet: quote }];
+    }
+    return [field, { source: 'default', confidence: 'low', snippet: null }];
+  })) as Record<ExtractedField, FieldProvenance>;
+}
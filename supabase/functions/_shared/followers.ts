@@ -0,0 +1,81 @@
+// Follower samples: a handful of the accounts following a profile, each scored
+// on its own so the share of bot-like followers can count against the parent.
+
+export interface FollowerSampleEntry {
+  username: string;
+  account_age?: number | null;
+  posts_count?: number | null;
+  followers_count?: number | null;
+  following_count?: number | null;
+  bio_length?: number | null;
+  no_profile_pic?: boolean;
+}
+
+export const MAX_FOLLOWER_SAMPLE = 200;
+
+const SAMPLE_COLUMNS = ['account_age', 'posts_count', 'followers_count', 'following_count', 'bio_length'] as const;
+
+// A bare handle can only be scored on its username flags, which never reach
+// the fake threshold, so such followers are left out of the bot share
+export function hasFollowerMetrics(entry: FollowerSampleEntry): boolean {
+  return SAMPLE_COLUMNS.some((column) => typeof entry[column] === 'number');
+}
+
+// Parses pasted follower lines. Each line is a handle, optionally followed by
+// comma-separated age (days), posts, followers, following and bio length;
+// blank or "?" columns are unknown. Returns the entries and any bad lines.
+export function parseFollowerSample(text: string): { entries: FollowerSampleEntry[]; errors: string[] } {
+  const entries: FollowerSampleEntry[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    const [handle, ...columns] = line.split(',').map((part) => part.trim());
+    const username = handle.replace(/^@/, '');
+    if (!username) {
+      errors.push(`Line ${i + 1}: missing handle`);
+      return;
+    }
+    if (columns.length > SAMPLE_COLUMNS.length) {
+      errors.push(`Line ${i + 1}: expected at most ${SAMPLE_COLUMNS.length} numbers after the handle`);
+      return;
+    }
+
+    const entry: FollowerSampleEntry = { username };
+    for (const [j, column] of columns.entries()) {
+      if (column === '' || column === '?') continue;
+      const value = Number(column.replace(/_/g, ''));
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push(`Line ${i + 1}: "${column}" is not a count`);
+        return;
+      }
+      entry[SAMPLE_COLUMNS[j]] = value;
+    }
+    entries.push(entry);
+  });
+
+  return { entries, errors };
+}
+
+// Coerces a follower sample from a request body: entries without a handle are
+// dropped, and any count that is not a finite non-negative number becomes null.
+export function sanitizeFollowerSample(raw: unknown): FollowerSampleEntry[] {
+  if (!Array.isArray(raw)) return [];
+  const entries: FollowerSampleEntry[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const record = item as Record<string, unknown>;
+    const username = typeof record.username === 'string' ? record.username.trim().replace(/^@/, '') : '';
+    if (!username) continue;
+    const entry: FollowerSampleEntry = { username };
+    for (const column of SAMPLE_COLUMNS) {
+      const value = record[column];
+      entry[column] = typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+    }
+    if (record.no_profile_pic === true) entry.no_profile_pic = true;
+    entries.push(entry);
+    if (entries.length === MAX_FOLLOWER_SAMPLE) break;
+  }
+  return entries;
+}
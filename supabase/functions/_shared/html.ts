@@ -0,0 +1,113 @@
+// Minimal, dependency-free HTML handling for scraped pages. Regex-based on
+// purpose: it only has to turn a profile page into text the extractors can
+// read, and it has to run unchanged in Deno and the browser.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  middot: '·',
+  bull: '•',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Value of one attribute in an opening tag, entities decoded; null when absent
+export function htmlAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+  if (!match) return null;
+  return decodeEntities(match[1] ?? match[2] ?? match[3]);
+}
+
+// Absolute http(s) URL, or null for fragments, javascript: and the like
+export function resolveUrl(href: string, base?: string): string | null {
+  try {
+    const url = new URL(href, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// The page's own address from og:url or <link rel="canonical">, when it states one
+export function canonicalUrl(html: string): string | null {
+  for (const [tag] of html.matchAll(/<(?:meta|link)\b[^>]*>/gi)) {
+    const isCanonical = htmlAttribute(tag, 'property')?.toLowerCase() === 'og:url'
+      || htmlAttribute(tag, 'rel')?.toLowerCase() === 'canonical';
+    const href = isCanonical ? htmlAttribute(tag, 'content') ?? htmlAttribute(tag, 'href') : null;
+    const url = href === null ? null : resolveUrl(href);
+    if (url) return url;
+  }
+  return null;
+}
+
+// Every distinct link target on the page, in document order
+export function extractLinks(html: string, baseUrl?: string): string[] {
+  const links = new Set<string>();
+  for (const [tag] of html.matchAll(/<a\b[^>]*>/gi)) {
+    const href = htmlAttribute(tag, 'href');
+    const url = href === null ? null : resolveUrl(href, baseUrl);
+    if (url) links.add(url);
+  }
+  return [...links];
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, '');
+const inlineText = (html: string) => decodeEntities(stripTags(html)).replace(/\s+/g, ' ').trim();
+
+const DROPPED = /<(script|style|noscript|template|svg|head|iframe)\b[^>]*>[\s\S]*?<\/\1\s*>/gi;
+const BLOCKS = /<\/?(p|div|section|article|header|footer|main|nav|aside|ul|ol|table|thead|tbody|tr|blockquote|pre|figure|figcaption|dl|dt|dd|form|fieldset)\b[^>]*>/gi;
+
+// Readable markdown of the visible page: headings, links, images, lists and
+// paragraphs survive; scripts, styles and the <head> do not
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const markdown = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(DROPPED, '')
+    .replace(/<img\b[^>]*>/gi, (tag) => {
+      const src = htmlAttribute(tag, 'src');
+      const url = src === null ? null : resolveUrl(src, baseUrl);
+      return url ? `![${htmlAttribute(tag, 'alt') ?? ''}](${url})` : '';
+    })
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi, (_, attrs: string, inner: string) => {
+      const text = inlineText(inner.replace(/<img\b[^>]*>/gi, ''));
+      const href = htmlAttribute(` ${attrs}`, 'href');
+      const url = href === null ? null : resolveUrl(href, baseUrl);
+      return url && text ? `[${text}](${url})` : text;
+    })
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inlineText(inner)}\n\n`)
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_, __, inner: string) => {
+      const text = inlineText(inner);
+      return text ? `**${text}**` : '';
+    })
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_, __, inner: string) => {
+      const text = inlineText(inner);
+      return text ? `_${text}_` : '';
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(li|td|th)\s*>/gi, ' ')
+    .replace(BLOCKS, '\n\n');
+
+  return decodeEntities(stripTags(markdown))
+    .split('\n')
+    .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
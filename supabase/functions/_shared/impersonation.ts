@@ -0,0 +1,138 @@
+// Lookalike-handle matching against the protected-handles watchlist. Catches
+// the usual impersonation tricks: padding the real handle ("official_acme",
+// "acme_support"), swapping lookalike characters ("acrne", "4cme") and small
+// typos.
+
+import { unicodeSkeleton } from './confusables.ts';
+
+export interface ProtectedHandle {
+  handle: string;
+  platform: string | null;   // null protects the handle on every platform
+  label: string | null;      // who the handle belongs to, e.g. "Acme Corp CEO"
+}
+
+export interface ImpersonationMatch {
+  handle: string;
+  label: string | null;
+  distance: number;          // edit distance after stripping padding and substitutions
+  reasons: string[];
+}
+
+// Words impersonators bolt onto a real handle to make a "new" one
+const PADDING_WORDS = [
+  'official', 'real', 'the', 'its', 'im', 'iam', 'support', 'help', 'helpdesk', 'care',
+  'team', 'hq', 'service', 'services', 'customer', 'verified', 'admin', 'news', 'app',
+  'global', 'inc', 'us', 'uk', 'tv', 'live', 'online', 'page', 'info', 'desk',
+];
+
+// Multi-character lookalikes first so "rn" is read as "m" before "r" and "n"
+const SUBSTITUTIONS: [string, string][] = [
+  ['rn', 'm'], ['vv', 'w'], ['cl', 'd'],
+  ['0', 'o'], ['1', 'l'], ['i', 'l'], ['|', 'l'], ['!', 'l'], ['3', 'e'], ['4', 'a'],
+  ['@', 'a'], ['5', 's'], ['$', 's'], ['7', 't'], ['8', 'b'], ['9', 'g'],
+];
+
+function normalize(handle: string): string {
+  return unicodeSkeleton(handle.trim()).replace(/^@/, '').toLowerCase();
+}
+
+function withoutSeparators(handle: string): string {
+  return handle.replace(/[._-]/g, '');
+}
+
+// Collapses lookalike characters to one canonical form. Reports the swaps
+// used that the `original` handle doesn't use itself.
+function skeleton(handle: string, original = ''): { value: string; swaps: string[] } {
+  let value = withoutSeparators(handle);
+  const swaps: string[] = [];
+  for (const [from, to] of SUBSTITUTIONS) {
+    if (!value.includes(from)) continue;
+    if (!original.includes(from)) swaps.push(`${from}→${to}`);
+    value = value.split(from).join(to);
+  }
+  return { value, swaps };
+}
+
+// Strips padding words from either end of a separator-delimited handle, and
+// from the ends of an undelimited one when the rest still contains `core`
+function stripPadding(handle: string, core: string): { value: string; padding: string[] } {
+  const padding: string[] = [];
+  const parts = handle.split(/[._-]+/).filter(Boolean);
+  while (parts.length > 1 && PADDING_WORDS.includes(parts[0])) padding.push(`${parts.shift()}_`);
+  while (parts.length > 1 && PADDING_WORDS.includes(parts[parts.length - 1])) padding.push(`_${parts.pop()}`);
+
+  let value = parts.join('');
+  for (const word of PADDING_WORDS) {
+    if (value.length > word.length && value.startsWith(word) && value.slice(word.length).includes(core)) {
+      padding.push(`${word}…`);
+      value = value.slice(word.length);
+    }
+    if (value.length > word.length && value.endsWith(word) && value.slice(0, -word.length).includes(core)) {
+      padding.push(`…${word}`);
+      value = value.slice(0, -word.length);
+    }
+  }
+  return { value, padding };
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+export function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Short handles tolerate fewer edits before they stop looking like the original
+function maxDistance(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+export function matchProtectedHandle(
+  username: string,
+  watchlist: ProtectedHandle[],
+  platform?: string | null,
+): ImpersonationMatch | null {
+  const literal = username.trim().replace(/^@/, '').toLowerCase();
+  const candidate = normalize(username);
+  if (!candidate) return null;
+  const unicodeTricks = candidate !== literal;
+  let best: ImpersonationMatch | null = null;
+
+  for (const entry of watchlist) {
+    if (entry.platform && platform && entry.platform !== platform) continue;
+    const protectedHandle = normalize(entry.handle);
+    // The protected account itself is not an impersonator; a copy spelled
+    // with lookalike characters is
+    if (!protectedHandle || literal === entry.handle.trim().replace(/^@/, '').toLowerCase()) continue;
+
+    const target = skeleton(protectedHandle).value;
+    const { value: unpadded, padding } = stripPadding(candidate, target);
+    const { value: comparable, swaps } = skeleton(unpadded, withoutSeparators(protectedHandle));
+    const distance = editDistance(comparable, target);
+    if (distance > maxDistance(target.length)) continue;
+
+    const reasons: string[] = [];
+    if (unicodeTricks) reasons.push('Unicode lookalike or hidden characters');
+    if (padding.length) reasons.push(`padded with ${padding.map((p) => `"${p}"`).join(', ')}`);
+    if (swaps.length) reasons.push(`lookalike characters ${swaps.join(', ')}`);
+    if (distance > 0) reasons.push(`${distance} character${distance === 1 ? '' : 's'} changed`);
+    if (!reasons.length) reasons.push('same handle with punctuation or case changed');
+
+    if (!best || distance < best.distance) {
+      best = { handle: entry.handle.replace(/^@/, ''), label: entry.label, distance, reasons };
+    }
+  }
+
+  return best;
+}
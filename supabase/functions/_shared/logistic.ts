@@ -0,0 +1,220 @@
+// A learned alternative to the additive rule score: logistic regression over
+// the same metrics the rules read, fitted to analyst-confirmed outcomes
+// (ground_truth_labels). Trained by the train-model edge function and stored
+// as plain JSON in scoring_models, so analyze-profile and the app score with
+// the exact same coefficients.
+
+import {
+  labelForScore,
+  profileMetrics,
+  type LabelThresholds,
+  type ProfileInput,
+  type RiskLabel,
+  type RuleMetric,
+} from './scoring.ts';
+import { rocAuc, thresholdSweep, type GroundTruth } from './evaluation.ts';
+
+// log: heavy-tailed counts, compared by order of magnitude
+// present: 1 when the metric is known at all (e.g. a watchlist match)
+export type FeatureTransform = 'linear' | 'log' | 'present';
+
+export interface FeatureSpec {
+  metric: RuleMetric;
+  transform: FeatureTransform;
+}
+
+export const LOGISTIC_FEATURES: FeatureSpec[] = [
+  { metric: 'account_age', transform: 'log' },
+  { metric: 'posts_count', transform: 'log' },
+  { metric: 'followers_count', transform: 'log' },
+  { metric: 'following_count', transform: 'log' },
+  { metric: 'bio_length', transform: 'linear' },
+  { metric: 'follower_ratio', transform: 'log' },
+  { metric: 'posts_per_day', transform: 'log' },
+  { metric: 'followers_per_day', transform: 'log' },
+  { metric: 'bio_spam_keywords', transform: 'linear' },
+  { metric: 'bio_links', transform: 'linear' },
+  { metric: 'bio_template', transform: 'linear' },
+  { metric: 'engagement_vs_expected', transform: 'log' },
+  { metric: 'cadence_interval_cv', transform: 'linear' },
+  { metric: 'follower_bot_pct', transform: 'linear' },
+  { metric: 'cluster_size', transform: 'present' },
+  { metric: 'follower_change_pct', transform: 'linear' },
+  { metric: 'impersonation_distance', transform: 'present' },
+  { metric: 'name_confusables', transform: 'linear' },
+  { metric: 'name_invisible_chars', transform: 'linear' },
+  { metric: 'numbers_heavy', transform: 'linear' },
+  { metric: 'no_profile_pic', transform: 'linear' },
+  { metric: 'random_characters', transform: 'linear' },
+  { metric: 'very_short', transform: 'linear' },
+  { metric: 'keyboard_walk', transform: 'linear' },
+  { metric: 'bot_template', transform: 'linear' },
+];
+
+// One coefficient per standardised feature. Unknown values are imputed with
+// the training mean, i.e. they contribute nothing.
+export interface LogisticFeature extends FeatureSpec {
+  mean: number;
+  std: number;
+  coefficient: number;
+}
+
+export interface LogisticModel {
+  kind: 'logistic';
+  intercept: number;
+  features: LogisticFeature[];
+}
+
+export interface TrainingSample {
+  input: ProfileInput;
+  truth: GroundTruth;
+}
+
+export interface TrainingReport {
+  samples: number;
+  fakes: number;
+  reals: number;
+  train_auc: number;
+  validation_auc: number | null;   // held-out every fifth sample; null when a class is missing there
+  validation_samples: number;
+}
+
+export interface TrainOptions {
+  iterations?: number;
+  learning_rate?: number;
+  l2?: number;
+}
+
+// Fewer than this per class and the fit is noise
+export const MIN_SAMPLES_PER_CLASS = 5;
+
+function transform(value: number | null, kind: FeatureTransform): number | null {
+  if (kind === 'present') return value === null ? 0 : 1;
+  if (value === null) return null;
+  return kind === 'log' ? Math.log1p(Math.max(0, value)) : value;
+}
+
+function rawFeatures(input: ProfileInput, specs: FeatureSpec[]): (number | null)[] {
+  const metrics = profileMetrics(input);
+  return specs.map((f) => transform(metrics[f.metric], f.transform));
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+function fit(rows: (number | null)[][], truths: GroundTruth[], specs: FeatureSpec[], options: Required<TrainOptions>): LogisticModel {
+  const stats = specs.map((_, j) => {
+    const known = rows.map((r) => r[j]).filter((v): v is number => v !== null);
+    const mean = known.length ? known.reduce((a, b) => a + b, 0) / known.length : 0;
+    const variance = known.length ? known.reduce((a, b) => a + (b - mean) ** 2, 0) / known.length : 0;
+    // A constant feature carries no signal; keep it harmless rather than divide by zero
+    return { mean, std: variance > 0 ? Math.sqrt(variance) : 1 };
+  });
+  const x = rows.map((r) => r.map((v, j) => (v === null ? 0 : (v - stats[j].mean) / stats[j].std)));
+  const y = truths.map((t) => (t === 'fake' ? 1 : 0));
+
+  // Weight the classes equally so a mostly-real sample still learns what fakes look like
+  const positives = y.filter((v) => v === 1).length;
+  const balanced = positives > 0 && positives < y.length;
+  const weightOf = (label: number) => (!balanced ? 1
+    : label === 1 ? y.length / (2 * positives) : y.length / (2 * (y.length - positives)));
+
+  const weights = specs.map(() => 0);
+  let intercept = 0;
+  for (let iter = 0; iter < options.iterations; iter++) {
+    const grad = specs.map(() => 0);
+    let gradIntercept = 0;
+    for (let i = 0; i < x.length; i++) {
+      const p = sigmoid(intercept + x[i].reduce((sum, v, j) => sum + v * weights[j], 0));
+      const err = (p - y[i]) * weightOf(y[i]);
+      gradIntercept += err;
+      for (let j = 0; j < weights.length; j++) grad[j] += err * x[i][j];
+    }
+    intercept -= options.learning_rate * (gradIntercept / x.length);
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] -= options.learning_rate * (grad[j] / x.length + options.l2 * weights[j]);
+    }
+  }
+
+  const round = (n: number) => Math.round(n * 1e6) / 1e6;
+  return {
+    kind: 'logistic',
+    intercept: round(intercept),
+    features: specs.map((spec, j) => ({
+      ...spec,
+      mean: round(stats[j].mean),
+      std: round(stats[j].std),
+      coefficient: round(weights[j]),
+    })),
+  };
+}
+
+// Stored models are plain JSON; check the shape before scoring with one
+export function isLogisticModel(value: unknown): value is LogisticModel {
+  const model = value as LogisticModel;
+  return !!model && model.kind === 'logistic' && Number.isFinite(model.intercept)
+    && Array.isArray(model.features)
+    && model.features.every((f) => typeof f.metric === 'string'
+      && ['linear', 'log', 'present'].includes(f.transform)
+      && Number.isFinite(f.mean) && Number.isFinite(f.std) && f.std > 0 && Number.isFinite(f.coefficient));
+}
+
+// Probability that the profile is fake, 0–1
+export function logisticProbability(model: LogisticModel, input: ProfileInput): number {
+  const values = rawFeatures(input, model.features);
+  const z = model.features.reduce(
+    (sum, f, j) => sum + (values[j] === null ? 0 : ((values[j] as number - f.mean) / f.std) * f.coefficient),
+    model.intercept,
+  );
+  return sigmoid(z);
+}
+
+export interface LearnedScore {
+  risk_score: number;
+  label: RiskLabel;
+}
+
+// Scaled to the 0–100 risk score so the same label thresholds apply
+export function scoreWithModel(model: LogisticModel, input: ProfileInput, thresholds?: LabelThresholds): LearnedScore {
+  const risk_score = Math.round(logisticProbability(model, input) * 100);
+  return { risk_score, label: labelForScore(risk_score, thresholds) };
+}
+
+function aucOf(model: LogisticModel, samples: TrainingSample[]): number | null {
+  if (!samples.some((s) => s.truth === 'fake') || !samples.some((s) => s.truth === 'real')) return null;
+  return rocAuc(thresholdSweep(samples.map((s) => ({
+    score: Math.round(logisticProbability(model, s.input) * 100),
+    truth: s.truth,
+  }))));
+}
+
+// Reports validation AUC from a model fitted without every fifth sample, then
+// refits on everything for the model that is stored
+export function trainLogistic(samples: TrainingSample[], options: TrainOptions = {}): { model: LogisticModel; report: TrainingReport } {
+  const fakes = samples.filter((s) => s.truth === 'fake').length;
+  const reals = samples.length - fakes;
+  if (fakes < MIN_SAMPLES_PER_CLASS || reals < MIN_SAMPLES_PER_CLASS) {
+    throw new Error(`Need at least ${MIN_SAMPLES_PER_CLASS} confirmed fake and ${MIN_SAMPLES_PER_CLASS} confirmed real analyses (have ${fakes} and ${reals}).`);
+  }
+
+  const opts: Required<TrainOptions> = { iterations: 400, learning_rate: 0.5, l2: 0.01, ...options };
+  const rows = samples.map((s) => rawFeatures(s.input, LOGISTIC_FEATURES));
+  const truths = samples.map((s) => s.truth);
+
+  const heldOut = (i: number) => i % 5 === 4;
+  const trainIdx = samples.map((_, i) => i).filter((i) => !heldOut(i));
+  const validation = samples.filter((_, i) => heldOut(i));
+  const validationModel = fit(trainIdx.map((i) => rows[i]), trainIdx.map((i) => truths[i]), LOGISTIC_FEATURES, opts);
+  const model = fit(rows, truths, LOGISTIC_FEATURES, opts);
+
+  return {
+    model,
+    report: {
+      samples: samples.length,
+      fakes,
+      reals,
+      train_auc: aucOf(model, samples) ?? 0,
+      validation_auc: aucOf(validationModel, validation),
+      validation_samples: validation.length,
+    },
+  };
+}
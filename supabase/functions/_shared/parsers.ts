@@ -0,0 +1,333 @@
+// Deterministic profile-page parsers. scrape-profile runs these before the
+// LLM and only asks the model for the fields they could not fill, so most
+// counts come straight from the page's own markup: JSON-LD, og:/meta tags and
+// well-known phrasings like "1.2M followers" or "Joined March 2019".
+
+import type { Platform } from './platforms.ts';
+import { analyzeBio } from './bio.ts';
+import { decodeEntities, htmlAttribute } from './html.ts';
+
+export interface ExtractedProfile {
+  username: string | null;
+  display_name: string | null;
+  followers_count: number | null;
+  following_count: number | null;
+  posts_count: number | null;
+  bio: string | null;
+  bio_length: number | null;
+  avg_likes: number | null;
+  avg_comments: number | null;
+  avg_views: number | null;
+  post_timestamps: string[] | null;
+  account_age: number | null;       // days
+  has_profile_pic: boolean | null;
+}
+
+export type ExtractedField = keyof ExtractedProfile;
+
+export const EXTRACTED_FIELDS: ExtractedField[] = [
+  'username', 'display_name', 'followers_count', 'following_count', 'posts_count', 'bio', 'bio_length',
+  'avg_likes', 'avg_comments', 'avg_views', 'post_timestamps', 'account_age', 'has_profile_pic',
+];
+
+// Which step produced a field: page markup, the LLM, or nothing (left at its default)
+export type FieldSource = 'parser' | 'llm' | 'default';
+
+export type ExtractionConfidence = 'high' | 'medium' | 'low';
+
+export const EXTRACTION_CONFIDENCES: ExtractionConfidence[] = ['high', 'medium', 'low'];
+
+// Where a value was read, for analysts to check it against the page
+export interface FieldEvidence {
+  confidence: ExtractionConfidence;
+  snippet: string;
+}
+
+export interface FieldProvenance {
+  source: FieldSource;
+  confidence: ExtractionConfidence;
+  snippet: string | null;   // null for defaults, and for LLM values it did not quote
+}
+
+export interface ParsedPage {
+  values: Partial<ExtractedProfile>;
+  evidence: Partial<Record<ExtractedField, FieldEvidence>>;
+}
+
+export interface PageContent {
+  html: string | null;
+  markdown: string;
+}
+
+interface PlatformParser {
+  followers: string;      // label words, as a regex alternation
+  following: string | null;
+  posts: string | null;
+  title_suffix: RegExp;   // stripped from og:title to leave the display name
+  bio_from_description: boolean;
+  post_time_tags: boolean;  // <time datetime> elements on the page are post times
+}
+
+const GENERIC_PARSER: PlatformParser = {
+  followers: 'followers|subscribers',
+  following: 'following',
+  posts: 'posts|tweets|videos',
+  title_suffix: /\s+[|·•-]\s+[^|·•-]+$/,
+  bio_from_description: false,
+  post_time_tags: false,
+};
+
+const PLATFORM_PARSERS: Partial<Record<Platform, PlatformParser>> = {
+  'Instagram': { ...GENERIC_PARSER, posts: 'posts', title_suffix: /\s*•\s*Instagram.*$/i },
+  'Twitter/X': { ...GENERIC_PARSER, posts: 'posts|tweets', title_suffix: /\s*\/\s*(X|Twitter)$/i, bio_from_description: true, post_time_tags: true },
+  'TikTok': { ...GENERIC_PARSER, posts: 'videos', title_suffix: /\s*\|\s*TikTok$/i },
+  'Facebook': { ...GENERIC_PARSER, followers: 'followers', posts: null, title_suffix: /\s*\|\s*Facebook$/i },
+  'LinkedIn': { ...GENERIC_PARSER, followers: 'followers', following: null, posts: null, title_suffix: /\s+[-|–].*$/ },
+  'Reddit': { ...GENERIC_PARSER, followers: 'followers', following: null, posts: null, title_suffix: /\s*(\(u\/[^)]+\))?\s*-\s*Reddit$/i },
+  'YouTube': { ...GENERIC_PARSER, followers: 'subscribers', following: null, posts: 'videos', title_suffix: /\s*-\s*YouTube$/i, bio_from_description: true },
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, million: 1e6, b: 1e9, billion: 1e9,
+};
+
+// "1,234" → 1234, "15.3K" → 15300, "1.2M" → 1200000, "500+" → 500.
+// Returns null for anything that is not clearly a count.
+export function parseCount(text: string): number | null {
+  const match = text.trim().replace(/[\u00a0\u202f\u2009]/g, ' ')
+    .match(/^(\d[\d.,' ]*)\s*(k|m|b|thousand|million|billion)?\+?$/i);
+  if (!match) return null;
+  const digits = match[1].trim();
+  const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1;
+
+  let value: number;
+  if (match[2]) {
+    // Abbreviated counts carry at most one decimal separator, either . or ,
+    if (!/^\d+(?:[.,]\d+)?$/.test(digits)) return null;
+    value = parseFloat(digits.replace(',', '.'));
+  } else if (/^\d{1,3}(?:([.,' ])\d{3})(?:\1\d{3})*$/.test(digits) || /^\d+$/.test(digits)) {
+    value = Number(digits.replace(/[.,' ]/g, ''));
+  } else {
+    return null;
+  }
+  return Number.isFinite(value) ? Math.round(value * multiplier) : null;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "March 2019", "Mar 5, 2012", "5 March 2012" or an ISO date. A month
+// without a day is read as the 1st.
+export function parseJoinedDate(text: string): Date | null {
+  const iso = text.match(/\b(\d{4}-\d{2}-\d{2})(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?/);
+  if (iso) {
+    const date = new Date(iso[0].length > 10 ? iso[0] : `${iso[1]}T00:00:00Z`);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const candidates = [
+    ...[...text.matchAll(/\b([a-z]{3,9})\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})\b/gi)].map((m) => ({ at: m.index ?? 0, parts: [m[1], m[2], m[3]] })),
+    ...[...text.matchAll(/\b(\d{1,2})\s+([a-z]{3,9})\.?,?\s+(\d{4})\b/gi)].map((m) => ({ at: m.index ?? 0, parts: [m[2], m[1], m[3]] })),
+  ].sort((a, b) => a.at - b.at);
+  for (const { parts: [monthName, day, year] } of candidates) {
+    const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+    if (month >= 0) return new Date(Date.UTC(Number(year), month, day ? Number(day) : 1));
+  }
+  return null;
+}
+
+function daysSince(date: Date | null, now: Date): number | null {
+  if (!date) return null;
+  const days = Math.floor((now.getTime() - date.getTime()) / 86_400_000);
+  return days >= 0 ? days : null;
+}
+
+// A value and the piece of the page it came from
+interface Finding {
+  value: unknown;
+  snippet: string;
+}
+
+type Findings = Partial<Record<ExtractedField, Finding | null>>;
+
+const clip = (snippet: string) => (snippet.length > 160 ? `${snippet.slice(0, 157)}…` : snippet);
+
+const found = (value: unknown, snippet: string): Finding | null =>
+  (value === null || value === undefined ? null : { value, snippet });
+
+const COUNT = String.raw`(\d[\d.,'\u00a0\u202f\u2009]*\d|\d)(\s?(?:k|m|b|thousand|million|billion)\b)?\+?`;
+
+// First "<count> <label>" or "<label>: <count>" in the text
+function countBeside(text: string, labels: string): Finding | null {
+  const patterns = [
+    new RegExp(`${COUNT}\\s+(?:${labels})\\b`, 'i'),
+    new RegExp(`\\b(?:${labels})\\s*:\\s*${COUNT}`, 'i'),
+  ];
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const value = match ? parseCount(`${match[1]}${(match[2] ?? '').trim()}`) : null;
+    if (match && value !== null) return { value, snippet: match[0] };
+  }
+  return null;
+}
+
+const JOINED = /\b(?:joined|member since|cake day)\s*:?\s*(?:on\s+)?([^\n·|]{4,40})/i;
+
+function metaTags(html: string): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = htmlAttribute(tag, 'property') ?? htmlAttribute(tag, 'name');
+    const content = htmlAttribute(tag, 'content');
+    if (key && content !== null && !tags.has(key.toLowerCase())) tags.set(key.toLowerCase(), content.trim());
+  }
+  return tags;
+}
+
+type JsonLd = Record<string, unknown>;
+
+// Every JSON-LD node on the page, with @graph and mainEntity unpacked
+function jsonLdNodes(html: string): JsonLd[] {
+  const nodes: JsonLd[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!value || typeof value !== 'object') return;
+    const node = value as JsonLd;
+    nodes.push(node);
+    visit(node['@graph']);
+    visit(node.mainEntity);
+    visit(node.author);
+  };
+  for (const [, body] of html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi)) {
+    try {
+      visit(JSON.parse(body));
+    } catch {
+      // Malformed JSON-LD is common; the other sources still apply
+    }
+  }
+  return nodes;
+}
+
+const isType = (node: JsonLd, ...types: string[]) =>
+  [node['@type']].flat().some((t) => typeof t === 'string' && types.includes(t));
+
+function interactionCount(stats: unknown, action: string): Finding | null {
+  for (const stat of [stats].flat()) {
+    if (!stat || typeof stat !== 'object') continue;
+    const { interactionType, userInteractionCount } = stat as JsonLd;
+    const type = typeof interactionType === 'string' ? interactionType : (interactionType as JsonLd | undefined)?.['@type'];
+    if (typeof type === 'string' && type.endsWith(action)) {
+      const count = typeof userInteractionCount === 'number' ? userInteractionCount : parseCount(String(userInteractionCount ?? ''));
+      if (count !== null && Number.isFinite(count)) {
+        return { value: Math.max(0, Math.round(count)), snippet: `${action} userInteractionCount: ${userInteractionCount}` };
+      }
+    }
+  }
+  return null;
+}
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? decodeEntities(value.trim()) : null);
+
+function fromJsonLd(nodes: JsonLd[], now: Date): Findings {
+  const page = nodes.find((n) => isType(n, 'ProfilePage'));
+  const entity = nodes.find((n) => isType(n, 'Person', 'Organization'));
+  if (!entity) return {};
+  const handleKey = text(entity.alternateName) ? 'alternateName' : 'identifier';
+  const handle = text(entity[handleKey]);
+  const name = text(entity.name);
+  const description = text(entity.description);
+  const created = text(entity.dateCreated) ?? text(page?.dateCreated);
+  return {
+    username: found(handle?.replace(/^@/, ''), `${handleKey}: "${handle}"`),
+    display_name: found(name, `name: "${name}"`),
+    bio: found(description, `description: "${description}"`),
+    followers_count: interactionCount(entity.interactionStatistic, 'FollowAction'),
+    following_count: interactionCount(entity.agentInteractionStatistic, 'FollowAction'),
+    posts_count: interactionCount(entity.agentInteractionStatistic, 'WriteAction')
+      ?? interactionCount(entity.interactionStatistic, 'WriteAction'),
+    account_age: created ? found(daysSince(parseJoinedDate(created), now), `dateCreated: "${created}"`) : null,
+    has_profile_pic: entity.image ? { value: true, snippet: 'image: present in the profile\'s structured data' } : null,
+  };
+}
+
+const DEFAULT_AVATAR = /default[_-]?(profile|avatar)|anonymous|blank[_-]?profile|no[_-]?photo/i;
+
+function fromMeta(meta: Map<string, string>, parser: PlatformParser): Findings {
+  const tag = (...keys: string[]) => {
+    const key = keys.find((k) => meta.has(k));
+    return key ? { key, content: meta.get(key)! } : null;
+  };
+  const title = tag('og:title', 'twitter:title');
+  const description = tag('og:description', 'twitter:description', 'description');
+  const image = tag('og:image', 'twitter:image');
+
+  // "Name (@handle) • Instagram …", "Name (@handle) / X", "Name (@handle) | TikTok"
+  const named = title?.content.match(/^(.*?)\s*\(@([^)\s]+)\)/);
+  const displayName = named ? named[1].trim() : title?.content.replace(parser.title_suffix, '').trim();
+  const quote = (t: { key: string; content: string }) => `${t.key}="${t.content}"`;
+
+  return {
+    username: named && title ? { value: named[2], snippet: quote(title) } : null,
+    display_name: displayName && title ? { value: displayName, snippet: quote(title) } : null,
+    bio: parser.bio_from_description && description ? { value: description.content, snippet: quote(description) } : null,
+    has_profile_pic: image ? { value: !DEFAULT_AVATAR.test(image.content), snippet: quote(image) } : null,
+  };
+}
+
+function fromText(pageText: string, parser: PlatformParser, now: Date): Findings {
+  const joined = pageText.match(JOINED);
+  return {
+    followers_count: countBeside(pageText, parser.followers),
+    following_count: parser.following ? countBeside(pageText, parser.following) : null,
+    posts_count: parser.posts ? countBeside(pageText, parser.posts) : null,
+    account_age: joined ? found(daysSince(parseJoinedDate(joined[1]), now), joined[0].trim()) : null,
+  };
+}
+
+function postTimes(html: string): Finding | null {
+  const times: string[] = [];
+  let first = '';
+  for (const [tag] of html.matchAll(/<time\b[^>]*>/gi)) {
+    const value = htmlAttribute(tag, 'datetime');
+    const date = value ? new Date(value) : null;
+    if (date && !Number.isNaN(date.getTime()) && /\d{4}-\d{2}-\d{2}T/.test(value!)) {
+      times.push(date.toISOString());
+      first ||= tag;
+    }
+  }
+  return times.length ? { value: times, snippet: `${first}${times.length > 1 ? ` and ${times.length - 1} more` : ''}` } : null;
+}
+
+// Everything the page states outright, with the snippet each value was read
+// from. Fields it does not state are absent, never null, so the caller can
+// tell "not found" from "found empty".
+export function parseProfilePage(platform: Platform, page: PageContent, now: Date = new Date()): ParsedPage {
+  const parser = PLATFORM_PARSERS[platform] ?? GENERIC_PARSER;
+  const html = page.html ?? '';
+  const meta = metaTags(html);
+  const pageText = [meta.get('og:description'), meta.get('description'), page.markdown]
+    .filter(Boolean)
+    .join('\n')
+    .replace(/\*\*|__/g, '');
+
+  // Earlier sources win: structured data, then meta tags, then visible text.
+  // Free text can also match inside a post, so it carries less weight.
+  const sources: [Findings, ExtractionConfidence][] = [
+    [fromJsonLd(jsonLdNodes(html), now), 'high'],
+    [fromMeta(meta, parser), 'high'],
+    [fromText(pageText, parser, now), 'medium'],
+    [{ post_timestamps: parser.post_time_tags ? postTimes(html) : null }, 'medium'],
+  ];
+  const parsed: ParsedPage = { values: {}, evidence: {} };
+  for (const [findings, confidence] of sources) {
+    for (const [field, finding] of Object.entries(findings) as [ExtractedField, Finding | null][]) {
+      if (finding && parsed.values[field] === undefined) {
+        (parsed.values as Record<string, unknown>)[field] = finding.value;
+        parsed.evidence[field] = { confidence, snippet: clip(finding.snippet) };
+      }
+    }
+  }
+
+  if (parsed.values.bio !== undefined) {
+    parsed.values.bio_length = analyzeBio(parsed.values.bio!).length;
+    parsed.evidence.bio_length = parsed.evidence.bio;
+  }
+  return parsed;
+}
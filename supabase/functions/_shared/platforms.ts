@@ -0,0 +1,195 @@
+// Platform detection and per-platform scoring baselines. Shared by
+// scrape-profile (detection), analyze-profile and the app (scoring).
+
+export const PLATFORMS = [
+  'Instagram',
+  'Twitter/X',
+  'TikTok',
+  'Facebook',
+  'LinkedIn',
+  'Reddit',
+  'YouTube',
+] as const;
+
+export type Platform = typeof PLATFORMS[number] | 'Unknown';
+
+// Registrable domains per platform; subdomains (www., m., mobile.) match too
+export const PLATFORM_DOMAINS: Record<typeof PLATFORMS[number], string[]> = {
+  Instagram: ['instagram.com'],
+  'Twitter/X': ['twitter.com', 'x.com'],
+  TikTok: ['tiktok.com'],
+  Facebook: ['facebook.com'],
+  LinkedIn: ['linkedin.com'],
+  Reddit: ['reddit.com'],
+  YouTube: ['youtube.com'],
+};
+
+// Exact domain or a true subdomain, so netflix.com is not x.com
+export function platformForHost(hostname: string): Platform {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  for (const platform of PLATFORMS) {
+    if (PLATFORM_DOMAINS[platform].some((d) => host === d || host.endsWith(`.${d}`))) return platform;
+  }
+  return 'Unknown';
+}
+
+// Detect platform from URL; a bare "instagram.com/name" is read as https
+export function detectPlatform(url: string): Platform {
+  try {
+    return platformForHost(new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `https://${url}`).hostname);
+  } catch {
+    return 'Unknown';
+  }
+}
+
+export interface PlatformBaseline {
+  very_new_days: number;          // younger than this is a "very new" account
+  new_days: number;               // younger than this is a "relatively new" account
+  min_follower_ratio: number;     // followers/following below this is bot-like
+  max_follower_ratio: number;     // followers/following above this suggests bought followers
+  max_posts_per_day: number;      // sustained rate above this is beyond human capability
+  max_followers_per_day: number;  // organic follower growth ceiling
+  expects_posts: boolean;         // whether an empty feed is unusual on this platform
+  expects_bio: boolean;           // whether an empty bio is unusual on this platform
+  min_bio_length: number;         // bios shorter than this are "very short"
+  engagement_rate: number;        // typical (likes + comments) / followers for a nano account, in %; 0 = no signal
+  min_view_rate: number;          // avg views per follower below this suggests inactive followers; 0 = no signal
+}
+
+export type BaselineMetric = {
+  [K in keyof PlatformBaseline]: PlatformBaseline[K] extends number ? K : never
+}[keyof PlatformBaseline];
+
+export const BASELINE_METRICS: { value: BaselineMetric; label: string }[] = [
+  { value: 'very_new_days', label: 'Very-new age (days)' },
+  { value: 'new_days', label: 'New age (days)' },
+  { value: 'min_follower_ratio', label: 'Min follower ratio' },
+  { value: 'max_follower_ratio', label: 'Max follower ratio' },
+  { value: 'max_posts_per_day', label: 'Max posts per day' },
+  { value: 'max_followers_per_day', label: 'Max followers per day' },
+  { value: 'min_bio_length', label: 'Min bio length' },
+  { value: 'engagement_rate', label: 'Typical engagement rate (%)' },
+  { value: 'min_view_rate', label: 'Min views per follower' },
+];
+
+// Used for 'Unknown' and any platform without its own entry. These match the
+// original platform-agnostic heuristic.
+export const GENERIC_BASELINE: PlatformBaseline = {
+  very_new_days: 30,
+  new_days: 180,
+  min_follower_ratio: 0.1,
+  max_follower_ratio: 100,
+  max_posts_per_day: 20,
+  max_followers_per_day: 1000,
+  expects_posts: true,
+  expects_bio: true,
+  min_bio_length: 10,
+  engagement_rate: 2,
+  min_view_rate: 0,
+};
+
+export const PLATFORM_BASELINES: Record<typeof PLATFORMS[number], PlatformBaseline> = {
+  Instagram: {
+    ...GENERIC_BASELINE,
+    max_posts_per_day: 10,
+    max_followers_per_day: 500,
+    engagement_rate: 3,
+  },
+  // Follow-back culture makes low ratios normal; replies count as posts
+  'Twitter/X': {
+    ...GENERIC_BASELINE,
+    min_follower_ratio: 0.05,
+    max_follower_ratio: 200,
+    max_posts_per_day: 50,
+    max_followers_per_day: 500,
+    engagement_rate: 1,
+  },
+  // Most accounts are viewers: no posts and no bio are normal, and a single
+  // viral video can bring thousands of followers overnight
+  TikTok: {
+    ...GENERIC_BASELINE,
+    very_new_days: 14,
+    new_days: 90,
+    max_follower_ratio: 1000,
+    max_posts_per_day: 10,
+    max_followers_per_day: 2000,
+    expects_posts: false,
+    expects_bio: false,
+    min_bio_length: 0,
+    engagement_rate: 8,
+    min_view_rate: 0.1,
+  },
+  // Friendships are mutual so ratios cluster around 1; intros are optional
+  Facebook: {
+    ...GENERIC_BASELINE,
+    min_follower_ratio: 0.3,
+    max_posts_per_day: 10,
+    max_followers_per_day: 50,
+    expects_bio: false,
+    min_bio_length: 0,
+    engagement_rate: 1,
+  },
+  // Professional networks grow slowly and most members never post, but a
+  // headline/about section is expected
+  LinkedIn: {
+    ...GENERIC_BASELINE,
+    very_new_days: 60,
+    new_days: 365,
+    min_follower_ratio: 0.3,
+    max_follower_ratio: 50,
+    max_posts_per_day: 5,
+    max_followers_per_day: 15,
+    expects_posts: false,
+    min_bio_length: 20,
+  },
+  // Followers are rarely used and lurking is the norm; votes come from the
+  // subreddit, not followers, so engagement rate carries no signal
+  Reddit: {
+    ...GENERIC_BASELINE,
+    min_follower_ratio: 0,
+    max_follower_ratio: Number.POSITIVE_INFINITY,
+    max_posts_per_day: 30,
+    max_followers_per_day: 50,
+    expects_posts: false,
+    expects_bio: false,
+    min_bio_length: 0,
+    engagement_rate: 0,
+  },
+  // Subscriptions are usually hidden, so the ratio carries no signal
+  YouTube: {
+    ...GENERIC_BASELINE,
+    min_follower_ratio: 0,
+    max_follower_ratio: Number.POSITIVE_INFINITY,
+    max_posts_per_day: 5,
+    max_followers_per_day: 5000,
+    expects_posts: false,
+    expects_bio: false,
+    min_bio_length: 0,
+    engagement_rate: 3,
+    min_view_rate: 0.05,
+  },
+};
+
+export function getPlatformBaseline(platform?: string | null): PlatformBaseline {
+  return PLATFORM_BASELINES[platform as typeof PLATFORMS[number]] ?? GENERIC_BASELINE;
+}
+
+export type FollowerTier = 'nano' | 'micro' | 'mid' | 'macro';
+
+// Engagement rate falls as audiences grow, so larger accounts are held to a
+// proportionally lower share of the platform's nano-tier rate.
+export const FOLLOWER_TIERS: { tier: FollowerTier; below: number; engagement_factor: number }[] = [
+  { tier: 'nano', below: 10_000, engagement_factor: 1 },
+  { tier: 'micro', below: 100_000, engagement_factor: 0.6 },
+  { tier: 'mid', below: 1_000_000, engagement_factor: 0.4 },
+  { tier: 'macro', below: Number.POSITIVE_INFINITY, engagement_factor: 0.25 },
+];
+
+export function followerTier(followers: number): typeof FOLLOWER_TIERS[number] {
+  return FOLLOWER_TIERS.find((t) => followers < t.below) ?? FOLLOWER_TIERS[FOLLOWER_TIERS.length - 1];
+}
+
+// Typical engagement rate (%) for an account of this size on this platform
+export function expectedEngagementRate(baseline: PlatformBaseline, followers: number): number {
+  return baseline.engagement_rate * followerTier(followers).engagement_factor;
+}
@@ -0,0 +1,915 @@
+// Shared scoring engine — imported by the analyze-profile edge function and
+// by the React app (via src/lib/scoring.ts). Keep this file free of Deno- and
+// browser-specific APIs so it runs unchanged in both places.
+
+import {
+  BASELINE_METRICS,
+  expectedEngagementRate,
+  followerTier,
+  getPlatformBaseline,
+  PLATFORMS,
+  type BaselineMetric,
+  type Platform,
+  type PlatformBaseline,
+} from './platforms.ts';
+import { analyzeBio, type BioAnalysis } from './bio.ts';
+import { analyzeCadence, BURST_WINDOW_MINUTES, type CadenceAnalysis } from './cadence.ts';
+import type { ClusterMatch } from './clustering.ts';
+import { analyzeConfusables, type ConfusableAnalysis } from './confusables.ts';
+import { hasFollowerMetrics, MAX_FOLLOWER_SAMPLE, type FollowerSampleEntry } from './followers.ts';
+import type { ImpersonationMatch } from './impersonation.ts';
+import { compareSnapshots, type ProfileSnapshot } from './timeline.ts';
+import { analyzeUsername } from './username.ts';
+
+// Bump whenever a weight, threshold or factor in DEFAULT_SCORING_CONFIG
+// changes so stored verdicts can be told apart from ones produced by a
+// different rule set. Rule sets edited in Admin carry their own version.
+export const MODEL_VERSION = 'heuristic-1.15.0';
+
+export type RiskLabel = 'real' | 'suspicious' | 'fake';
+export type Impact = 'high' | 'medium' | 'low';
+export type Confidence = 'high' | 'medium' | 'low';
+
+// Everything except no_profile_pic is computed from the handle by
+// analyzeUsername (./username.ts); clients cannot set those reliably.
+export interface UsernameFlags {
+  numbers_heavy?: boolean;
+  no_profile_pic?: boolean;
+  random_characters?: boolean;
+  very_short?: boolean;
+  keyboard_walk?: boolean;
+  bot_template?: boolean;
+}
+
+// null means the metric is unknown (e.g. the scraper could not find it), which
+// is different from a genuine 0. Rules that depend on an unknown metric are
+// skipped rather than scored as if the value were zero.
+export interface ProfileInput {
+  username: string;
+  display_name?: string | null;    // shown name, checked for lookalike and hidden characters like the username
+  account_age: number | null;      // days
+  posts_count: number | null;
+  followers_count: number | null;
+  following_count: number | null;
+  bio_length: number | null;       // characters
+  bio?: string | null;             // bio text; when given, its length overrides bio_length
+  avg_likes?: number | null;       // per recent post
+  avg_comments?: number | null;    // per recent post
+  avg_views?: number | null;       // per recent post
+  post_timestamps?: string[] | null; // ISO 8601 times of recent posts, for cadence analysis
+  follower_sample?: FollowerSampleEntry[] | null; // accounts following this one, each scored in turn
+  cluster?: ClusterMatch | null;   // coordinated-account cluster matched by analyze-profile
+  impersonation?: ImpersonationMatch | null; // protected handle this one imitates, matched against the watchlist
+  previous_snapshot?: ProfileSnapshot | null; // counts from the last scan of the same profile
+  username_flags: UsernameFlags;
+  platform?: string;         // as returned by detectPlatform; selects the scoring baseline
+}
+
+// The metric value that satisfied one of a rule's conditions
+export interface FactorTrigger {
+  metric: RuleMetric;
+  value: number;
+  op: RuleOperator;
+  threshold: number;
+}
+
+// Every rule that fired, in contribution order. `points` and `triggers` are
+// missing on analyses stored before the full breakdown was recorded.
+export interface TopFactor {
+  factor: string;
+  description: string;
+  impact: Impact;
+  rule_id?: string;
+  points?: number;
+  triggers?: FactorTrigger[];
+}
+
+// One sampled follower, scored with the same rules as the parent profile
+export interface FollowerScore {
+  username: string;
+  risk_score: number;
+  label: RiskLabel;
+  confidence: Confidence;
+  factors: string[];
+  handle_only: boolean;   // no metrics were given; not counted in follower_bot_pct
+}
+
+export interface ScoringResult {
+  risk_score: number;
+  label: RiskLabel;
+  top_factors: TopFactor[];
+  model_version: string;
+  platform: Platform;
+  confidence: Confidence;
+  unknown_metrics: ProfileMetric[];
+  follower_breakdown?: FollowerScore[];  // only when a follower sample was given
+}
+
+export const PROFILE_METRICS = [
+  'account_age',
+  'posts_count',
+  'followers_count',
+  'following_count',
+  'bio_length',
+] as const;
+
+export type ProfileMetric = typeof PROFILE_METRICS[number];
+
+// Optional per-post averages. Often not visible, so they never lower confidence.
+export const ENGAGEMENT_METRICS = [
+  'avg_likes',
+  'avg_comments',
+  'avg_views',
+] as const;
+
+export type EngagementMetric = typeof ENGAGEMENT_METRICS[number];
+
+// ─── Rule configuration ───────────────────────────────────────────────────────
+
+export type RuleMetric =
+  | 'account_age'
+  | 'posts_count'
+  | 'followers_count'
+  | 'following_count'
+  | 'bio_length'
+  | 'follower_ratio'
+  | 'posts_per_day'
+  | 'followers_per_day'
+  | 'expects_posts'
+  | 'expects_bio'
+  | 'bio_spam_keywords'
+  | 'bio_links'
+  | 'bio_shorteners'
+  | 'bio_emoji_pct'
+  | 'bio_hashtag_pct'
+  | 'bio_template'
+  | 'bio_contact_solicitation'
+  | EngagementMetric
+  | 'engagement_rate'
+  | 'engagement_vs_expected'
+  | 'view_rate'
+  | 'comment_like_ratio'
+  | 'cadence_interval_cv'
+  | 'cadence_max_burst'
+  | 'cadence_sleep_gap_hours'
+  | 'cadence_minute_pct'
+  | 'follower_sample_size'
+  | 'follower_bot_pct'
+  | 'follower_unscored'
+  | 'cluster_size'
+  | 'snapshot_days'
+  | 'follower_gain'
+  | 'follower_change_pct'
+  | 'following_drop'
+  | 'following_drop_pct'
+  | 'posts_deleted'
+  | 'posts_deleted_pct'
+  | 'impersonation_distance'
+  | 'name_confusables'
+  | 'name_mixed_script'
+  | 'name_invisible_chars'
+  | keyof UsernameFlags;
+
+export type RuleOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  op: RuleOperator;
+  value: number;
+  // When set, compare against this value from the profile's platform baseline
+  // instead of the fixed `value`.
+  baseline?: BaselineMetric;
+}
+
+export interface ScoringRule {
+  id: string;
+  // Rules sharing a group are mutually exclusive: only the first match fires.
+  group?: string;
+  factor: string;
+  // May reference metrics, baseline values, {platform}, {follower_tier},
+  // {expected_engagement_rate}, the bio evidence lists ({bio_keyword_list}
+  // etc.), cadence details ({cadence_post_count}, {cadence_median_interval},
+  // {cadence_top_minute}), {cluster_signature}, the impersonation details
+  // ({impersonated_handle}, {impersonation_reasons}) and the name character
+  // findings ({name_confusable_list} etc.) as {name}, e.g. "Account
+  // is {account_age} days old". The factor name takes the same placeholders.
+  description: string;
+  impact: Impact;
+  weight: number;
+  // All conditions must hold for the rule to fire.
+  conditions: RuleCondition[];
+  enabled: boolean;
+}
+
+export interface LabelThresholds {
+  fake: number;
+  suspicious: number;
+}
+
+export interface ScoringConfig {
+  version: string;
+  rules: ScoringRule[];
+  thresholds: LabelThresholds;
+}
+
+export const RULE_METRICS: { value: RuleMetric; label: string }[] = [
+  { value: 'account_age', label: 'Account age (days)' },
+  { value: 'posts_count', label: 'Posts' },
+  { value: 'followers_count', label: 'Followers' },
+  { value: 'following_count', label: 'Following' },
+  { value: 'bio_length', label: 'Bio length' },
+  { value: 'follower_ratio', label: 'Followers / following' },
+  { value: 'posts_per_day', label: 'Posts per day' },
+  { value: 'followers_per_day', label: 'Followers gained per day' },
+  { value: 'expects_posts', label: 'Platform expects posts (0/1)' },
+  { value: 'expects_bio', label: 'Platform expects a bio (0/1)' },
+  { value: 'bio_spam_keywords', label: 'Bio: spam keywords' },
+  { value: 'bio_links', label: 'Bio: external links' },
+  { value: 'bio_shorteners', label: 'Bio: shortened links' },
+  { value: 'bio_emoji_pct', label: 'Bio: emoji share (%)' },
+  { value: 'bio_hashtag_pct', label: 'Bio: hashtag share of words (%)' },
+  { value: 'bio_template', label: 'Bio: template text (0/1)' },
+  { value: 'bio_contact_solicitation', label: 'Bio: off-platform contact (0/1)' },
+  { value: 'avg_likes', label: 'Avg likes per post' },
+  { value: 'avg_comments', label: 'Avg comments per post' },
+  { value: 'avg_views', label: 'Avg views per post' },
+  { value: 'engagement_rate', label: 'Engagement rate (%)' },
+  { value: 'engagement_vs_expected', label: 'Engagement vs. platform/tier norm (×)' },
+  { value: 'view_rate', label: 'Views per follower' },
+  { value: 'comment_like_ratio', label: 'Comments per like' },
+  { value: 'cadence_interval_cv', label: 'Cadence: interval variation (CV)' },
+  { value: 'cadence_max_burst', label: `Cadence: most posts in ${BURST_WINDOW_MINUTES} min` },
+  { value: 'cadence_sleep_gap_hours', label: 'Cadence: longest daily quiet gap (h)' },
+  { value: 'cadence_minute_pct', label: 'Cadence: posts on the same minute (%)' },
+  { value: 'follower_sample_size', label: 'Follower sample: accounts scored' },
+  { value: 'follower_bot_pct', label: 'Follower sample: scored fake (%)' },
+  { value: 'follower_unscored', label: 'Follower sample: handles without metrics' },
+  { value: 'cluster_size', label: 'Coordinated cluster size' },
+  { value: 'snapshot_days', label: 'Since previous scan: days' },
+  { value: 'follower_gain', label: 'Since previous scan: followers gained' },
+  { value: 'follower_change_pct', label: 'Since previous scan: follower change (%)' },
+  { value: 'following_drop', label: 'Since previous scan: accounts unfollowed' },
+  { value: 'following_drop_pct', label: 'Since previous scan: following dropped (%)' },
+  { value: 'posts_deleted', label: 'Since previous scan: posts deleted' },
+  { value: 'posts_deleted_pct', label: 'Since previous scan: posts deleted (%)' },
+  { value: 'impersonation_distance', label: 'Edits from a protected handle' },
+  { value: 'name_confusables', label: 'Name: lookalike Unicode characters' },
+  { value: 'name_mixed_script', label: 'Name: mixed scripts in a word (0/1)' },
+  { value: 'name_invisible_chars', label: 'Name: invisible characters' },
+  { value: 'numbers_heavy', label: 'Flag: numbers-heavy (0/1)' },
+  { value: 'no_profile_pic', label: 'Flag: no profile pic (0/1)' },
+  { value: 'random_characters', label: 'Flag: random characters (0/1)' },
+  { value: 'very_short', label: 'Flag: very short (0/1)' },
+  { value: 'keyboard_walk', label: 'Flag: keyboard walk (0/1)' },
+  { value: 'bot_template', label: 'Flag: bot template (0/1)' },
+];
+
+export const RULE_OPERATORS: RuleOperator[] = ['<', '<=', '>', '>=', '==', '!='];
+
+export const LABEL_THRESHOLDS: LabelThresholds = {
+  fake: 65,
+  suspicious: 35,
+};
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  version: MODEL_VERSION,
+  thresholds: LABEL_THRESHOLDS,
+  rules: [
+    // 1. Account age score (newer = riskier)
+    {
+      id: 'very_new_account', group: 'account_age', enabled: true, weight: 25, impact: 'high',
+      factor: 'Very new account',
+      description: 'Account is only {account_age} days old — a common trait of fake profiles.',
+      conditions: [{ metric: 'account_age', op: '<', value: 30, baseline: 'very_new_days' }],
+    },
+    {
+      id: 'relatively_new_account', group: 'account_age', enabled: true, weight: 12, impact: 'medium',
+      factor: 'Relatively new account',
+      description: 'Account is {account_age} days old, which is below average for established profiles.',
+      conditions: [{ metric: 'account_age', op: '<', value: 180, baseline: 'new_days' }],
+    },
+    // 2. Follower/Following ratio
+    {
+      id: 'abnormal_following_ratio', group: 'follower_ratio', enabled: true, weight: 20, impact: 'high',
+      factor: 'Abnormal following ratio',
+      description: 'Follows {following_count} accounts but only has {followers_count} followers — a classic bot signal.',
+      conditions: [
+        { metric: 'follower_ratio', op: '<', value: 0.1, baseline: 'min_follower_ratio' },
+        { metric: 'following_count', op: '>', value: 100 },
+      ],
+    },
+    {
+      // Very high followers with low following could be legit celeb but flag it
+      id: 'high_follower_ratio', group: 'follower_ratio', enabled: true, weight: 5, impact: 'low',
+      factor: 'Unusually high follower ratio',
+      description: 'Extremely high followers vs. following may indicate purchased followers.',
+      conditions: [
+        { metric: 'follower_ratio', op: '>', value: 100, baseline: 'max_follower_ratio' },
+        { metric: 'followers_count', op: '>', value: 10000 },
+      ],
+    },
+    // 3. Posts count relative to account age
+    {
+      id: 'abnormal_posting_frequency', group: 'posting', enabled: true, weight: 20, impact: 'high',
+      factor: 'Abnormal posting frequency',
+      description: 'Averages {posts_per_day} posts/day — far above the {max_posts_per_day}/day a human sustains on {platform}.',
+      conditions: [{ metric: 'posts_per_day', op: '>', value: 20, baseline: 'max_posts_per_day' }],
+    },
+    {
+      id: 'no_posts', group: 'posting', enabled: true, weight: 15, impact: 'medium',
+      factor: 'No posts found',
+      description: 'Account has zero posts, which is unusual for active users.',
+      conditions: [
+        { metric: 'posts_count', op: '==', value: 0 },
+        { metric: 'expects_posts', op: '==', value: 1 },
+      ],
+    },
+    // 4. Follower growth relative to account age
+    {
+      id: 'rapid_follower_growth', enabled: true, weight: 15, impact: 'medium',
+      factor: 'Rapid follower growth',
+      description: 'Gained {followers_per_day} followers/day on average — faster than organic growth on {platform}.',
+      conditions: [{ metric: 'followers_per_day', op: '>', value: 1000, baseline: 'max_followers_per_day' }],
+    },
+    // 5. Bio length
+    {
+      id: 'empty_bio', group: 'bio', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Empty bio',
+      description: 'No bio text — real users typically introduce themselves.',
+      conditions: [
+        { metric: 'bio_length', op: '==', value: 0 },
+        { metric: 'expects_bio', op: '==', value: 1 },
+      ],
+    },
+    {
+      id: 'very_short_bio', group: 'bio', enabled: true, weight: 5, impact: 'low',
+      factor: 'Very short bio',
+      description: 'Bio is only {bio_length} characters — minimal self-identification.',
+      conditions: [
+        { metric: 'bio_length', op: '<', value: 10, baseline: 'min_bio_length' },
+        { metric: 'expects_bio', op: '==', value: 1 },
+      ],
+    },
+    // 6. Bio content (skipped when only the bio length is known)
+    {
+      id: 'bio_scam_keywords', group: 'bio_keywords', enabled: true, weight: 15, impact: 'high',
+      factor: 'Scam keywords in bio',
+      description: 'Bio uses several phrases common in scam accounts: {bio_keyword_list}.',
+      conditions: [{ metric: 'bio_spam_keywords', op: '>=', value: 2 }],
+    },
+    {
+      id: 'bio_spam_keyword', group: 'bio_keywords', enabled: true, weight: 8, impact: 'medium',
+      factor: 'Spam keyword in bio',
+      description: 'Bio mentions {bio_keyword_list}, a common spam topic.',
+      conditions: [{ metric: 'bio_spam_keywords', op: '>=', value: 1 }],
+    },
+    {
+      id: 'bio_contact_solicitation', enabled: true, weight: 12, impact: 'high',
+      factor: 'Off-platform contact in bio',
+      description: 'Bio pushes visitors to {bio_contact_list}, a hallmark of scams moving victims off-platform.',
+      conditions: [{ metric: 'bio_contact_solicitation', op: '==', value: 1 }],
+    },
+    {
+      id: 'bio_shortened_link', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Shortened link in bio',
+      description: 'Bio links through a URL shortener ({bio_shortener_list}), which hides the real destination.',
+      conditions: [{ metric: 'bio_shorteners', op: '>=', value: 1 }],
+    },
+    {
+      id: 'bio_many_links', enabled: true, weight: 5, impact: 'low',
+      factor: 'Several links in bio',
+      description: 'Bio carries {bio_links} external links: {bio_link_list}.',
+      conditions: [{ metric: 'bio_links', op: '>=', value: 2 }],
+    },
+    {
+      id: 'bio_template', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Template bio',
+      description: 'Bio matches stock text pasted across many accounts ({bio_template_list}).',
+      conditions: [{ metric: 'bio_template', op: '==', value: 1 }],
+    },
+    {
+      id: 'bio_emoji_heavy', enabled: true, weight: 5, impact: 'low',
+      factor: 'Emoji-heavy bio',
+      description: '{bio_emoji_pct}% of the bio is emoji, leaving little real self-description.',
+      conditions: [
+        { metric: 'bio_emoji_pct', op: '>=', value: 30 },
+        { metric: 'bio_length', op: '>=', value: 5 },
+      ],
+    },
+    {
+      id: 'bio_hashtag_heavy', enabled: true, weight: 5, impact: 'low',
+      factor: 'Hashtag-stuffed bio',
+      description: '{bio_hashtag_pct}% of the words in the bio are hashtags.',
+      conditions: [
+        { metric: 'bio_hashtag_pct', op: '>=', value: 50 },
+        { metric: 'bio_length', op: '>=', value: 20 },
+      ],
+    },
+    // 7. Engagement relative to audience size
+    {
+      id: 'very_low_engagement', group: 'engagement', enabled: true, weight: 18, impact: 'high',
+      factor: 'Very low engagement',
+      description: 'Posts earn {engagement_rate}% engagement against ~{expected_engagement_rate}% typical for a {follower_tier}-tier account on {platform} — a strong sign of bought followers.',
+      conditions: [
+        { metric: 'engagement_vs_expected', op: '<', value: 0.1 },
+        { metric: 'followers_count', op: '>=', value: 1000 },
+      ],
+    },
+    {
+      id: 'low_engagement', group: 'engagement', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Low engagement',
+      description: 'Posts earn {engagement_rate}% engagement, well under the ~{expected_engagement_rate}% typical for a {follower_tier}-tier account on {platform}.',
+      conditions: [
+        { metric: 'engagement_vs_expected', op: '<', value: 0.3 },
+        { metric: 'followers_count', op: '>=', value: 1000 },
+      ],
+    },
+    {
+      id: 'implausible_engagement', group: 'engagement', enabled: true, weight: 8, impact: 'medium',
+      factor: 'Implausibly high engagement',
+      description: 'Posts earn {engagement_rate}% engagement, over ten times the {follower_tier}-tier norm on {platform} — likes may be bought or traded.',
+      conditions: [
+        { metric: 'engagement_vs_expected', op: '>', value: 10 },
+        { metric: 'followers_count', op: '>=', value: 1000 },
+      ],
+    },
+    {
+      id: 'low_view_rate', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Few views for follower count',
+      description: 'Posts average {view_rate} views per follower, below the {min_view_rate} expected on {platform} — most followers never watch.',
+      conditions: [
+        { metric: 'view_rate', op: '<', value: 0, baseline: 'min_view_rate' },
+        { metric: 'followers_count', op: '>=', value: 1000 },
+      ],
+    },
+    {
+      id: 'likes_without_comments', enabled: true, weight: 5, impact: 'low',
+      factor: 'Likes without comments',
+      description: 'Posts average {avg_likes} likes but almost no comments, a pattern typical of purchased likes.',
+      conditions: [
+        { metric: 'comment_like_ratio', op: '<', value: 0.002 },
+        { metric: 'avg_likes', op: '>=', value: 200 },
+      ],
+    },
+    // 8. Posting cadence (needs post timestamps)
+    {
+      id: 'machine_regular_posting', enabled: true, weight: 15, impact: 'high',
+      factor: 'Machine-regular posting',
+      description: 'Posts arrive every ~{cadence_median_interval} minutes with almost no variation across {cadence_post_count} posts — typical of a scheduler or bot.',
+      conditions: [{ metric: 'cadence_interval_cv', op: '<', value: 0.1 }],
+    },
+    {
+      id: 'posting_bursts', enabled: true, weight: 8, impact: 'medium',
+      factor: 'Burst posting',
+      description: `Published {cadence_max_burst} posts within ${BURST_WINDOW_MINUTES} minutes, a pattern of automated posting.`,
+      conditions: [{ metric: 'cadence_max_burst', op: '>=', value: 5 }],
+    },
+    {
+      id: 'no_sleep_gap', enabled: true, weight: 10, impact: 'medium',
+      factor: 'No sleep gap',
+      description: 'Posts are spread around the clock; the longest daily quiet stretch is only {cadence_sleep_gap_hours}h.',
+      conditions: [{ metric: 'cadence_sleep_gap_hours', op: '<', value: 4 }],
+    },
+    {
+      id: 'identical_minute_offsets', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Posts on the same minute',
+      description: '{cadence_minute_pct}% of posts go out at :{cadence_top_minute} past the hour — a scheduled-post signature.',
+      conditions: [{ metric: 'cadence_minute_pct', op: '>=', value: 50 }],
+    },
+    // 9. Follower sample (needs at least a small sample to mean anything)
+    {
+      id: 'bot_follower_majority', group: 'follower_sample', enabled: true, weight: 20, impact: 'high',
+      factor: 'Bot-heavy followers',
+      description: '{follower_bot_pct}% of {follower_sample_size} sampled followers score as fake — the audience looks bought.',
+      conditions: [
+        { metric: 'follower_bot_pct', op: '>=', value: 40 },
+        { metric: 'follower_sample_size', op: '>=', value: 10 },
+      ],
+    },
+    {
+      id: 'bot_follower_share', group: 'follower_sample', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Many bot followers',
+      description: '{follower_bot_pct}% of {follower_sample_size} sampled followers score as fake.',
+      conditions: [
+        { metric: 'follower_bot_pct', op: '>=', value: 20 },
+        { metric: 'follower_sample_size', op: '>=', value: 10 },
+      ],
+    },
+    // 10. Coordinated accounts seen in earlier analyses
+    {
+      id: 'coordinated_cluster', enabled: true, weight: 15, impact: 'high',
+      factor: 'Part of an account cluster',
+      description: 'Part of a cluster of {cluster_size} scanned {platform} accounts sharing {cluster_signature} — likely the same farm.',
+      conditions: [{ metric: 'cluster_size', op: '>=', value: 3 }],
+    },
+    // 11. Changes since the previous scan of the same profile
+    {
+      id: 'follower_spike', enabled: true, weight: 15, impact: 'high',
+      factor: 'Sudden follower spike',
+      description: 'Gained {follower_gain} followers (+{follower_change_pct}%) in the {snapshot_days} days since the previous scan, consistent with bought followers.',
+      conditions: [
+        { metric: 'follower_gain', op: '>=', value: 1000 },
+        { metric: 'follower_change_pct', op: '>=', value: 50 },
+        { metric: 'snapshot_days', op: '<=', value: 30 },
+      ],
+    },
+    {
+      id: 'mass_unfollow', enabled: true, weight: 12, impact: 'high',
+      factor: 'Mass unfollow',
+      description: 'Stopped following {following_drop} accounts ({following_drop_pct}% of them) in the {snapshot_days} days since the previous scan, the follow/unfollow growth tactic.',
+      conditions: [
+        { metric: 'following_drop', op: '>=', value: 200 },
+        { metric: 'following_drop_pct', op: '>=', value: 50 },
+      ],
+    },
+    {
+      id: 'post_deletion', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Posts deleted',
+      description: '{posts_deleted} posts ({posts_deleted_pct}%) disappeared in the {snapshot_days} days since the previous scan; accounts being repurposed or sold are often wiped first.',
+      conditions: [
+        { metric: 'posts_deleted', op: '>=', value: 20 },
+        { metric: 'posts_deleted_pct', op: '>=', value: 30 },
+      ],
+    },
+    // 12. Lookalike of a handle on the protected-handles watchlist
+    {
+      id: 'possible_impersonation', enabled: true, weight: 35, impact: 'high',
+      factor: 'Possible impersonation of @{impersonated_handle}',
+      description: 'Username resembles the protected handle @{impersonated_handle}{impersonated_label}: {impersonation_reasons}.',
+      conditions: [{ metric: 'impersonation_distance', op: '<=', value: 2 }],
+    },
+    // 13. Lookalike and hidden characters in the username or display name
+    {
+      id: 'homoglyph_characters', enabled: true, weight: 15, impact: 'high',
+      factor: 'Lookalike Unicode characters',
+      description: 'Name uses characters that imitate Latin letters: {name_confusable_list}. A common way to copy a real account\'s name.',
+      conditions: [{ metric: 'name_confusables', op: '>=', value: 1 }],
+    },
+    {
+      id: 'mixed_script_name', enabled: true, weight: 8, impact: 'medium',
+      factor: 'Mixed writing systems',
+      description: 'Mixes alphabets within a single word ({name_mixed_script_list}), which people rarely do when typing their own name.',
+      conditions: [{ metric: 'name_mixed_script', op: '==', value: 1 }],
+    },
+    {
+      id: 'invisible_characters', enabled: true, weight: 12, impact: 'high',
+      factor: 'Hidden characters in name',
+      description: 'Name contains {name_invisible_chars} invisible character(s) ({name_invisible_list}) that make it look identical to a different name.',
+      conditions: [{ metric: 'name_invisible_chars', op: '>=', value: 1 }],
+    },
+    // 14. Username flags
+    {
+      id: 'numbers_heavy', enabled: true, weight: 10, impact: 'medium',
+      factor: 'Username has many numbers',
+      description: 'Number-heavy usernames are frequently generated by bot creation scripts.',
+      conditions: [{ metric: 'numbers_heavy', op: '==', value: 1 }],
+    },
+    {
+      id: 'no_profile_pic', enabled: true, weight: 10, impact: 'medium',
+      factor: 'No profile picture',
+      description: 'Missing profile picture is a strong indicator of an automated or spam account.',
+      conditions: [{ metric: 'no_profile_pic', op: '==', value: 1 }],
+    },
+    {
+      id: 'random_characters', enabled: true, weight: 12, impact: 'high',
+      factor: 'Random-looking username',
+      description: 'Username appears machine-generated with random character sequences.',
+      conditions: [{ metric: 'random_characters', op: '==', value: 1 }],
+    },
+    {
+      id: 'very_short_username', enabled: true, weight: 5, impact: 'low',
+      factor: 'Very short username',
+      description: 'Short usernames may indicate account squatting or automation.',
+      conditions: [{ metric: 'very_short', op: '==', value: 1 }],
+    },
+    {
+      id: 'keyboard_walk', enabled: true, weight: 8, impact: 'medium',
+      factor: 'Keyboard-walk username',
+      description: 'Username contains a run of adjacent keys, typical of throwaway handles typed without thought.',
+      conditions: [{ metric: 'keyboard_walk', op: '==', value: 1 }],
+    },
+    {
+      id: 'bot_template', enabled: true, weight: 12, impact: 'high',
+      factor: 'Bot-template username',
+      description: 'Username follows a pattern (e.g. name_name1234) that account generators produce in bulk.',
+      conditions: [{ metric: 'bot_template', op: '==', value: 1 }],
+    },
+  ],
+};
+
+// ─── Evaluation ───────────────────────────────────────────────────────────────
+
+// Fewer known core metrics means fewer rules could be evaluated, so a low
+// score is weaker evidence of a real account.
+export function confidenceForUnknowns(unknownCount: number): Confidence {
+  if (unknownCount === 0) return 'high';
+  if (unknownCount <= 2) return 'medium';
+  return 'low';
+}
+
+export function labelForScore(score: number, thresholds: LabelThresholds = LABEL_THRESHOLDS): RiskLabel {
+  if (score >= thresholds.fake) return 'fake';
+  if (score >= thresholds.suspicious) return 'suspicious';
+  return 'real';
+}
+
+function isKnown(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function hasBio(input: ProfileInput): input is ProfileInput & { bio: string } {
+  return typeof input.bio === 'string';
+}
+
+// Derived metrics are unknown whenever any of their inputs is unknown; bio
+// content metrics are unknown unless the bio text was supplied.
+function computeMetrics(
+  input: ProfileInput,
+  baseline: PlatformBaseline,
+  bio: BioAnalysis | null,
+  cadence: CadenceAnalysis | null,
+  followerScores: FollowerScore[] | null,
+  names: ConfusableAnalysis[],
+): Record<RuleMetric, number | null> {
+  const flags = input.username_flags || {};
+  const age = isKnown(input.account_age) ? input.account_age : null;
+  const posts = isKnown(input.posts_count) ? input.posts_count : null;
+  const followers = isKnown(input.followers_count) ? input.followers_count : null;
+  const following = isKnown(input.following_count) ? input.following_count : null;
+  const likes = isKnown(input.avg_likes) ? input.avg_likes : null;
+  const comments = isKnown(input.avg_comments) ? input.avg_comments : null;
+  const views = isKnown(input.avg_views) ? input.avg_views : null;
+  const scoredFollowers = followerScores?.filter((f) => !f.handle_only) ?? null;
+  // Comments are often hidden, so likes alone are enough for a rate
+  const engagementRate = likes === null || followers === null || followers === 0 ? null
+    : ((likes + (comments ?? 0)) / followers) * 100;
+  const expectedRate = followers === null ? 0 : expectedEngagementRate(baseline, followers);
+  const change = input.previous_snapshot
+    ? compareSnapshots(input.previous_snapshot, { followers_count: followers, following_count: following, posts_count: posts })
+    : null;
+  return {
+    account_age: age,
+    posts_count: posts,
+    followers_count: followers,
+    following_count: following,
+    bio_length: bio ? bio.length : isKnown(input.bio_length) ? input.bio_length : null,
+    follower_ratio: followers === null || following === null ? null
+      : following > 0 ? followers / following : followers,
+    posts_per_day: posts === null || age === null ? null
+      : age > 0 ? posts / age : 0,
+    followers_per_day: followers === null || age === null ? null
+      : followers / Math.max(1, age),
+    expects_posts: baseline.expects_posts ? 1 : 0,
+    expects_bio: baseline.expects_bio ? 1 : 0,
+    bio_spam_keywords: bio ? bio.spam_keywords.length : null,
+    bio_links: bio ? bio.links.length : null,
+    bio_shorteners: bio ? bio.shorteners.length : null,
+    bio_emoji_pct: bio ? bio.emoji_pct : null,
+    bio_hashtag_pct: bio ? bio.hashtag_pct : null,
+    bio_template: bio ? (bio.templates.length > 0 ? 1 : 0) : null,
+    bio_contact_solicitation: bio ? (bio.contact_channels.length > 0 ? 1 : 0) : null,
+    avg_likes: likes,
+    avg_comments: comments,
+    avg_views: views,
+    engagement_rate: engagementRate,
+    engagement_vs_expected: engagementRate === null || expectedRate === 0 ? null : engagementRate / expectedRate,
+    view_rate: views === null || followers === null || followers === 0 ? null : views / followers,
+    comment_like_ratio: comments === null || likes === null || likes === 0 ? null : comments / likes,
+    cadence_interval_cv: cadence?.interval_cv ?? null,
+    cadence_max_burst: cadence ? cadence.max_burst : null,
+    cadence_sleep_gap_hours: cadence?.sleep_gap_hours ?? null,
+    cadence_minute_pct: cadence?.top_minute_pct ?? null,
+    follower_sample_size: scoredFollowers ? scoredFollowers.length : null,
+    follower_bot_pct: scoredFollowers?.length
+      ? Math.round((scoredFollowers.filter((f) => f.label === 'fake').length / scoredFollowers.length) * 100)
+      : null,
+    follower_unscored: followerScores && scoredFollowers ? followerScores.length - scoredFollowers.length : null,
+    cluster_size: input.cluster ? input.cluster.size : null,
+    snapshot_days: change ? change.days : null,
+    follower_gain: change?.follower_gain ?? null,
+    follower_change_pct: change?.follower_change_pct ?? null,
+    following_drop: change?.following_drop ?? null,
+    following_drop_pct: change?.following_drop_pct ?? null,
+    posts_deleted: change?.posts_deleted ?? null,
+    posts_deleted_pct: change?.posts_deleted_pct ?? null,
+    impersonation_distance: input.impersonation ? input.impersonation.distance : null,
+    name_confusables: names.reduce((sum, n) => sum + n.confusables.length, 0),
+    name_mixed_script: names.some((n) => n.mixed_script_words.length > 0) ? 1 : 0,
+    name_invisible_chars: names.reduce((sum, n) => sum + n.invisible.length, 0),
+    numbers_heavy: flags.numbers_heavy ? 1 : 0,
+    no_profile_pic: flags.no_profile_pic ? 1 : 0,
+    random_characters: flags.random_characters ? 1 : 0,
+    very_short: flags.very_short ? 1 : 0,
+    keyboard_walk: flags.keyboard_walk ? 1 : 0,
+    bot_template: flags.bot_template ? 1 : 0,
+  };
+}
+
+function compare(actual: number | null, op: RuleOperator, expected: number): boolean {
+  if (actual === null) return false;
+  switch (op) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+function renderDescription(template: string, values: Record<string, number | string | null>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    if (!(name in values)) return match;
+    const value = values[name];
+    if (value === null) return 'unknown';
+    if (typeof value === 'string') return value;
+    if (Number.isInteger(value)) return String(value);
+    // Keep small rates readable: 0.034 → "0.034", not "0.0"
+    return Math.abs(value) < 1 ? String(Number(value.toPrecision(2))) : value.toFixed(1);
+  });
+}
+
+// Everything the rules are evaluated against. Sampled followers are scored
+// with the same config, so follower_bot_pct depends on it.
+function prepareInput(input: ProfileInput, config: ScoringConfig) {
+  const platform: Platform = (PLATFORMS as readonly string[]).includes(input.platform ?? '')
+    ? input.platform as Platform
+    : 'Unknown';
+  const baseline = getPlatformBaseline(platform);
+  const bio = hasBio(input) ? analyzeBio(input.bio) : null;
+  const cadence = input.post_timestamps?.length ? analyzeCadence(input.post_timestamps) : null;
+  const follower_breakdown = input.follower_sample?.length
+    ? scoreFollowerSample(input.follower_sample, platform, config)
+    : null;
+  const names = [
+    analyzeConfusables(input.username ?? '', 'username'),
+    ...(input.display_name ? [analyzeConfusables(input.display_name, 'display_name')] : []),
+  ];
+  const metrics = computeMetrics(input, baseline, bio, cadence, follower_breakdown, names);
+  return { platform, baseline, bio, cadence, follower_breakdown, names, metrics };
+}
+
+// The metric values rules see for a profile; the learned scorer
+// (./logistic.ts) uses them as its features
+export function profileMetrics(input: ProfileInput, config: ScoringConfig = DEFAULT_SCORING_CONFIG): Record<RuleMetric, number | null> {
+  return prepareInput(input, config).metrics;
+}
+
+export function analyzeProfile(input: ProfileInput, config: ScoringConfig = DEFAULT_SCORING_CONFIG): ScoringResult {
+  const { platform, baseline, bio, cadence, follower_breakdown, names, metrics } = prepareInput(input, config);
+  const unique = (items: string[]) => [...new Set(items)].join(', ');
+  const quoteList = (items: string[] | undefined) => items?.map((item) => `"${item}"`).join(', ') ?? null;
+  const templateValues = {
+    ...baseline,
+    ...metrics,
+    platform: platform === 'Unknown' ? 'this platform' : platform,
+    follower_tier: metrics.followers_count === null ? null : followerTier(metrics.followers_count).tier,
+    expected_engagement_rate: metrics.followers_count === null ? null
+      : expectedEngagementRate(baseline, metrics.followers_count),
+    bio_keyword_list: quoteList(bio?.spam_keywords),
+    bio_link_list: bio ? bio.links.join(', ') : null,
+    bio_shortener_list: bio ? bio.shorteners.join(', ') : null,
+    bio_template_list: bio ? bio.templates.join(', ') : null,
+    bio_contact_list: bio ? bio.contact_channels.join(', ') : null,
+    cadence_post_count: cadence ? cadence.post_count : null,
+    cadence_median_interval: cadence?.median_interval_minutes ?? null,
+    cluster_signature: input.cluster?.signature ?? null,
+    impersonated_handle: input.impersonation?.handle ?? null,
+    impersonated_label: input.impersonation?.label ? ` (${input.impersonation.label})` : '',
+    impersonation_reasons: input.impersonation ? input.impersonation.reasons.join('; ') : null,
+    name_confusable_list: unique(names.flatMap((n) => n.confusables.map((c) => `${c.script} "${c.char}" (looks like "${c.looks_like}")`))),
+    name_mixed_script_list: unique(names.flatMap((n) => n.mixed_script_words.map((w) => `"${w}"`))),
+    name_invisible_list: unique(names.flatMap((n) => n.invisible.map((c) => `${c.name.toLowerCase()} ${c.codepoint}`))),
+    cadence_top_minute: cadence?.top_minute == null ? null : String(cadence.top_minute).padStart(2, '0'),
+  };
+  const factors: TopFactor[] = [];
+  const firedGroups = new Set<string>();
+  let score = 0;
+
+  for (const rule of config.rules) {
+    if (!rule.enabled) continue;
+    if (rule.group && firedGroups.has(rule.group)) continue;
+
+    const thresholdFor = (c: RuleCondition) => (c.baseline ? baseline[c.baseline] : c.value);
+    if (!rule.conditions.every((c) => compare(metrics[c.metric], c.op, thresholdFor(c)))) continue;
+
+    // compare() fails on unknown metrics, so every value here is known
+    const triggers: FactorTrigger[] = rule.conditions.map((c) => ({
+      metric: c.metric,
+      value: metrics[c.metric] as number,
+      op: c.op,
+      threshold: thresholdFor(c),
+    }));
+
+    if (rule.group) firedGroups.add(rule.group);
+    score += rule.weight;
+    factors.push({
+      factor: renderDescription(rule.factor, templateValues),
+      description: renderDescription(rule.description, templateValues),
+      impact: rule.impact,
+      rule_id: rule.id,
+      points: rule.weight,
+      triggers,
+    });
+  }
+
+  // Clamp score to 0–100
+  const risk_score = Math.min(100, Math.max(0, score));
+  const label = labelForScore(risk_score, config.thresholds);
+
+  // Return every factor that fired, largest contribution first
+  const impactOrder = { high: 0, medium: 1, low: 2 };
+  const top_factors = factors
+    .sort((a, b) => (b.points ?? 0) - (a.points ?? 0) || impactOrder[a.impact] - impactOrder[b.impact]);
+
+  const unknown_metrics = PROFILE_METRICS.filter((m) => metrics[m] === null);
+
+  return {
+    risk_score,
+    label,
+    top_factors,
+    model_version: config.version,
+    platform,
+    confidence: confidenceForUnknowns(unknown_metrics.length),
+    unknown_metrics,
+    ...(follower_breakdown && { follower_breakdown }),
+  };
+}
+
+// Followers are scored on the parent's platform baseline; their username flags
+// are computed from the handle like the parent's are. Handle-only followers are
+// still listed but do not count towards follower_bot_pct.
+function scoreFollowerSample(sample: FollowerSampleEntry[], platform: Platform, config: ScoringConfig): FollowerScore[] {
+  return sample.slice(0, MAX_FOLLOWER_SAMPLE).map((follower) => {
+    const result = analyzeProfile({
+      username: follower.username,
+      account_age: follower.account_age ?? null,
+      posts_count: follower.posts_count ?? null,
+      followers_count: follower.followers_count ?? null,
+      following_count: follower.following_count ?? null,
+      bio_length: follower.bio_length ?? null,
+      username_flags: { ...analyzeUsername(follower.username).flags, no_profile_pic: !!follower.no_profile_pic },
+      platform,
+    }, config);
+    return {
+      username: follower.username,
+      risk_score: result.risk_score,
+      label: result.label,
+      confidence: result.confidence,
+      factors: result.top_factors.map((f) => f.factor),
+      handle_only: !hasFollowerMetrics(follower),
+    };
+  });
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+// Returns a list of human-readable problems; an empty list means the config is
+// safe to store and evaluate.
+export function validateScoringConfig(config: ScoringConfig): string[] {
+  const errors: string[] = [];
+  const metrics = new Set(RULE_METRICS.map((m) => m.value));
+  const baselines = new Set(BASELINE_METRICS.map((m) => m.value));
+  const ids = new Set<string>();
+
+  if (!config.version?.trim()) errors.push('Version is required.');
+
+  const { fake, suspicious } = config.thresholds ?? {};
+  if (!Number.isFinite(fake) || !Number.isFinite(suspicious)) {
+    errors.push('Both label thresholds must be numbers.');
+  } else if (!(suspicious > 0 && suspicious < fake && fake <= 100)) {
+    errors.push('Thresholds must satisfy 0 < suspicious < fake ≤ 100.');
+  }
+
+  if (!Array.isArray(config.rules) || config.rules.length === 0) {
+    errors.push('At least one rule is required.');
+    return errors;
+  }
+
+  config.rules.forEach((rule, i) => {
+    const name = rule.factor?.trim() || `Rule ${i + 1}`;
+    if (!rule.id?.trim()) errors.push(`${name}: id is required.`);
+    else if (ids.has(rule.id)) errors.push(`${name}: duplicate id "${rule.id}".`);
+    ids.add(rule.id);
+    if (!rule.factor?.trim()) errors.push(`${name}: factor name is required.`);
+    if (!Number.isFinite(rule.weight)) errors.push(`${name}: weight must be a number.`);
+    if (!['high', 'medium', 'low'].includes(rule.impact)) errors.push(`${name}: impact must be high, medium or low.`);
+    if (!rule.conditions?.length) errors.push(`${name}: at least one condition is required.`);
+    rule.conditions?.forEach((c) => {
+      if (!metrics.has(c.metric)) errors.push(`${name}: unknown metric "${c.metric}".`);
+      if (!RULE_OPERATORS.includes(c.op)) errors.push(`${name}: unknown operator "${c.op}".`);
+      if (c.baseline && !baselines.has(c.baseline)) errors.push(`${name}: unknown baseline "${c.baseline}".`);
+      if (!Number.isFinite(c.value)) errors.push(`${name}: condition value must be a number.`);
+    });
+  });
+
+  return errors;
+}
+
+// Built-in rules a stored rule set lacks, matched by id. Published sets are
+// frozen copies, so rules added to the engine after a set was published never
+// fire under it until they are merged in.
+export function missingDefaultRules(rules: ScoringRule[]): ScoringRule[] {
+  const ids = new Set(rules.map((r) => r.id));
+  return DEFAULT_SCORING_CONFIG.rules.filter((r) => !ids.has(r.id));
+}
@@ -0,0 +1,199 @@
+// Where scrape-profile gets page content from. Chosen per environment with
+// SCRAPER_PROVIDER: Firecrawl in production, a plain fetch when there is no
+// Firecrawl key, and saved pages from disk for offline runs and tests.
+
+import { canonicalUrl, extractLinks, htmlToMarkdown } from './html.ts';
+import { platformForHost } from './platforms.ts';
+
+export const SCRAPER_PROVIDERS = ['firecrawl', 'fetch', 'fixture'] as const;
+
+export type ScraperName = typeof SCRAPER_PROVIDERS[number];
+
+export interface ScrapedPage {
+  markdown: string;
+  links: string[];
+  html: string | null;   // raw page source, for the markup parsers; null when the provider has none
+}
+
+export interface ScraperProvider {
+  name: ScraperName;
+  scrape(url: string): Promise<ScrapedPage>;
+}
+
+// Resolves a fixture file name to its contents; null when there is no such file
+export type FixtureReader = (name: string) => Promise<string | null>;
+
+export interface ScraperConfig {
+  provider?: string;              // SCRAPER_PROVIDER; unset picks Firecrawl when keyed, else fetch
+  firecrawlKey?: string;
+  readFixture?: FixtureReader;
+  fetch?: typeof fetch;
+}
+
+export function firecrawlProvider(apiKey: string, fetchImpl: typeof fetch = fetch): ScraperProvider {
+  return {
+    name: 'firecrawl',
+    async scrape(url) {
+      const res = await fetchImpl('https://api.firecrawl.dev/v1/scrape', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          url,
+          formats: ['markdown', 'links', 'rawHtml'],
+          onlyMainContent: false,
+          waitFor: 3000,
+        }),
+      });
+      const data = await res.json();
+      const markdown: string = data.data?.markdown ?? data.markdown ?? '';
+      // A failed scrape sometimes still carries partial markdown; the extractors
+      // work with whatever there is
+      if ((!res.ok || !data.success) && !markdown) {
+        throw new Error(`Firecrawl returned ${res.status}: ${data.error ?? 'no content'}`);
+      }
+      return { markdown, links: data.data?.links ?? data.links ?? [], html: data.data?.rawHtml ?? data.rawHtml ?? null };
+    },
+  };
+}
+
+// http(s) only, with a bare "instagram.com/name" read as https; null for any
+// other scheme or anything that does not parse
+export function parseProfileUrl(url: string): URL | null {
+  const input = url.trim();
+  try {
+    const parsed = new URL(/^[a-z][a-z\d+.-]*:/i.test(input) ? input : `https://${input}`);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+const MAX_REDIRECTS = 5;
+// Profile pages run to a few hundred KB; stop reading well before a huge
+// response can exhaust the edge function's memory
+export const MAX_PAGE_BYTES = 3_000_000;
+
+// The body up to maxBytes; the rest of the stream is cancelled unread, so the
+// markup parsers see a truncated page rather than none
+async function readLimited(res: Response, maxBytes: number): Promise<string> {
+  if (!res.body) return (await res.text()).slice(0, maxBytes);
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = received + value.byteLength > maxBytes ? value.subarray(0, maxBytes - received) : value;
+    received += chunk.byteLength;
+    text += decoder.decode(chunk, { stream: true });
+    if (received >= maxBytes) {
+      await reader.cancel();
+      break;
+    }
+  }
+  return text + decoder.decode();
+}
+
+// The fetch provider runs inside the edge function, so it only requests known
+// platform hosts: a client must not be able to reach loopback, private or
+// cloud-metadata addresses through it, directly or by way of a redirect
+function platformUrl(url: string): URL {
+  const parsed = parseProfileUrl(url);
+  if (!parsed) throw new Error(`Not an http(s) URL: ${url}`);
+  if (platformForHost(parsed.hostname) === 'Unknown') {
+    throw new Error(`Refusing to fetch ${parsed.hostname}: not a supported platform host`);
+  }
+  return parsed;
+}
+
+// No JavaScript rendering, so single-page apps may come back nearly empty.
+// Redirects are followed by hand so every hop is checked again.
+export function fetchProvider(fetchImpl: typeof fetch = fetch): ScraperProvider {
+  return {
+    name: 'fetch',
+    async scrape(url) {
+      let target = platformUrl(url);
+      for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        const res = await fetchImpl(target.href, {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; ProfileScanner/1.0)',
+            'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+          },
+          redirect: 'manual',
+        });
+        const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+        if (location) {
+          target = platformUrl(new URL(location, target).href);
+          continue;
+        }
+        if (!res.ok) throw new Error(`${target.href} returned ${res.status}`);
+        const body = await readLimited(res, MAX_PAGE_BYTES);
+        const isHtml = (res.headers.get('content-type') ?? 'text/html').includes('html');
+        return isHtml
+          ? { markdown: htmlToMarkdown(body, target.href), links: extractLinks(body, target.href), html: body }
+          : { markdown: body, links: [], html: null };
+      }
+      throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`);
+    },
+  };
+}
+
+// https://www.instagram.com/Some.User/ → instagram.com_some.user
+export function fixtureName(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '');
+  const segments = parsed.pathname.split('/').filter(Boolean).map((s) => decodeURIComponent(s).replace(/^@/, ''));
+  return [host, ...segments].join('_').toLowerCase().replace(/[^\p{L}\p{N}._-]+/gu, '-');
+}
+
+// Saved pages named after fixtureName(url), either raw .html or pre-converted .md
+export function fixtureProvider(readFixture: FixtureReader): ScraperProvider {
+  return {
+    name: 'fixture',
+    async scrape(url) {
+      const name = fixtureName(url);
+      const html = await readFixture(`${name}.html`);
+      if (html !== null) return { markdown: htmlToMarkdown(html, url), links: extractLinks(html, url), html };
+      const markdown = await readFixture(`${name}.md`);
+      if (markdown !== null) return { markdown, links: [], html: null };
+      throw new Error(`No fixture for ${url} (expected ${name}.html or ${name}.md)`);
+    },
+  };
+}
+
+const LOOKS_LIKE_HTML = /<(!doctype|html|head|body|meta|div|span|script|a)\b/i;
+
+// Page source or copied text pasted in by an analyst, for profiles behind a
+// login that no provider can reach. Goes through the same extraction as a scrape.
+export function pastedPage(content: string, url?: string): ScrapedPage & { url: string | null } {
+  if (!LOOKS_LIKE_HTML.test(content)) return { markdown: content.trim(), links: [], html: null, url: url || null };
+  const pageUrl = url || canonicalUrl(content);
+  return {
+    markdown: htmlToMarkdown(content, pageUrl ?? undefined),
+    links: extractLinks(content, pageUrl ?? undefined),
+    html: content,
+    url: pageUrl,
+  };
+}
+
+// Throws on a misconfiguration (unknown provider, Firecrawl without a key)
+// rather than quietly scraping with something else
+export function selectScraper(config: ScraperConfig): ScraperProvider {
+  const name = config.provider?.trim().toLowerCase() || (config.firecrawlKey ? 'firecrawl' : 'fetch');
+  switch (name) {
+    case 'firecrawl':
+      if (!config.firecrawlKey) throw new Error('SCRAPER_PROVIDER is firecrawl but FIRECRAWL_API_KEY is not set');
+      return firecrawlProvider(config.firecrawlKey, config.fetch);
+    case 'fetch':
+      return fetchProvider(config.fetch);
+    case 'fixture':
+      if (!config.readFixture) throw new Error('The fixture provider needs a fixture reader');
+      return fixtureProvider(config.readFixture);
+    default:
+      throw new Error(`Unknown SCRAPER_PROVIDER "${name}" (expected ${SCRAPER_PROVIDERS.join(', ')})`);
+  }
+}
@@ -0,0 +1,71 @@
+// Shadow scoring: a candidate rule set or learned model scores every request
+// next to the live scorer without affecting the verdict users see. These
+// summaries compare the two over the stored shadow_scores rows.
+
+import type { RiskLabel } from './scoring.ts';
+import { emptyTransitions, RISK_LABELS } from './backtest.ts';
+
+export type ShadowKind = 'rules' | 'model';
+
+export interface ShadowScore {
+  id: string;
+  analysis_id: string;
+  shadow_version: string;
+  shadow_kind: ShadowKind;
+  risk_score: number;
+  label: RiskLabel;
+  live_version: string;
+  live_score: number;
+  live_label: RiskLabel;
+  created_at: string;
+}
+
+export interface DailyAgreement {
+  day: string;          // YYYY-MM-DD (UTC)
+  total: number;
+  agreement: number;    // 0–1
+}
+
+export interface ShadowSummary {
+  total: number;
+  agreement: number | null;
+  // transitions[live][shadow] = number of analyses
+  transitions: Record<RiskLabel, Record<RiskLabel, number>>;
+  mean_score_delta: number | null;   // shadow minus live
+  daily: DailyAgreement[];           // oldest first
+}
+
+export const isDisagreement = (row: Pick<ShadowScore, 'label' | 'live_label'>) => row.label !== row.live_label;
+
+export function summarizeShadow(rows: ShadowScore[]): ShadowSummary {
+  const transitions = emptyTransitions();
+  const days = new Map<string, { total: number; agree: number }>();
+  let agree = 0;
+  let delta = 0;
+
+  for (const row of rows) {
+    if (RISK_LABELS.includes(row.live_label) && RISK_LABELS.includes(row.label)) {
+      transitions[row.live_label][row.label]++;
+    }
+    const same = !isDisagreement(row);
+    if (same) agree++;
+    delta += row.risk_score - row.live_score;
+
+    const day = row.created_at.slice(0, 10);
+    const bucket = days.get(day) ?? { total: 0, agree: 0 };
+    bucket.total++;
+    if (same) bucket.agree++;
+    days.set(day, bucket);
+  }
+
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return {
+    total: rows.length,
+    agreement: rows.length ? round(agree / rows.length) : null,
+    transitions,
+    mean_score_delta: rows.length ? Math.round((delta / rows.length) * 10) / 10 : null,
+    daily: [...days]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, { total, agree: same }]) => ({ day, total, agreement: round(same / total) })),
+  };
+}
@@ -0,0 +1,74 @@
+// Snapshot history for a profile scanned more than once. Each analysis is a
+// snapshot of the account's counts; comparing a scan with the one before it
+// exposes bought-follower spikes, follow/unfollow churn and mass post
+// deletion that no single snapshot shows.
+
+const DAY_MS = 86_400_000;
+
+// The counts of an earlier scan of the same profile, carried on ProfileInput
+export interface ProfileSnapshot {
+  analysis_id: string;
+  analyzed_at: string;
+  days_before: number;          // how long before the current scan it was taken
+  followers_count: number | null;
+  following_count: number | null;
+  posts_count: number | null;
+}
+
+export interface SnapshotCounts {
+  followers_count: number | null;
+  following_count: number | null;
+  posts_count: number | null;
+}
+
+// Positive numbers are the direction each anomaly cares about: followers
+// gained, following dropped, posts removed. null when either side is unknown.
+export interface SnapshotChange {
+  days: number;
+  follower_gain: number | null;
+  follower_change_pct: number | null;
+  following_drop: number | null;
+  following_drop_pct: number | null;
+  posts_deleted: number | null;
+  posts_deleted_pct: number | null;
+}
+
+// Scans of the same account: same platform and handle, ignoring case and "@"
+export function profileKey(platform: string, username: string): string {
+  return `${platform}\u0000${username.trim().replace(/^@/, '').toLowerCase()}`;
+}
+
+export function toSnapshot(
+  previous: SnapshotCounts & { id: string; created_at: string },
+  analyzedAt: string,
+): ProfileSnapshot {
+  return {
+    analysis_id: previous.id,
+    analyzed_at: previous.created_at,
+    days_before: Math.max(0, Math.round(((new Date(analyzedAt).getTime() - new Date(previous.created_at).getTime()) / DAY_MS) * 10) / 10),
+    followers_count: previous.followers_count,
+    following_count: previous.following_count,
+    posts_count: previous.posts_count,
+  };
+}
+
+function difference(before: number | null, after: number | null): { change: number; pct: number } | null {
+  if (before === null || after === null) return null;
+  return { change: after - before, pct: ((after - before) / Math.max(1, before)) * 100 };
+}
+
+export function compareSnapshots(previous: ProfileSnapshot, current: SnapshotCounts): SnapshotChange {
+  const followers = difference(previous.followers_count, current.followers_count);
+  const following = difference(previous.following_count, current.following_count);
+  const posts = difference(previous.posts_count, current.posts_count);
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return {
+    days: previous.days_before,
+    follower_gain: followers ? followers.change : null,
+    follower_change_pct: followers ? round(followers.pct) : null,
+    following_drop: following ? -following.change : null,
+    following_drop_pct: following ? round(-following.pct) : null,
+    posts_deleted: posts ? -posts.change : null,
+    posts_deleted_pct: posts ? round(-posts.pct) : null,
+  };
+}
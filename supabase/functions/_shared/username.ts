@@ -0,0 +1,206 @@
+// Deterministic username analysis. Computes the username-derived scoring flags
+// from the handle itself so every analyst (and the scraper) gets the same
+// answer, and records the evidence behind each flag.
+
+import { unicodeSkeleton } from './confusables.ts';
+
+export type UsernameSignal =
+  | 'numbers_heavy'
+  | 'random_characters'
+  | 'very_short'
+  | 'keyboard_walk'
+  | 'bot_template';
+
+export interface UsernameMetrics {
+  length: number;
+  digit_count: number;
+  digit_ratio: number;
+  longest_digit_run: number;
+  entropy: number;                  // Shannon entropy, bits per character
+  longest_consonant_cluster: number;
+  dictionary_coverage: number;      // share of letters covered by known words, 0–1
+}
+
+export interface UsernameAnalysis {
+  flags: Record<UsernameSignal, boolean>;
+  evidence: Partial<Record<UsernameSignal, string[]>>;
+  metrics: UsernameMetrics;
+}
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+const KEYBOARD_WALK_MIN = 4;
+
+// Common words and name fragments that show up in human-chosen handles.
+// Deliberately short: it only needs to recognise that a handle is made of
+// words, not to be a spell checker.
+const DICTIONARY = new Set([
+  'the', 'and', 'real', 'official', 'its', 'just', 'not', 'my', 'your', 'our',
+  'love', 'life', 'live', 'girl', 'boy', 'man', 'guy', 'lady', 'queen', 'king',
+  'prince', 'baby', 'babe', 'angel', 'star', 'moon', 'sun', 'sky', 'blue', 'red',
+  'black', 'white', 'gold', 'green', 'pink', 'dark', 'light', 'fire', 'ice', 'wolf',
+  'cat', 'dog', 'bear', 'lion', 'tiger', 'fox', 'bird', 'dragon', 'shadow', 'ghost',
+  'music', 'art', 'photo', 'photography', 'design', 'studio', 'media', 'news', 'daily', 'world',
+  'travel', 'food', 'fit', 'fitness', 'gym', 'game', 'gamer', 'gaming', 'play', 'player',
+  'tech', 'code', 'coder', 'dev', 'data', 'crypto', 'trade', 'trader', 'money', 'cash',
+  'shop', 'store', 'brand', 'team', 'club', 'fan', 'fans', 'page', 'blog', 'vlog',
+  'tv', 'radio', 'book', 'books', 'film', 'movie', 'style', 'fashion', 'beauty', 'hair',
+  'make', 'up', 'home', 'house', 'city', 'town', 'land', 'street', 'road', 'coffee',
+  'john', 'james', 'david', 'michael', 'chris', 'alex', 'sam', 'max', 'ben', 'tom',
+  'mark', 'paul', 'daniel', 'ryan', 'jack', 'josh', 'matt', 'nick', 'mike', 'dan',
+  'anna', 'maria', 'sarah', 'emma', 'olivia', 'sophia', 'mia', 'lily', 'kate', 'jessica',
+  'jane', 'doe', 'smith', 'jones', 'brown', 'lee', 'wang', 'kim', 'khan', 'singh',
+  'mr', 'mrs', 'miss', 'dr', 'pro', 'hq', 'app', 'bot', 'user',
+]);
+const MIN_WORD = 3;
+
+// Handle shapes that account-farm scripts generate in bulk
+const BOT_TEMPLATES: { pattern: RegExp; name: string }[] = [
+  { pattern: /^[a-z]+[._-][a-z]+\d{3,}$/i, name: 'name_name1234' },
+  { pattern: /^[a-z]{3,}\d{5,}$/i, name: 'name12345' },
+  { pattern: /^(user|usr|member|guest|account|acc)[._-]?\d{3,}$/i, name: 'user12345' },
+  { pattern: /^[a-z]+[._-]?\d{2,}[._-][a-z]+\d*$/i, name: 'name_12_name' },
+  { pattern: /^[A-Z][a-z]+[A-Z][a-z]+\d{4,}$/, name: 'FirstLast1234' },
+];
+
+function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function longestRun(value: string, pattern: RegExp): { length: number; text: string } {
+  let best = '';
+  for (const match of value.match(pattern) ?? []) {
+    if (match.length > best.length) best = match;
+  }
+  return { length: best.length, text: best };
+}
+
+function findKeyboardWalks(letters: string): string[] {
+  const walks: string[] = [];
+  for (const row of KEYBOARD_ROWS) {
+    for (const line of [row, [...row].reverse().join('')]) {
+      for (let i = 0; i + KEYBOARD_WALK_MIN <= line.length; i++) {
+        const walk = line.slice(i, i + KEYBOARD_WALK_MIN);
+        if (letters.includes(walk) && !walks.some((w) => w.includes(walk))) walks.push(walk);
+      }
+    }
+  }
+  return walks;
+}
+
+// Greedy longest-match segmentation: returns the share of letters that fall
+// inside dictionary words and the words found.
+function dictionaryCoverage(letters: string): { coverage: number; words: string[] } {
+  if (!letters) return { coverage: 0, words: [] };
+  const words: string[] = [];
+  let covered = 0;
+  let i = 0;
+  while (i < letters.length) {
+    let matched = '';
+    for (let j = letters.length; j - i >= MIN_WORD; j--) {
+      const candidate = letters.slice(i, j);
+      if (DICTIONARY.has(candidate)) { matched = candidate; break; }
+    }
+    if (matched) {
+      words.push(matched);
+      covered += matched.length;
+      i += matched.length;
+    } else {
+      i++;
+    }
+  }
+  return { coverage: covered / letters.length, words };
+}
+
+export function analyzeUsername(rawUsername: string): UsernameAnalysis {
+  // Fold lookalikes first so "аnnа_smith４８２１" is read like its ASCII twin
+  const username = unicodeSkeleton(rawUsername.trim()).replace(/^@/, '');
+  const lower = username.toLowerCase();
+  const letters = lower.replace(/[^a-z]/g, '');
+
+  const digitCount = (username.match(/\d/g) ?? []).length;
+  const digitRun = longestRun(username, /\d+/g);
+  const consonantRun = longestRun(lower, /[bcdfghjklmnpqrstvwxz]+/g);
+  const entropy = shannonEntropy(lower);
+  const { coverage, words } = dictionaryCoverage(letters);
+
+  const metrics: UsernameMetrics = {
+    length: username.length,
+    digit_count: digitCount,
+    digit_ratio: username.length > 0 ? digitCount / username.length : 0,
+    longest_digit_run: digitRun.length,
+    entropy: Math.round(entropy * 100) / 100,
+    longest_consonant_cluster: consonantRun.length,
+    dictionary_coverage: Math.round(coverage * 100) / 100,
+  };
+
+  const evidence: Partial<Record<UsernameSignal, string[]>> = {};
+  const note = (signal: UsernameSignal, reason: string) => {
+    (evidence[signal] ??= []).push(reason);
+  };
+
+  // Very short
+  if (username.length > 0 && username.length <= 3) {
+    note('very_short', `Only ${username.length} character${username.length === 1 ? '' : 's'} long`);
+  }
+
+  // Numbers heavy
+  if (digitCount >= 4) {
+    note('numbers_heavy', `${digitCount} digits (${Math.round(metrics.digit_ratio * 100)}% of the handle)`);
+  } else if (username.length >= 5 && metrics.digit_ratio > 0.5) {
+    note('numbers_heavy', `Digits make up ${Math.round(metrics.digit_ratio * 100)}% of the handle`);
+  }
+  if (evidence.numbers_heavy && digitRun.length >= 4) {
+    note('numbers_heavy', `Longest digit run "${digitRun.text}" (${digitRun.length})`);
+  }
+
+  // Random characters — needs at least two independent signs of randomness
+  const randomSigns: string[] = [];
+  if (username.length >= 8 && entropy >= 3.3) {
+    randomSigns.push(`High character entropy (${metrics.entropy} bits/char)`);
+  }
+  if (consonantRun.length >= 6) {
+    randomSigns.push(`Unpronounceable consonant cluster "${consonantRun.text}"`);
+  }
+  if (letters.length >= 6 && coverage < 0.3) {
+    randomSigns.push(words.length
+      ? `Only ${Math.round(coverage * 100)}% of letters form known words (${words.join(', ')})`
+      : 'No recognisable words');
+  }
+  if (/[a-z]/.test(username) && /[A-Z]/.test(username.slice(1)) && /\d/.test(username) && username.length >= 8 && coverage < 0.5) {
+    randomSigns.push('Mixed case, letters and digits interleaved');
+  }
+  if (randomSigns.length >= 2) randomSigns.forEach((sign) => note('random_characters', sign));
+
+  // Keyboard walk
+  for (const walk of findKeyboardWalks(letters)) {
+    note('keyboard_walk', `Contains keyboard sequence "${walk}"`);
+  }
+
+  // Bot templates
+  for (const template of BOT_TEMPLATES) {
+    if (template.pattern.test(username)) {
+      note('bot_template', `Matches the ${template.name} pattern used by account generators`);
+      break;
+    }
+  }
+
+  return {
+    flags: {
+      numbers_heavy: !!evidence.numbers_heavy,
+      random_characters: !!evidence.random_characters,
+      very_short: !!evidence.very_short,
+      keyboard_walk: !!evidence.keyboard_walk,
+      bot_template: !!evidence.bot_template,
+    },
+    evidence,
+    metrics,
+  };
+}
@@ -1,113 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  analyzeProfile,
+  DEFAULT_SCORING_CONFIG,
+  missingDefaultRules,
+  validateScoringConfig,
+  type ProfileInput,
+  type ScoringConfig,
+} from "../_shared/scoring.ts";
+import { analyzeUsername } from "../_shared/username.ts";
+import { analyzeBio } from "../_shared/bio.ts";
+import { parseTimestamps } from "../_shared/cadence.ts";
+import { sanitizeFollowerSample } from "../_shared/followers.ts";
+import { matchCluster, type AccountCluster } from "../_shared/clustering.ts";
+import { matchProtectedHandle, type ProtectedHandle } from "../_shared/impersonation.ts";
+import { profileKey, toSnapshot } from "../_shared/timeline.ts";
+import { isLogisticModel, scoreWithModel, type LearnedScore } from "../_shared/logistic.ts";
+import type { ShadowKind } from "../_shared/shadow.ts";
+import { PLATFORMS } from "../_shared/platforms.ts";
+
+// Cadence only looks at recent activity; cap what a client can send
+const MAX_POST_TIMESTAMPS = 500;
+
+// How far back to look for an earlier scan of the same profile
+const SNAPSHOT_LOOKBACK = 200;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface ProfileInput {
-  username: string;
-  account_age: number;       // days
-  posts_count: number;
-  followers_count: number;
-  following_count: number;
-  bio_length: number;        // characters
-  username_flags: {
-    numbers_heavy?: boolean;
-    no_profile_pic?: boolean;
-    random_characters?: boolean;
-    very_short?: boolean;
-  };
-}
-
-interface TopFactor {
-  factor: string;
-  description: string;
-  impact: 'high' | 'medium' | 'low';
-}
-
-function analyzeProfile(input: ProfileInput): { risk_score: number; label: string; top_factors: TopFactor[] } {
-  const factors: TopFactor[] = [];
-  let score = 0;
-
-  // 1. Account age score (newer = riskier)
-  const ageDays = input.account_age;
-  if (ageDays < 30) {
-    score += 25;
-    factors.push({ factor: 'Very new account', description: `Account is only ${ageDays} days old — a common trait of fake profiles.`, impact: 'high' });
-  } else if (ageDays < 180) {
-    score += 12;
-    factors.push({ factor: 'Relatively new account', description: `Account is ${ageDays} days old, which is below average for established profiles.`, impact: 'medium' });
-  }
-
-  // 2. Follower/Following ratio
-  const ratio = input.following_count > 0 ? input.followers_count / input.following_count : input.followers_count;
-  if (ratio < 0.1 && input.following_count > 100) {
-    score += 20;
-    factors.push({ factor: 'Abnormal following ratio', description: `Follows ${input.following_count} accounts but only has ${input.followers_count} followers — a classic bot signal.`, impact: 'high' });
-  } else if (ratio > 100 && input.followers_count > 10000) {
-    // Very high followers with low following could be legit celeb but flag it
-    score += 5;
-    factors.push({ factor: 'Unusually high follower ratio', description: `Extremely high followers vs. following may indicate purchased followers.`, impact: 'low' });
-  }
-
-  // 3. Posts count relative to account age
-  const postsPerDay = ageDays > 0 ? input.posts_count / ageDays : 0;
-  if (postsPerDay > 20) {
-    score += 20;
-    factors.push({ factor: 'Abnormal posting frequency', description: `Averages ${postsPerDay.toFixed(1)} posts/day — far above human capability.`, impact: 'high' });
-  } else if (input.posts_count === 0) {
-    score += 15;
-    factors.push({ factor: 'No posts found', description: 'Account has zero posts, which is unusual for active users.', impact: 'medium' });
-  }
-
-  // 4. Bio length
-  if (input.bio_length === 0) {
-    score += 10;
-    factors.push({ factor: 'Empty bio', description: 'No bio text — real users typically introduce themselves.', impact: 'medium' });
-  } else if (input.bio_length < 10) {
-    score += 5;
-    factors.push({ factor: 'Very short bio', description: `Bio is only ${input.bio_length} characters — minimal self-identification.`, impact: 'low' });
-  }
-
-  // 5. Username flags
-  const flags = input.username_flags || {};
-  if (flags.numbers_heavy) {
-    score += 10;
-    factors.push({ factor: 'Username has many numbers', description: 'Number-heavy usernames are frequently generated by bot creation scripts.', impact: 'medium' });
-  }
-  if (flags.no_profile_pic) {
-    score += 10;
-    factors.push({ factor: 'No profile picture', description: 'Missing profile picture is a strong indicator of an automated or spam account.', impact: 'medium' });
-  }
-  if (flags.random_characters) {
-    score += 12;
-    factors.push({ factor: 'Random-looking username', description: 'Username appears machine-generated with random character sequences.', impact: 'high' });
-  }
-  if (flags.very_short) {
-    score += 5;
-    factors.push({ factor: 'Very short username', description: 'Short usernames may indicate account squatting or automation.', impact: 'low' });
-  }
-
-  // Clamp score to 0–100
-  const risk_score = Math.min(100, Math.max(0, score));
-
-  // Determine label
-  let label: string;
-  if (risk_score >= 65) label = 'fake';
-  else if (risk_score >= 35) label = 'suspicious';
-  else label = 'real';
-
-  // Return top 4 factors sorted by impact
-  const impactOrder = { high: 0, medium: 1, low: 2 };
-  const top_factors = factors
-    .sort((a, b) => impactOrder[a.impact] - impactOrder[b.impact])
-    .slice(0, 4);
-
-  return { risk_score, label, top_factors };
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -137,10 +59,123 @@ serve(async (req) => {
       });
     }
 
-    const input: ProfileInput = await req.json();
+    const body: ProfileInput = await req.json();
 
-    // Run mock ML scoring
-    const result = analyzeProfile(input);
+    // Username flags are derived here from the handle itself; only the profile
+    // picture flag is taken from the client
+    const usernameAnalysis = analyzeUsername(body.username ?? '');
+    const bio = typeof body.bio === 'string' ? body.bio : null;
+    const input: ProfileInput = {
+      ...body,
+      display_name: typeof body.display_name === 'string' && body.display_name.trim() ? body.display_name : null,
+      bio,
+      bio_length: bio !== null ? analyzeBio(bio).length : body.bio_length,
+      post_timestamps: Array.isArray(body.post_timestamps)
+        ? parseTimestamps(body.post_timestamps).slice(-MAX_POST_TIMESTAMPS).map((d) => d.toISOString())
+        : null,
+      follower_sample: Array.isArray(body.follower_sample) ? sanitizeFollowerSample(body.follower_sample) : null,
+      username_flags: { ...usernameAnalysis.flags, no_profile_pic: !!body.username_flags?.no_profile_pic },
+      cluster: null,
+      impersonation: null,
+      previous_snapshot: null,
+    };
+    const platform = (PLATFORMS as readonly string[]).includes(body.platform ?? '') ? body.platform! : 'Unknown';
+
+    // Place the profile in a known coordinated-account cluster, if it fits one
+    const { data: clusters, error: clustersError } = await supabase
+      .from('account_clusters')
+      .select('id, platform, username_template, signature, size, created_from, created_to, members')
+      .eq('platform', platform);
+    if (clustersError) {
+      console.warn('Failed to load account clusters:', clustersError);
+    } else if (clusters.length > 0) {
+      input.cluster = matchCluster({
+        id: 'pending',
+        username: input.username,
+        platform,
+        followers_count: input.followers_count,
+        following_count: input.following_count,
+        posts_count: input.posts_count,
+        account_age: input.account_age,
+        analyzed_at: new Date().toISOString(),
+      }, clusters as (AccountCluster & { id: string })[]);
+    }
+
+    // Compare the handle against the protected-handles watchlist
+    const { data: watchlist, error: watchlistError } = await supabase
+      .from('protected_handles')
+      .select('handle, platform, label');
+    if (watchlistError) {
+      console.warn('Failed to load protected handles:', watchlistError);
+    } else {
+      input.impersonation = matchProtectedHandle(input.username, watchlist as ProtectedHandle[], platform);
+    }
+
+    // Compare with this user's previous scan of the same profile, if any
+    const analyzedAt = new Date().toISOString();
+    const { data: earlier, error: earlierError } = await supabase
+      .from('analysis_results')
+      .select('id, username, created_at, followers_count, following_count, posts_count')
+      .eq('user_id', user.id)
+      .eq('platform', platform)
+      .order('created_at', { ascending: false })
+      .limit(SNAPSHOT_LOOKBACK);
+    if (earlierError) {
+      console.warn('Failed to load earlier scans:', earlierError);
+    } else {
+      const key = profileKey(platform, input.username);
+      const previous = earlier.find((r) => profileKey(platform, r.username) === key);
+      if (previous) input.previous_snapshot = toSnapshot(previous, analyzedAt);
+    }
+
+    // Load the active rule set; fall back to the built-in defaults if none is
+    // active or the stored one fails validation
+    let config: ScoringConfig = DEFAULT_SCORING_CONFIG;
+    const { data: ruleSet, error: rulesError } = await supabase
+      .from('scoring_rules')
+      .select('version, rules, thresholds')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (rulesError) {
+      console.warn('Failed to load scoring rules, using defaults:', rulesError);
+    } else if (ruleSet) {
+      const candidate = ruleSet as ScoringConfig;
+      const problems = validateScoringConfig(candidate);
+      if (problems.length === 0) {
+        config = candidate;
+        // Published sets are frozen; built-in rules added since do not fire
+        const missing = missingDefaultRules(candidate.rules);
+        if (missing.length > 0) console.warn(`Active rule set ${ruleSet.version} lacks built-in rules:`, missing.map((r) => r.id));
+      } else {
+        console.warn(`Active rule set ${ruleSet.version} is invalid, using defaults:`, problems);
+      }
+    }
+
+    const heuristic = analyzeProfile(input, config);
+    let result = heuristic;
+
+    // Score with the active learned model, or the newest one for comparison
+    // when the rules are the active scorer
+    let learned: (LearnedScore & { model: string }) | null = null;
+    const { data: scoringModel, error: modelError } = await supabase
+      .from('scoring_models')
+      .select('version, model, is_active')
+      .order('is_active', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (modelError) {
+      console.warn('Failed to load scoring model:', modelError);
+    } else if (scoringModel && !isLogisticModel(scoringModel.model)) {
+      console.warn(`Scoring model ${scoringModel.version} is invalid, using rules only`);
+    } else if (scoringModel) {
+      learned = { ...scoreWithModel(scoringModel.model, input, config.thresholds), model: scoringModel.version };
+      if (scoringModel.is_active) {
+        result = { ...heuristic, risk_score: learned.risk_score, label: learned.label, model_version: scoringModel.version };
+      }
+    }
 
     // Save to database
     const { data: savedResult, error: insertError } = await supabase
@@ -148,15 +183,33 @@ serve(async (req) => {
       .insert({
         user_id: user.id,
         username: input.username,
+        display_name: input.display_name,
         account_age: input.account_age,
         posts_count: input.posts_count,
         followers_count: input.followers_count,
         following_count: input.following_count,
         bio_length: input.bio_length,
+        bio: input.bio,
+        avg_likes: input.avg_likes ?? null,
+        avg_comments: input.avg_comments ?? null,
+        avg_views: input.avg_views ?? null,
+        post_timestamps: input.post_timestamps,
+        follower_sample: input.follower_sample,
+        follower_breakdown: result.follower_breakdown ?? null,
+        cluster: input.cluster,
+        impersonation: input.impersonation,
+        previous_snapshot: input.previous_snapshot,
         username_flags: input.username_flags,
+        username_analysis: usernameAnalysis,
         risk_score: result.risk_score,
         label: result.label,
         top_factors: result.top_factors,
+        model_version: result.model_version,
+        platform: result.platform,
+        confidence: result.confidence,
+        heuristic_score: heuristic.risk_score,
+        learned_score: learned?.risk_score ?? null,
+        learned_model: learned?.model ?? null,
       })
       .select()
       .single();
@@ -169,7 +222,59 @@ serve(async (req) => {
       });
     }
 
-    return new Response(JSON.stringify({ ...result, id: savedResult.id }), {
+    // Score with the shadow candidate, if one is designated. The result is
+    // only stored for Admin; a failure here never fails the request.
+    const [shadowRules, shadowModel] = await Promise.all([
+      supabase.from('scoring_rules').select('version, rules, thresholds').eq('is_shadow', true).maybeSingle(),
+      supabase.from('scoring_models').select('version, model').eq('is_shadow', true).maybeSingle(),
+    ]);
+    let shadow: { version: string; kind: ShadowKind; risk_score: number; label: string } | null = null;
+    if (shadowRules.error || shadowModel.error) {
+      console.warn('Failed to load shadow scorer:', shadowRules.error ?? shadowModel.error);
+    } else if (shadowRules.data) {
+      const candidate = shadowRules.data as ScoringConfig;
+      const problems = validateScoringConfig(candidate);
+      if (problems.length === 0) {
+        const scored = analyzeProfile(input, candidate);
+        shadow = { version: candidate.version, kind: 'rules', risk_score: scored.risk_score, label: scored.label };
+      } else {
+        console.warn(`Shadow rule set ${candidate.version} is invalid, skipping:`, problems);
+      }
+    } else if (shadowModel.data) {
+      if (isLogisticModel(shadowModel.data.model)) {
+        const scored = scoreWithModel(shadowModel.data.model, input, config.thresholds);
+        shadow = { version: shadowModel.data.version, kind: 'model', ...scored };
+      } else {
+        console.warn(`Shadow model ${shadowModel.data.version} is invalid, skipping`);
+      }
+    }
+
+    if (shadow) {
+      const { error: shadowError } = await supabase.from('shadow_scores').insert({
+        analysis_id: savedResult.id,
+        shadow_version: shadow.version,
+        shadow_kind: shadow.kind,
+        risk_score: shadow.risk_score,
+        label: shadow.label,
+        live_version: result.model_version,
+        live_score: result.risk_score,
+        live_label: result.label,
+      });
+      if (shadowError) console.warn('Failed to save shadow score:', shadowError);
+    }
+
+    return new Response(JSON.stringify({
+      ...result,
+      id: savedResult.id,
+      username_flags: input.username_flags,
+      username_analysis: usernameAnalysis,
+      cluster: input.cluster,
+      impersonation: input.impersonation,
+      previous_snapshot: input.previous_snapshot,
+      heuristic_score: heuristic.risk_score,
+      learned_score: learned?.risk_score ?? null,
+      learned_model: learned?.model ?? null,
+    }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
 
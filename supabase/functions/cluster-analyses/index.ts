@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clusterAnalyses, type ClusterCandidate } from "../_shared/clustering.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Clustering is pairwise within a platform; bound the work per run
+const MAX_ANALYSES = 5000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: role } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+    if (!role) {
+      return new Response(JSON.stringify({ error: 'Admins only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: rows, error: loadError } = await supabase
+      .from('analysis_results')
+      .select('id, username, platform, followers_count, following_count, posts_count, account_age, created_at')
+      .neq('platform', 'Unknown')
+      .order('created_at', { ascending: false })
+      .limit(MAX_ANALYSES);
+
+    if (loadError) {
+      console.error('Load error:', loadError);
+      return new Response(JSON.stringify({ error: 'Failed to load analyses' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const candidates: ClusterCandidate[] = rows.map((r) => ({
+      id: r.id,
+      username: r.username,
+      platform: r.platform,
+      followers_count: r.followers_count,
+      following_count: r.following_count,
+      posts_count: r.posts_count,
+      account_age: r.account_age,
+      analyzed_at: r.created_at,
+    }));
+    const clusters = clusterAnalyses(candidates);
+
+    // Insert the new run first so there is never a moment with no clusters
+    const runId = crypto.randomUUID();
+    if (clusters.length > 0) {
+      const { error: insertError } = await supabase
+        .from('account_clusters')
+        .insert(clusters.map((c) => ({ ...c, run_id: runId })));
+      if (insertError) {
+        console.error('Insert error:', insertError);
+        return new Response(JSON.stringify({ error: 'Failed to save clusters' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('account_clusters')
+      .delete()
+      .neq('run_id', runId);
+    if (deleteError) console.warn('Failed to remove previous clusters:', deleteError);
+
+    await supabase.from('audit_logs').insert({
+      user_id: user.id,
+      action: 'clusters.rebuild',
+      resource: 'account_clusters',
+      resource_id: runId,
+      metadata: {
+        analyses_scanned: candidates.length,
+        clusters: clusters.length,
+        clustered_accounts: clusters.reduce((sum, c) => sum + c.size, 0),
+      },
+    });
+
+    return new Response(JSON.stringify({
+      run_id: runId,
+      analyses_scanned: candidates.length,
+      clusters: clusters.length,
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (err) {
+    console.error(err);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
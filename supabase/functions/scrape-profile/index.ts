@@ -1,23 +1,31 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { detectPlatform } from "../_shared/platforms.ts";
+import { analyzeUsername } from "../_shared/username.ts";
+import { analyzeBio } from "../_shared/bio.ts";
+import { parseTimestamps } from "../_shared/cadence.ts";
+import { matchProtectedHandle, type ProtectedHandle } from "../_shared/impersonation.ts";
+import { parseProfileUrl, pastedPage, selectScraper, type ScrapedPage, type ScraperProvider } from "../_shared/scrapers.ts";
+import {
+  EXTRACTED_FIELDS,
+  parseProfilePage,
+  type ExtractedField,
+  type ExtractedProfile,
+} from "../_shared/parsers.ts";
+import {
+  fieldProvenance,
+  mergeExtractions,
+  parseModelJson,
+  repairPrompt,
+  validateExtraction,
+  type ValidatedExtraction,
+} from "../_shared/extraction.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
-// Detect platform from URL
-function detectPlatform(url: string): string {
-  if (url.includes('instagram.com')) return 'Instagram';
-  if (url.includes('twitter.com') || url.includes('x.com')) return 'Twitter/X';
-  if (url.includes('tiktok.com')) return 'TikTok';
-  if (url.includes('facebook.com')) return 'Facebook';
-  if (url.includes('linkedin.com')) return 'LinkedIn';
-  if (url.includes('reddit.com')) return 'Reddit';
-  if (url.includes('youtube.com')) return 'YouTube';
-  return 'Unknown';
-}
-
 // Extract username from URL
 function extractUsername(url: string): string {
   try {
@@ -26,12 +34,151 @@ function extractUsername(url: string): string {
     // Remove common prefixes
     const skip = ['user', 'users', 'u', 'profile', 'in', 'channel', 'c'];
     const username = parts.find(p => !skip.includes(p) && !p.startsWith('@')) ?? parts[0] ?? 'unknown';
-    return username.replace('@', '');
+    // Paths are percent-encoded; decode so non-ASCII handles reach the analysis intact
+    return decodeURIComponent(username).replace('@', '');
   } catch {
     return 'unknown';
   }
 }
 
+// Saved page sources run to a few hundred KB; anything far beyond that is not a profile page
+const MAX_PASTED_CHARS = 2_000_000;
+
+// Saved pages for SCRAPER_PROVIDER=fixture, named after fixtureName(url).
+// SCRAPER_FIXTURE_DIR points elsewhere, e.g. at a directory of captured pages.
+async function readFixture(name: string): Promise<string | null> {
+  const dir = Deno.env.get('SCRAPER_FIXTURE_DIR');
+  try {
+    return await Deno.readTextFile(dir ? `${dir.replace(/\/$/, '')}/${name}` : new URL(`./fixtures/${name}`, import.meta.url));
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return null;
+    throw err;
+  }
+}
+
+// Used for any field neither the parsers nor the LLM could fill
+const FIELD_DEFAULTS: ExtractedProfile = {
+  username: null,
+  display_name: null,
+  followers_count: null,
+  following_count: null,
+  posts_count: null,
+  bio: null,
+  bio_length: null,
+  avg_likes: null,
+  avg_comments: null,
+  avg_views: null,
+  post_timestamps: [],
+  account_age: null,
+  has_profile_pic: true,
+};
+
+// Read straight off the markup, these make for a high-confidence scrape
+const COUNT_FIELDS: ExtractedField[] = ['followers_count', 'following_count', 'posts_count', 'account_age'];
+
+const FIELD_PROMPTS: Record<ExtractedField, string> = {
+  username: '"username": "the profile username or handle (without @)"',
+  display_name: '"display_name": "<the display name shown on the profile, exactly as written including any non-Latin characters and emoji, null if not found>"',
+  followers_count: '"followers_count": <integer, followers/subscribers count, null if not found>',
+  following_count: '"following_count": <integer, following count, null if not found>',
+  posts_count: '"posts_count": <integer, posts/tweets/videos count, null if not found>',
+  bio: '"bio": "<the bio/description text exactly as written, including emoji and links; empty string if the bio is visibly empty, null if not found>"',
+  bio_length: '"bio_length": <integer, number of characters in the bio/description, 0 if the bio is visibly empty, null if not found>',
+  avg_likes: '"avg_likes": <number, average likes per post across the recent posts visible on the page, null if not visible>',
+  avg_comments: '"avg_comments": <number, average comments per post across the recent posts visible on the page, null if not visible>',
+  avg_views: '"avg_views": <number, average views/plays per post across the recent posts visible on the page, null if not visible>',
+  post_timestamps: '"post_timestamps": <array of ISO 8601 date-time strings for the recent posts visible on the page, most recent first; [] if none are visible>',
+  account_age: '"account_age": <integer, estimated account age in days. Look for "joined" date or similar. null if unknown>',
+  has_profile_pic: '"has_profile_pic": <boolean, true if the page mentions or shows a profile picture>',
+};
+
+// One chat completion; null when the gateway call fails
+async function complete(apiKey: string, messages: { role: string; content: string }[]): Promise<string | null> {
+  try {
+    const aiRes = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'google/gemini-2.5-flash',
+        messages,
+        temperature: 0.1,
+      }),
+    });
+
+    if (!aiRes.ok) {
+      console.warn('AI request failed:', aiRes.status);
+      return null;
+    }
+    const aiData = await aiRes.json();
+    return aiData.choices?.[0]?.message?.content ?? '';
+  } catch (aiErr) {
+    console.warn('AI extraction error:', aiErr);
+    return null;
+  }
+}
+
+function validateReply(content: string, fields: ExtractedField[]): ValidatedExtraction {
+  const parsed = parseModelJson(content);
+  return 'error' in parsed
+    ? { values: {}, confidence: null, notes: null, evidence: {}, errors: [parsed.error] }
+    : validateExtraction(parsed.json, fields);
+}
+
+// LLM fallback for the fields the markup parsers could not fill. A reply that
+// fails the schema gets one repair round with the errors; values still invalid
+// after that are dropped field by field.
+async function extractWithAI(
+  apiKey: string, platform: string, profileUrl: string, page: ScrapedPage, fields: ExtractedField[],
+): Promise<ValidatedExtraction | null> {
+  const extractionPrompt = `You are a social media profile data extractor. Analyze the following scraped content from a ${platform} profile page and extract structured data.
+
+Profile URL: ${profileUrl || 'unknown'}
+Scraped content (markdown):
+${page.markdown.slice(0, 8000)}
+
+Number of links found on page: ${page.links.length}
+
+Extract the following metrics and return them as a valid JSON object (no markdown, just JSON):
+{
+  ${fields.map((f) => FIELD_PROMPTS[f]).join(',\n  ')},
+  "confidence": <"high" | "medium" | "low" — how confident you are in the extracted data>,
+  "notes": "<brief explanation of what was found or not found>",
+  "evidence": { "<field name>": "<the exact text on the page the value was read from, copied verbatim, at most 100 characters>" }
+}
+
+Rules:
+- Parse numbers carefully: "1.2M" = 1200000, "15.3K" = 15300, "1,234" = 1234
+- If a number is genuinely not visible on the page, use null — never 0. Only use 0 when the page actually shows zero
+- If a boolean is not visible on the page, use false
+- Do NOT make up data — only extract what's actually visible in the content
+- Give evidence for every field you fill; leave fields you set to null out of "evidence"
+- Return ONLY valid JSON, no extra text`;
+
+  const messages = [{ role: 'user', content: extractionPrompt }];
+  const reply = await complete(apiKey, messages);
+  if (reply === null) return null;
+
+  const first = validateReply(reply, fields);
+  if (!first.errors.length) return first;
+  console.warn('AI output failed validation, re-prompting:', first.errors);
+
+  messages.push({ role: 'assistant', content: reply }, { role: 'user', content: repairPrompt(first.errors) });
+  const repairReply = await complete(apiKey, messages);
+  if (repairReply === null) return first;
+
+  const result = mergeExtractions(first, validateReply(repairReply, fields));
+  if (result.errors.length) console.warn('AI output still invalid after repair; dropping:', result.errors);
+  return result;
+}
+
+// Normalize an extracted count; anything that isn't a real number is unknown
+function toCount(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : null;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -58,178 +205,155 @@ serve(async (req) => {
       });
     }
 
-    const { url: profileUrl } = await req.json();
-    if (!profileUrl) {
-      return new Response(JSON.stringify({ error: 'Profile URL is required' }), {
+    const { url, content } = await req.json();
+    const pasted = typeof content === 'string' && content.trim() ? content : null;
+    if (!url && !pasted) {
+      return new Response(JSON.stringify({ error: 'Profile URL or page content is required' }), {
         status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
-
-    const firecrawlKey = Deno.env.get('FIRECRAWL_API_KEY');
-    if (!firecrawlKey) {
-      return new Response(JSON.stringify({ error: 'Firecrawl not configured' }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    // Bare hosts are read as https; other schemes and non-strings are rejected
+    const parsedUrl = typeof url === 'string' ? parseProfileUrl(url) : null;
+    if (url !== undefined && url !== null && url !== '' && !parsedUrl) {
+      return new Response(JSON.stringify({ error: 'Profile URL must be an http(s) URL' }), {
+        status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
-
-    const lovableKey = Deno.env.get('LOVABLE_API_KEY');
-    if (!lovableKey) {
-      return new Response(JSON.stringify({ error: 'AI gateway not configured' }), {
-        status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    if (pasted && pasted.length > MAX_PASTED_CHARS) {
+      return new Response(JSON.stringify({ error: 'Pasted page is too large' }), {
+        status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const platform = detectPlatform(profileUrl);
-    const usernameFromUrl = extractUsername(profileUrl);
+    // Optional: without the gateway the markup parsers still run on their own
+    const lovableKey = Deno.env.get('LOVABLE_API_KEY');
 
-    console.log(`Scraping ${platform} profile: ${profileUrl}`);
-
-    // Step 1: Scrape the profile page with Firecrawl
-    let scrapedMarkdown = '';
-    let scrapedLinks: string[] = [];
-
-    try {
-      const scrapeRes = await fetch('https://api.firecrawl.dev/v1/scrape', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${firecrawlKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          url: profileUrl,
-          formats: ['markdown', 'links'],
-          onlyMainContent: false,
-          waitFor: 3000,
-        }),
-      });
+    // Step 1: Get the page — pasted by the analyst, or fetched through the configured provider
+    let page: ScrapedPage = { markdown: '', links: [], html: null };
+    let profileUrl: string = parsedUrl?.href ?? '';
+    let source: string;
 
-      const scrapeData = await scrapeRes.json();
-      console.log('Firecrawl status:', scrapeRes.status);
-
-      if (scrapeRes.ok && scrapeData.success) {
-        scrapedMarkdown = scrapeData.data?.markdown ?? scrapeData.markdown ?? '';
-        scrapedLinks = scrapeData.data?.links ?? scrapeData.links ?? [];
-        console.log(`Scraped ${scrapedMarkdown.length} chars, ${scrapedLinks.length} links`);
-      } else {
-        console.warn('Firecrawl failed or returned partial data:', scrapeData.error);
-        // Continue with partial data — AI will work with what we have
-        scrapedMarkdown = scrapeData.data?.markdown ?? scrapeData.markdown ?? '';
+    if (pasted) {
+      const pastedContent = pastedPage(pasted, parsedUrl?.href);
+      page = pastedContent;
+      profileUrl = pastedContent.url ?? '';
+      source = 'paste';
+      console.log(`Extracting pasted ${page.html ? 'page source' : 'text'} (${pasted.length} chars) for ${profileUrl || 'an unknown URL'}`);
+    } else {
+      let scraper: ScraperProvider;
+      try {
+        scraper = selectScraper({
+          provider: Deno.env.get('SCRAPER_PROVIDER'),
+          firecrawlKey: Deno.env.get('FIRECRAWL_API_KEY'),
+          readFixture,
+        });
+      } catch (configErr) {
+        console.error('Scraper configuration error:', configErr);
+        return new Response(JSON.stringify({ error: 'Scraper not configured' }), {
+          status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    } catch (e) {
-      console.warn('Firecrawl request failed:', e);
-      // Graceful degradation — will return URL-inferred data
-    }
-
-    // Step 2: Use AI to extract structured profile metrics from the scraped content
-    const extractionPrompt = `You are a social media profile data extractor. Analyze the following scraped content from a ${platform} profile page and extract structured data.
-
-Profile URL: ${profileUrl}
-Scraped content (markdown):
-${scrapedMarkdown.slice(0, 8000)}
+      source = scraper.name;
+      console.log(`Scraping ${detectPlatform(profileUrl)} profile with ${scraper.name}: ${profileUrl}`);
 
-Number of links found on page: ${scrapedLinks.length}
+      try {
+        page = await scraper.scrape(profileUrl);
+        console.log(`Scraped ${page.markdown.length} chars, ${page.links.length} links via ${scraper.name}`);
+      } catch (e) {
+        console.warn(`Scrape via ${scraper.name} failed:`, e);
+        // Graceful degradation — will return URL-inferred data
+      }
+    }
 
-Extract the following metrics and return them as a valid JSON object (no markdown, just JSON):
-{
-  "username": "the profile username or handle (without @)",
-  "followers_count": <integer, followers/subscribers count, 0 if not found>,
-  "following_count": <integer, following count, 0 if not found>,
-  "posts_count": <integer, posts/tweets/videos count, 0 if not found>,
-  "bio_length": <integer, number of characters in the bio/description, 0 if not found>,
-  "account_age": <integer, estimated account age in days. Look for "joined" date or similar. Use 0 if unknown>,
-  "has_profile_pic": <boolean, true if the page mentions or shows a profile picture>,
-  "username_flags": {
-    "numbers_heavy": <boolean, true if username has many numbers like user1234567>,
-    "random_characters": <boolean, true if username looks randomly generated>,
-    "very_short": <boolean, true if username is 3 chars or less>
-  },
-  "platform": "${platform}",
-  "confidence": <"high" | "medium" | "low" — how confident you are in the extracted data>,
-  "notes": "<brief explanation of what was found or not found>"
-}
+    const platform = detectPlatform(profileUrl);
+    const usernameFromUrl = extractUsername(profileUrl);
 
-Rules:
-- Parse numbers carefully: "1.2M" = 1200000, "15.3K" = 15300, "1,234" = 1234
-- If a field is genuinely not visible on the page, use 0 or false defaults
-- Do NOT make up data — only extract what's actually visible in the content
-- Return ONLY valid JSON, no extra text`;
+    // Step 2: Read everything the page markup states outright
+    const parsed = parseProfilePage(platform, page);
+    if (parsed.values.username === undefined && usernameFromUrl !== 'unknown') {
+      parsed.values.username = usernameFromUrl;
+      parsed.evidence.username = { confidence: 'high', snippet: profileUrl };
+    }
 
-    let extractedData = {
-      username: usernameFromUrl,
-      followers_count: 0,
-      following_count: 0,
-      posts_count: 0,
-      bio_length: 0,
-      account_age: 0,
-      has_profile_pic: true,
-      username_flags: { numbers_heavy: false, random_characters: false, very_short: false },
-      platform,
-      confidence: 'low' as const,
-      notes: 'Could not extract data from the page',
-    };
+    const missing = EXTRACTED_FIELDS.filter((f) => parsed.values[f] === undefined);
+    console.log(`Parsed ${EXTRACTED_FIELDS.length - missing.length} fields from markup; missing: ${missing.join(', ') || 'none'}`);
 
-    try {
-      const aiRes = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${lovableKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-2.5-flash',
-          messages: [{ role: 'user', content: extractionPrompt }],
-          temperature: 0.1,
-        }),
-      });
+    // Step 3: Ask the LLM only for the fields the parsers could not fill
+    let aiExtracted: ValidatedExtraction | null = null;
+    if (missing.length && lovableKey) {
+      aiExtracted = await extractWithAI(lovableKey, platform, profileUrl, page, missing);
+    } else if (missing.length) {
+      console.warn('LOVABLE_API_KEY not set; skipping AI extraction for', missing.join(', '));
+    }
 
-      if (aiRes.ok) {
-        const aiData = await aiRes.json();
-        const rawContent = aiData.choices?.[0]?.message?.content ?? '';
-
-        // Strip markdown code blocks if present
-        const jsonStr = rawContent
-          .replace(/```json\n?/g, '')
-          .replace(/```\n?/g, '')
-          .trim();
-
-        try {
-          const parsed = JSON.parse(jsonStr);
-          extractedData = { ...extractedData, ...parsed };
-          console.log('AI extracted:', JSON.stringify(extractedData));
-        } catch (parseErr) {
-          console.warn('JSON parse failed:', parseErr, 'Raw:', rawContent.slice(0, 200));
-        }
-      } else {
-        console.warn('AI request failed:', aiRes.status);
-      }
-    } catch (aiErr) {
-      console.warn('AI extraction error:', aiErr);
+    const extractedData: ExtractedProfile = { ...FIELD_DEFAULTS, ...parsed.values };
+    for (const field of missing) {
+      const value = aiExtracted?.values[field];
+      if (value !== undefined) Object.assign(extractedData, { [field]: value });
     }
+    const provenance = fieldProvenance(EXTRACTED_FIELDS, parsed, aiExtracted, page.markdown.slice(0, 8000));
+
+    const parsedCounts = COUNT_FIELDS.filter((f) => provenance[f].source === 'parser').length;
+    const confidence = aiExtracted?.confidence
+      ?? (parsedCounts >= 3 ? 'high' : parsedCounts > 0 ? 'medium' : 'low');
+    const parsedFields = EXTRACTED_FIELDS.length - missing.length;
+    const notes = [
+      `${parsedFields} field${parsedFields !== 1 ? 's' : ''} read from the page markup.`,
+      aiExtracted?.notes ?? (!missing.length ? 'AI extraction was not needed.' : null),
+    ].filter(Boolean).join(' ');
 
-    // Step 3: Build username flags
+    // Step 4: Build username flags — computed from the handle, not guessed by the model
     const username = extractedData.username || usernameFromUrl;
-    const numberCount = (username.match(/\d/g) || []).length;
+    const usernameAnalysis = analyzeUsername(username);
     const username_flags = {
-      numbers_heavy: numberCount >= 4 || extractedData.username_flags?.numbers_heavy || false,
+      ...usernameAnalysis.flags,
       no_profile_pic: !extractedData.has_profile_pic,
-      random_characters: extractedData.username_flags?.random_characters || false,
-      very_short: username.length <= 3 || extractedData.username_flags?.very_short || false,
     };
 
+    // Warn early if the handle imitates one on the protected-handles watchlist
+    let impersonation = null;
+    const { data: watchlist, error: watchlistError } = await supabase
+      .from('protected_handles')
+      .select('handle, platform, label');
+    if (watchlistError) {
+      console.warn('Failed to load protected handles:', watchlistError);
+    } else {
+      impersonation = matchProtectedHandle(username, watchlist as ProtectedHandle[], platform);
+    }
+
+    // The bio text, when found, is the authority on its length
+    const bio = typeof extractedData.bio === 'string' ? extractedData.bio : null;
+    const bio_length = bio !== null ? analyzeBio(bio).length : toCount(extractedData.bio_length);
+    if (bio !== null) provenance.bio_length = provenance.bio;
+
     return new Response(JSON.stringify({
       success: true,
-      platform: extractedData.platform,
-      confidence: extractedData.confidence,
-      notes: extractedData.notes,
+      scraper: source,
+      platform,
+      confidence,
+      notes,
+      provenance,
       profile: {
         username,
-        followers_count: Math.max(0, Math.round(extractedData.followers_count)),
-        following_count: Math.max(0, Math.round(extractedData.following_count)),
-        posts_count: Math.max(0, Math.round(extractedData.posts_count)),
-        bio_length: Math.max(0, Math.round(extractedData.bio_length)),
-        account_age: Math.max(0, Math.round(extractedData.account_age)),
+        display_name: typeof extractedData.display_name === 'string' && extractedData.display_name.trim()
+          ? extractedData.display_name
+          : null,
+        followers_count: toCount(extractedData.followers_count),
+        following_count: toCount(extractedData.following_count),
+        posts_count: toCount(extractedData.posts_count),
+        bio_length,
+        bio,
+        avg_likes: toCount(extractedData.avg_likes),
+        avg_comments: toCount(extractedData.avg_comments),
+        avg_views: toCount(extractedData.avg_views),
+        post_timestamps: Array.isArray(extractedData.post_timestamps)
+          ? parseTimestamps(extractedData.post_timestamps).map((d) => d.toISOString())
+          : [],
+        account_age: toCount(extractedData.account_age),
         username_flags,
       },
+      username_analysis: usernameAnalysis,
+      impersonation,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
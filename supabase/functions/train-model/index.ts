@@ -0,0 +1,122 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { STORED_ANALYSIS_COLUMNS, storedInput, type StoredAnalysis } from "../_shared/backtest.ts";
+import { trainLogistic, type TrainingSample } from "../_shared/logistic.ts";
+import type { GroundTruth } from "../_shared/evaluation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Gradient descent is O(samples × iterations); bound the work per run
+const MAX_SAMPLES = 5000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: 'Invalid token' }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: role } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', user.id)
+      .eq('role', 'admin')
+      .maybeSingle();
+    if (!role) {
+      return new Response(JSON.stringify({ error: 'Admins only' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Every confirmed outcome with the stored input it was scored from
+    const { data: labeled, error: loadError } = await supabase
+      .from('ground_truth_labels')
+      .select(`label, analysis:analysis_results(${STORED_ANALYSIS_COLUMNS})`)
+      .order('reviewed_at', { ascending: false })
+      .limit(MAX_SAMPLES);
+
+    if (loadError) {
+      console.error('Load error:', loadError);
+      return new Response(JSON.stringify({ error: 'Failed to load labeled analyses' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const samples: TrainingSample[] = (labeled as unknown as { label: GroundTruth; analysis: StoredAnalysis | null }[])
+      .filter((row) => row.analysis)
+      .map((row) => ({ input: storedInput(row.analysis!), truth: row.label }));
+
+    let trained: ReturnType<typeof trainLogistic>;
+    try {
+      trained = trainLogistic(samples);
+    } catch (err) {
+      return new Response(JSON.stringify({ error: err instanceof Error ? err.message : 'Training failed' }), {
+        status: 422,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: existing } = await supabase.from('scoring_models').select('version');
+    const revisions = (existing ?? []).map((r) => Number(r.version.match(/^logistic-(\d+)$/)?.[1] ?? 0));
+    const version = `logistic-${Math.max(0, ...revisions) + 1}`;
+
+    const { data: saved, error: insertError } = await supabase
+      .from('scoring_models')
+      .insert({ version, model: trained.model, report: trained.report, created_by: user.id })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('Insert error:', insertError);
+      return new Response(JSON.stringify({ error: 'Failed to save model' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    await supabase.from('audit_logs').insert({
+      user_id: user.id,
+      action: 'scoring_models.train',
+      resource: 'scoring_models',
+      resource_id: saved.id,
+      metadata: { version, ...trained.report },
+    });
+
+    return new Response(JSON.stringify({ id: saved.id, version, report: trained.report }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  } catch (err) {
+    console.error(err);
+    return new Response(JSON.stringify({ error: 'Internal server error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,11 @@
+-- Record which scoring engine version produced each verdict
+ALTER TABLE public.analysis_results
+  ADD COLUMN model_version TEXT NOT NULL DEFAULT 'unversioned';
+
+-- Rows written from now on carry the engine's MODEL_VERSION; drop the default
+-- so a missing version fails loudly instead of being silently backfilled
+ALTER TABLE public.analysis_results
+  ALTER COLUMN model_version DROP DEFAULT;
+
+CREATE INDEX idx_analysis_results_model_version
+  ON public.analysis_results (model_version);
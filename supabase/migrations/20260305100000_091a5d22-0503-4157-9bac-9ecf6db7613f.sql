@@ -0,0 +1,87 @@
+-- Admin-editable scoring rule sets. Each row is an immutable version of the
+-- full rule list plus label thresholds; exactly one row may be active and is
+-- loaded by analyze-profile at request time. With no active row the function
+-- falls back to the built-in default rule set.
+CREATE TABLE public.scoring_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  rules JSONB NOT NULL,
+  thresholds JSONB NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_scoring_rules_single_active
+  ON public.scoring_rules (is_active)
+  WHERE is_active;
+
+ALTER TABLE public.scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scoring rules"
+  ON public.scoring_rules FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert scoring rules"
+  ON public.scoring_rules FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = created_by);
+
+-- Switch the active rule set atomically (the partial unique index forbids two
+-- active rows, so deactivate-then-activate must happen in one statement block)
+CREATE OR REPLACE FUNCTION public.activate_scoring_rules(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can activate scoring rules';
+  END IF;
+
+  UPDATE public.scoring_rules SET is_active = false WHERE is_active AND id <> _id;
+  UPDATE public.scoring_rules SET is_active = true WHERE id = _id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scoring rule set % not found', _id;
+  END IF;
+END;
+$$;
+
+-- Record every rule-set change in the audit log
+CREATE OR REPLACE FUNCTION public.audit_scoring_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+    VALUES (
+      COALESCE(auth.uid(), NEW.created_by),
+      'scoring_rules.create',
+      'scoring_rules',
+      NEW.id::text,
+      jsonb_build_object(
+        'version', NEW.version,
+        'thresholds', NEW.thresholds,
+        'rule_count', jsonb_array_length(NEW.rules),
+        'notes', NEW.notes
+      )
+    );
+  ELSIF NEW.is_active AND NOT OLD.is_active THEN
+    INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+    VALUES (
+      COALESCE(auth.uid(), NEW.created_by),
+      'scoring_rules.activate',
+      'scoring_rules',
+      NEW.id::text,
+      jsonb_build_object('version', NEW.version)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_scoring_rules_changes
+  AFTER INSERT OR UPDATE ON public.scoring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_scoring_rules();
@@ -0,0 +1,7 @@
+-- Persist the platform each analysis was scored against (selects the
+-- per-platform baseline in the scoring engine)
+ALTER TABLE public.analysis_results
+  ADD COLUMN platform TEXT NOT NULL DEFAULT 'Unknown';
+
+CREATE INDEX idx_analysis_results_platform
+  ON public.analysis_results (platform);
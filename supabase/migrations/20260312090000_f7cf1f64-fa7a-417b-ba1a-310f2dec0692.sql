@@ -0,0 +1,13 @@
+-- Metrics the analyst or scraper could not determine are stored as NULL
+-- (unknown) instead of 0, which the scoring engine would treat as real data
+ALTER TABLE public.analysis_results
+  ALTER COLUMN account_age DROP NOT NULL,
+  ALTER COLUMN posts_count DROP NOT NULL,
+  ALTER COLUMN followers_count DROP NOT NULL,
+  ALTER COLUMN following_count DROP NOT NULL,
+  ALTER COLUMN bio_length DROP NOT NULL;
+
+-- Verdict confidence, lowered as more metrics are unknown. NULL for rows
+-- scored before unknowns were tracked.
+ALTER TABLE public.analysis_results
+  ADD COLUMN confidence TEXT CHECK (confidence IN ('high', 'medium', 'low'));
@@ -0,0 +1,6 @@
+-- The Dashboard what-if simulator re-scores in the browser, so analysts need
+-- to read the rule set analyze-profile is currently using
+CREATE POLICY "Authenticated users can view the active scoring rules"
+  ON public.scoring_rules FOR SELECT
+  TO authenticated
+  USING (is_active);
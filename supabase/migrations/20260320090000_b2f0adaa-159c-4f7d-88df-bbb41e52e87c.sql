@@ -0,0 +1,4 @@
+-- Evidence behind the server-computed username flags (per-flag reasons plus
+-- the raw handle metrics). NULL for rows whose flags were ticked by hand.
+ALTER TABLE public.analysis_results
+  ADD COLUMN username_analysis JSONB;
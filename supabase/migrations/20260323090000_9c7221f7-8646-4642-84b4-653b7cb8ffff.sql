@@ -0,0 +1,4 @@
+-- Bio text as submitted or scraped, so bio-content factors can be explained
+-- and re-scored later. NULL when only the bio length was known.
+ALTER TABLE public.analysis_results
+  ADD COLUMN bio TEXT;
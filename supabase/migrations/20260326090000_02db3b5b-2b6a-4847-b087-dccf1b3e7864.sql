@@ -0,0 +1,6 @@
+-- Average engagement per recent post, used for the engagement-rate factors.
+-- NULL when not visible or not entered.
+ALTER TABLE public.analysis_results
+  ADD COLUMN avg_likes NUMERIC,
+  ADD COLUMN avg_comments NUMERIC,
+  ADD COLUMN avg_views NUMERIC;
@@ -0,0 +1,4 @@
+-- Recent post times submitted or scraped with the profile, kept so the
+-- cadence factors and heatmap can be shown again from history.
+ALTER TABLE public.analysis_results
+  ADD COLUMN post_timestamps TIMESTAMPTZ[];
@@ -0,0 +1,5 @@
+-- Follower sample submitted with an analysis (the inputs) and how each
+-- sampled follower scored at the time. NULL when no sample was given.
+ALTER TABLE public.analysis_results
+  ADD COLUMN follower_sample JSONB,
+  ADD COLUMN follower_breakdown JSONB;
@@ -0,0 +1,27 @@
+-- Clusters of coordinated accounts found across stored analyses. Rebuilt in
+-- full by the cluster-analyses job: each run inserts its clusters under a new
+-- run_id and then removes the previous run's rows.
+CREATE TABLE public.account_clusters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL,
+  platform TEXT NOT NULL,
+  username_template TEXT,
+  signature TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_from DATE,
+  created_to DATE,
+  members JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_account_clusters_platform ON public.account_clusters (platform);
+
+ALTER TABLE public.account_clusters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view account clusters"
+  ON public.account_clusters FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- The cluster a profile was matched to when it was scored ({id, size, signature})
+ALTER TABLE public.analysis_results
+  ADD COLUMN cluster JSONB;
@@ -0,0 +1,67 @@
+-- Official brand and executive handles we protect. analyze-profile and
+-- scrape-profile compare every username against this list and flag close
+-- lookalikes as possible impersonation. A NULL platform protects the handle
+-- everywhere.
+CREATE TABLE public.protected_handles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  handle TEXT NOT NULL,
+  platform TEXT,
+  label TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_protected_handles_handle_platform
+  ON public.protected_handles (lower(handle), COALESCE(platform, ''));
+
+ALTER TABLE public.protected_handles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view protected handles"
+  ON public.protected_handles FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert protected handles"
+  ON public.protected_handles FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = created_by);
+
+CREATE POLICY "Admins can delete protected handles"
+  ON public.protected_handles FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record watchlist changes in the audit log
+CREATE OR REPLACE FUNCTION public.audit_protected_handles()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+    VALUES (
+      COALESCE(auth.uid(), NEW.created_by),
+      'protected_handles.add',
+      'protected_handles',
+      NEW.id::text,
+      jsonb_build_object('handle', NEW.handle, 'platform', NEW.platform, 'label', NEW.label)
+    );
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+  VALUES (
+    auth.uid(),
+    'protected_handles.remove',
+    'protected_handles',
+    OLD.id::text,
+    jsonb_build_object('handle', OLD.handle, 'platform', OLD.platform, 'label', OLD.label)
+  );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_protected_handles_changes
+  AFTER INSERT OR DELETE ON public.protected_handles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_protected_handles();
+
+-- The protected handle a profile was matched to when it was scored
+-- ({handle, label, distance, reasons})
+ALTER TABLE public.analysis_results
+  ADD COLUMN impersonation JSONB;
@@ -0,0 +1,4 @@
+-- Name shown on the profile, checked for lookalike and hidden characters
+-- alongside the username
+ALTER TABLE public.analysis_results
+  ADD COLUMN display_name TEXT;
@@ -0,0 +1,9 @@
+-- Counts from the previous scan of the same profile that a scan was compared
+-- against ({analysis_id, analyzed_at, days_before, followers_count,
+-- following_count, posts_count}); NULL for a first scan
+ALTER TABLE public.analysis_results
+  ADD COLUMN previous_snapshot JSONB;
+
+-- Timelines and the previous-scan lookup group scans by user, platform and handle
+CREATE INDEX idx_analysis_results_user_platform_created
+  ON public.analysis_results (user_id, platform, created_at DESC);
@@ -0,0 +1,65 @@
+-- Analyst-confirmed outcomes for stored analyses. analysis_results rows are
+-- never edited, so the verdict lives alongside them: one row per analysis,
+-- replaced when an analyst changes their mind. The Admin accuracy metrics
+-- compare these against the label the model gave at the time.
+CREATE TABLE public.ground_truth_labels (
+  analysis_id UUID PRIMARY KEY REFERENCES public.analysis_results(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (label IN ('fake', 'real')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ground_truth_labels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ground truth labels"
+  ON public.ground_truth_labels FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert ground truth labels"
+  ON public.ground_truth_labels FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = reviewed_by);
+
+CREATE POLICY "Admins can update ground truth labels"
+  ON public.ground_truth_labels FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = reviewed_by);
+
+CREATE POLICY "Admins can delete ground truth labels"
+  ON public.ground_truth_labels FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record every verdict and retraction in the audit log
+CREATE OR REPLACE FUNCTION public.audit_ground_truth_labels()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+    VALUES (
+      auth.uid(),
+      'ground_truth.clear',
+      'analysis_results',
+      OLD.analysis_id::text,
+      jsonb_build_object('label', OLD.label)
+    );
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+  VALUES (
+    COALESCE(auth.uid(), NEW.reviewed_by),
+    'ground_truth.set',
+    'analysis_results',
+    NEW.analysis_id::text,
+    jsonb_build_object(
+      'label', NEW.label,
+      'previous_label', CASE WHEN TG_OP = 'UPDATE' THEN OLD.label END
+    )
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_ground_truth_labels_changes
+  AFTER INSERT OR UPDATE OR DELETE ON public.ground_truth_labels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_ground_truth_labels();
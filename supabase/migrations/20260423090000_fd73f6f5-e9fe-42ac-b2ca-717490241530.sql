@@ -0,0 +1,67 @@
+-- Learned scorers trained on ground_truth_labels by the train-model edge
+-- function. Each row is an immutable fitted model (coefficients as JSON).
+-- When one is active, analyze-profile uses its score for the verdict;
+-- otherwise the rule-based score is used and the newest model is run
+-- alongside for comparison.
+CREATE TABLE public.scoring_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  model JSONB NOT NULL,
+  report JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_scoring_models_single_active
+  ON public.scoring_models (is_active)
+  WHERE is_active;
+
+ALTER TABLE public.scoring_models ENABLE ROW LEVEL SECURITY;
+
+-- Models are only written by train-model with the service role
+CREATE POLICY "Admins can view scoring models"
+  ON public.scoring_models FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Make a model the active scorer, or pass NULL to go back to the rules
+CREATE OR REPLACE FUNCTION public.activate_scoring_model(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change the active scorer';
+  END IF;
+
+  UPDATE public.scoring_models SET is_active = false WHERE is_active AND id IS DISTINCT FROM _id;
+
+  IF _id IS NOT NULL THEN
+    UPDATE public.scoring_models SET is_active = true WHERE id = _id RETURNING version INTO _version;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Scoring model % not found', _id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+  VALUES (
+    auth.uid(),
+    CASE WHEN _id IS NULL THEN 'scoring_models.deactivate' ELSE 'scoring_models.activate' END,
+    'scoring_models',
+    _id::text,
+    jsonb_build_object('version', _version)
+  );
+END;
+$$;
+
+-- Both scores for every analysis: the rule-based score, and the learned one
+-- with the model that produced it. risk_score/label hold whichever scorer
+-- was active.
+ALTER TABLE public.analysis_results
+  ADD COLUMN heuristic_score INTEGER,
+  ADD COLUMN learned_score INTEGER,
+  ADD COLUMN learned_model TEXT;
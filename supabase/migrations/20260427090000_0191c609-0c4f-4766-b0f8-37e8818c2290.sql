@@ -0,0 +1,79 @@
+-- Shadow scoring: one rule set or learned model can be designated as the
+-- shadow candidate. analyze-profile scores every request with it as well,
+-- stores the result in shadow_scores and never shows it to the user, so a
+-- candidate can be compared against production before it is activated.
+ALTER TABLE public.scoring_rules
+  ADD COLUMN is_shadow BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.scoring_models
+  ADD COLUMN is_shadow BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX idx_scoring_rules_single_shadow
+  ON public.scoring_rules (is_shadow)
+  WHERE is_shadow;
+
+CREATE UNIQUE INDEX idx_scoring_models_single_shadow
+  ON public.scoring_models (is_shadow)
+  WHERE is_shadow;
+
+CREATE TABLE public.shadow_scores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.analysis_results(id) ON DELETE CASCADE,
+  shadow_version TEXT NOT NULL,
+  shadow_kind TEXT NOT NULL CHECK (shadow_kind IN ('rules', 'model')),
+  risk_score INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  live_version TEXT NOT NULL,
+  live_score INTEGER NOT NULL,
+  live_label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shadow_scores_version_created
+  ON public.shadow_scores (shadow_version, created_at DESC);
+
+ALTER TABLE public.shadow_scores ENABLE ROW LEVEL SECURITY;
+
+-- Written only by analyze-profile with the service role
+CREATE POLICY "Admins can view shadow scores"
+  ON public.shadow_scores FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Designate the shadow candidate: _kind 'rules' or 'model' with its id, or
+-- NULLs to stop shadow scoring. At most one candidate across both tables.
+CREATE OR REPLACE FUNCTION public.set_shadow_scorer(_kind TEXT, _id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change the shadow scorer';
+  END IF;
+
+  UPDATE public.scoring_rules SET is_shadow = false WHERE is_shadow;
+  UPDATE public.scoring_models SET is_shadow = false WHERE is_shadow;
+
+  IF _kind = 'rules' THEN
+    UPDATE public.scoring_rules SET is_shadow = true WHERE id = _id RETURNING version INTO _version;
+  ELSIF _kind = 'model' THEN
+    UPDATE public.scoring_models SET is_shadow = true WHERE id = _id RETURNING version INTO _version;
+  END IF;
+
+  IF _kind IS NOT NULL AND _version IS NULL THEN
+    RAISE EXCEPTION 'Shadow candidate % % not found', _kind, _id;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+  VALUES (
+    auth.uid(),
+    CASE WHEN _kind IS NULL THEN 'shadow.clear' ELSE 'shadow.set' END,
+    CASE WHEN _kind = 'model' THEN 'scoring_models' ELSE 'scoring_rules' END,
+    _id::text,
+    jsonb_build_object('kind', _kind, 'version', _version)
+  );
+END;
+$$;
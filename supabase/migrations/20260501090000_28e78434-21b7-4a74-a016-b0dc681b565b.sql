@@ -0,0 +1,35 @@
+-- Rule sets are frozen copies of the rules, so a set published before the
+-- engine gained new built-in rules silently runs without them. Record the
+-- engine version (MODEL_VERSION) each set was written against so Admin can
+-- flag stale sets; rows published before this are left NULL.
+ALTER TABLE public.scoring_rules
+  ADD COLUMN engine_version TEXT;
+
+-- A NULL _id deactivates every rule set, reverting analyze-profile to the
+-- built-in defaults of whatever engine version is deployed
+CREATE OR REPLACE FUNCTION public.activate_scoring_rules(_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can activate scoring rules';
+  END IF;
+
+  UPDATE public.scoring_rules SET is_active = false WHERE is_active AND id IS DISTINCT FROM _id;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.audit_logs (user_id, action, resource, resource_id, metadata)
+    VALUES (auth.uid(), 'scoring_rules.deactivate', 'scoring_rules', NULL, '{}'::jsonb);
+    RETURN;
+  END IF;
+
+  UPDATE public.scoring_rules SET is_active = true WHERE id = _id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scoring rule set % not found', _id;
+  END IF;
+END;
+$$;